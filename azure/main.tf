@@ -404,7 +404,7 @@ variable "azure_openai_deployment_name" {
 variable "azure_openai_api_version" {
   description = "Azure OpenAI API version"
   type        = string
-  default     = "2024-02-01"
+  default     = "2024-10-21"
 }
 
 # Random secret for NextAuth
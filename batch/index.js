@@ -8,6 +8,8 @@ class UnityCatalogIndexer {
     this.databricksUrl = process.env.DATABRICKS_WORKSPACE_URL;
     this.solrUrl = `http://${process.env.SOLR_HOST}:${process.env.SOLR_PORT}`;
     this.solrCore = process.env.SOLR_CORE;
+    // Saved-search alerts are evaluated through the web app, so they match exactly what the UI shows
+    this.webUrl = process.env.WEB_URL;
     
     this.dbConfig = {
       host: process.env.MYSQL_HOST,
@@ -97,6 +99,8 @@ class UnityCatalogIndexer {
           id: `file_${catalog}_${schema}_${volume}_${relativePath}`.replace(/[^a-zA-Z0-9_\-]/g, '_'),
           name: fileName,
           full_name: `${catalog}.${schema}.${volume}/${relativePath}`,
+          // Files and directories group under their volume in grouped search results
+          group_key: `volume_${catalog}_${schema}_${volume}`,
           type: file.is_directory ? 'directory' : 'file',
           catalog_name: catalog,
           schema_name: schema,
@@ -155,6 +159,81 @@ class UnityCatalogIndexer {
     }
   }
 
+  // Ids and names of every document matching a saved search's /api/search query string
+  async fetchSavedSearchMatches(queryString) {
+    const response = await axios.get(
+      `${this.webUrl}/api/search/export?${queryString}&format=ndjson&fields=id,name,full_name,type`,
+      { responseType: 'text', transformResponse: data => data }
+    );
+    return response.data
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line));
+  }
+
+  // Compare each alerting saved search against its snapshot from the previous run and record
+  // documents that are new since then. The first run of an alert only records a baseline.
+  async checkSearchAlerts() {
+    if (!this.webUrl) {
+      console.log('WEB_URL not set, skipping saved search alerts');
+      return;
+    }
+
+    const connection = await mysql.createConnection(this.dbConfig);
+    try {
+      const [savedSearches] = await connection.execute(
+        'SELECT id, user_id, name, query_string, last_checked_at FROM saved_searches WHERE is_alert = TRUE'
+      );
+
+      for (const savedSearch of savedSearches) {
+        try {
+          const matches = await this.fetchSavedSearchMatches(savedSearch.query_string);
+          const [snapshot] = await connection.execute(
+            'SELECT entity_id FROM saved_search_snapshots WHERE saved_search_id = ?',
+            [savedSearch.id]
+          );
+          const previousIds = new Set(snapshot.map(row => row.entity_id));
+          const newMatches = savedSearch.last_checked_at
+            ? matches.filter(match => !previousIds.has(match.id))
+            : [];
+
+          await connection.beginTransaction();
+          for (const match of newMatches) {
+            await connection.execute(
+              `INSERT INTO search_alerts (user_id, saved_search_id, entity_id, entity_name, entity_full_name, entity_type)
+               VALUES (?, ?, ?, ?, ?, ?)`,
+              [savedSearch.user_id, savedSearch.id, match.id, match.name, match.full_name, match.type]
+            );
+          }
+          await connection.execute('DELETE FROM saved_search_snapshots WHERE saved_search_id = ?', [savedSearch.id]);
+          const batchSize = 500;
+          for (let i = 0; i < matches.length; i += batchSize) {
+            const batch = matches.slice(i, i + batchSize);
+            await connection.query(
+              'INSERT IGNORE INTO saved_search_snapshots (saved_search_id, entity_id) VALUES ?',
+              [batch.map(match => [savedSearch.id, match.id])]
+            );
+          }
+          await connection.execute(
+            'UPDATE saved_searches SET last_checked_at = ?, last_match_count = ? WHERE id = ?',
+            [new Date(), matches.length, savedSearch.id]
+          );
+          await connection.commit();
+
+          console.log(`Saved search "${savedSearch.name}": ${matches.length} matches, ${newMatches.length} new`);
+        } catch (error) {
+          // One broken saved search shouldn't stop the others from being checked
+          await connection.rollback().catch(() => {});
+          console.error(`Error checking saved search "${savedSearch.name}":`, error.message);
+        }
+      }
+    } catch (error) {
+      console.error('Error checking saved search alerts:', error);
+    } finally {
+      await connection.end();
+    }
+  }
+
   formatTimestamp(timestamp) {
     if (!timestamp) return new Date().toISOString();
     // If it's a Unix timestamp (number), convert to ISO string
@@ -190,6 +269,7 @@ class UnityCatalogIndexer {
           id: `catalog_${catalog.name}`,
           name: catalog.name,
           full_name: catalog.name,
+          group_key: `catalog_${catalog.name}`,
           type: 'catalog',
           catalog_name: catalog.name,
           comment: catalog.comment || '',
@@ -217,6 +297,7 @@ class UnityCatalogIndexer {
               id: `schema_${catalog.name}_${schema.name}`,
               name: schema.name,
               full_name: `${catalog.name}.${schema.name}`,
+              group_key: `schema_${catalog.name}_${schema.name}`,
               type: 'schema',
               catalog_name: catalog.name,
               schema_name: schema.name,
@@ -240,6 +321,7 @@ class UnityCatalogIndexer {
                   id: `volume_${catalog.name}_${schema.name}_${volume.name}`,
                   name: volume.name,
                   full_name: `${catalog.name}.${schema.name}.${volume.name}`,
+                  group_key: `volume_${catalog.name}_${schema.name}_${volume.name}`,
                   type: 'volume',
                   catalog_name: catalog.name,
                   schema_name: schema.name,
@@ -287,6 +369,7 @@ class UnityCatalogIndexer {
                   id: `table_${catalog.name}_${schema.name}_${table.name}`,
                   name: table.name,
                   full_name: `${catalog.name}.${schema.name}.${table.name}`,
+                  group_key: `table_${catalog.name}_${schema.name}_${table.name}`,
                   type: 'table',
                   catalog_name: catalog.name,
                   schema_name: schema.name,
@@ -298,7 +381,8 @@ class UnityCatalogIndexer {
                   updated_at: this.formatTimestamp(table.updated_at),
                   tags: table.tags || [],
                   storage_format: table.storage_format || '',
-                  location: table.storage_location || ''
+                  location: table.storage_location || '',
+                  properties: table.properties ? JSON.stringify(table.properties) : ''
                 });
 
                 // Fetch columns for this table (many tables don't support columns API)
@@ -310,6 +394,8 @@ class UnityCatalogIndexer {
                       id: `column_${catalog.name}_${schema.name}_${table.name}_${column.name}`,
                       name: column.name,
                       full_name: `${catalog.name}.${schema.name}.${table.name}.${column.name}`,
+                      // Columns group under their table in grouped search results
+                      group_key: `table_${catalog.name}_${schema.name}_${table.name}`,
                       type: 'column',
                       catalog_name: catalog.name,
                       schema_name: schema.name,
@@ -388,6 +474,9 @@ class UnityCatalogIndexer {
         console.log(`Indexed batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(documents.length / batchSize)}`);
       }
       
+      // Record new matches for alerting saved searches
+      await this.checkSearchAlerts();
+
       // Update job status
       await this.updateIndexingJob(jobId, 'completed', documents.length);
       
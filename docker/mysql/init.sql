@@ -72,4 +72,131 @@ CREATE INDEX idx_user_preferences_user_id ON user_preferences(user_id);
 CREATE INDEX idx_sessions_user_id ON sessions(user_id);
 CREATE INDEX idx_sessions_token ON sessions(session_token);
 CREATE INDEX idx_indexing_jobs_status ON indexing_jobs(status);
-CREATE INDEX idx_indexing_jobs_created_at ON indexing_jobs(created_at);
\ No newline at end of file
+CREATE INDEX idx_indexing_jobs_created_at ON indexing_jobs(created_at);
+
+-- Chat conversations
+CREATE TABLE IF NOT EXISTS conversations (
+    id VARCHAR(36) PRIMARY KEY,
+    user_id INT NOT NULL,
+    title VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Chat messages, including assistant tool calls and tool results
+CREATE TABLE IF NOT EXISTS conversation_messages (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    conversation_id VARCHAR(36) NOT NULL,
+    role ENUM('user', 'assistant', 'tool') NOT NULL,
+    content MEDIUMTEXT,
+    tool_calls JSON,
+    tool_call_id VARCHAR(255),
+    is_error BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+    FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_conversations_user_id ON conversations(user_id, updated_at);
+CREATE INDEX idx_conversation_messages_conversation_id ON conversation_messages(conversation_id, id);
+
+-- Relevance profiles: field boosts for catalog search, editable without redeploying
+CREATE TABLE IF NOT EXISTS relevance_profiles (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    name VARCHAR(50) UNIQUE NOT NULL,
+    description VARCHAR(255),
+    boosts JSON NOT NULL,
+    is_default BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+INSERT IGNORE INTO relevance_profiles (name, description, boosts, is_default) VALUES
+    ('default', 'Name matches first, then full text',
+     '{"nameExact": 10, "namePrefix": 5, "nameSubstring": 3, "text": 2, "description": 1, "fullName": 1, "fileName": 1, "volumeName": 1, "tableName": 1, "columnName": 1}',
+     TRUE),
+    ('descriptive', 'Favors descriptions and column names for exploratory searches',
+     '{"nameExact": 6, "namePrefix": 3, "nameSubstring": 2, "text": 3, "description": 4, "fullName": 1, "fileName": 1, "volumeName": 1, "tableName": 1, "columnName": 3}',
+     FALSE);
+
+-- Saved searches: the /api/search query string (q plus filters and sort) a user can rerun
+CREATE TABLE IF NOT EXISTS saved_searches (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    user_id INT NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    query_string TEXT NOT NULL,
+    is_alert BOOLEAN DEFAULT FALSE,
+    last_checked_at TIMESTAMP NULL,
+    last_match_count INT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Entity ids an alerting saved search matched at the last indexer run
+CREATE TABLE IF NOT EXISTS saved_search_snapshots (
+    saved_search_id INT NOT NULL,
+    entity_id VARCHAR(255) NOT NULL,
+    PRIMARY KEY (saved_search_id, entity_id),
+    FOREIGN KEY (saved_search_id) REFERENCES saved_searches(id) ON DELETE CASCADE
+);
+
+-- New matches since the previous indexer run, shown in the user's inbox
+CREATE TABLE IF NOT EXISTS search_alerts (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    user_id INT NOT NULL,
+    saved_search_id INT NOT NULL,
+    entity_id VARCHAR(255) NOT NULL,
+    entity_name VARCHAR(255),
+    entity_full_name VARCHAR(1000),
+    entity_type VARCHAR(50),
+    detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    read_at TIMESTAMP NULL,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (saved_search_id) REFERENCES saved_searches(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_saved_searches_user_id ON saved_searches(user_id, name);
+CREATE INDEX idx_search_alerts_user_id ON search_alerts(user_id, read_at, detected_at);
+
+-- Search analytics: one row per /api/search request or search_catalog tool call
+CREATE TABLE IF NOT EXISTS search_queries (
+    id BIGINT AUTO_INCREMENT PRIMARY KEY,
+    user_id INT NULL,
+    source ENUM('api', 'mcp') NOT NULL,
+    query VARCHAR(1000) NOT NULL,
+    filters JSON,
+    page INT DEFAULT 0,
+    hit_count INT NULL,
+    latency_ms INT NOT NULL,
+    error VARCHAR(255) NULL,
+    created_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- Results opened from a logged search, with their 1-based position in the results
+CREATE TABLE IF NOT EXISTS search_clicks (
+    id BIGINT AUTO_INCREMENT PRIMARY KEY,
+    search_query_id BIGINT NOT NULL,
+    user_id INT NULL,
+    entity_id VARCHAR(255) NOT NULL,
+    position INT,
+    created_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+    FOREIGN KEY (search_query_id) REFERENCES search_queries(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_search_queries_created_at ON search_queries(created_at);
+CREATE INDEX idx_search_clicks_search_query_id ON search_clicks(search_query_id);
+
+-- BrAPI endpoint credentials (bearer token, basic password or OAuth2 client secret), AES-256-GCM
+-- encrypted with BRAPI_SECRETS_KEY. The non-secret auth settings live with the endpoint in user_preferences.
+CREATE TABLE IF NOT EXISTS brapi_endpoint_secrets (
+    user_id INT NOT NULL,
+    endpoint_id VARCHAR(36) NOT NULL,
+    ciphertext TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, endpoint_id),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
@@ -160,9 +160,9 @@ if [[ -z "$AZURE_OPENAI_DEPLOYMENT_NAME" ]]; then
 fi
 
 if [[ -z "$AZURE_OPENAI_API_VERSION" ]]; then
-  read -p "Azure OpenAI API Version (default: 2024-02-01): " AZURE_OPENAI_API_VERSION
+  read -p "Azure OpenAI API Version (default: 2024-10-21): " AZURE_OPENAI_API_VERSION
 fi
-AZURE_OPENAI_API_VERSION=${AZURE_OPENAI_API_VERSION:-"2024-02-01"}
+AZURE_OPENAI_API_VERSION=${AZURE_OPENAI_API_VERSION:-"2024-10-21"}
 
 # Validate all required variables are present
 echo ""
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { BarChart3Icon } from 'lucide-react';
+import type { SearchAnalytics, QueryStats } from '@/lib/search-analytics';
+
+const PERIODS = [7, 30, 90];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString();
+};
+
+const searchHref = (query: string) => `/search?${new URLSearchParams({ q: query })}`;
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border px-4 py-3">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="text-2xl font-semibold text-gray-900">{value}</p>
+    </div>
+  );
+}
+
+function Section({ title, description, children }: { title: string; description: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border mb-6">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-gray-900">{title}</h2>
+        <p className="text-sm text-gray-600">{description}</p>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function QueryTable({ queries, empty }: { queries: QueryStats[]; empty: string }) {
+  if (queries.length === 0) {
+    return <p className="px-6 py-4 text-sm text-gray-500">{empty}</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead className="bg-gray-50 text-left text-xs text-gray-500">
+        <tr>
+          <th className="px-6 py-2 font-medium">Query</th>
+          <th className="px-3 py-2 font-medium text-right">Searches</th>
+          <th className="px-3 py-2 font-medium text-right">Avg. hits</th>
+          <th className="px-3 py-2 font-medium text-right">Click-through</th>
+          <th className="px-3 py-2 font-medium text-right">Avg. latency</th>
+          <th className="px-6 py-2 font-medium text-right">Last searched</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {queries.map(stats => (
+          <tr key={stats.query}>
+            <td className="px-6 py-2 font-mono">
+              <Link href={searchHref(stats.query)} className="text-primary-700 hover:underline">{stats.query}</Link>
+            </td>
+            <td className="px-3 py-2 text-right">{stats.searches}</td>
+            <td className="px-3 py-2 text-right">{stats.avgHits ?? '-'}</td>
+            <td className="px-3 py-2 text-right">{formatPercent(stats.clickThroughRate)}</td>
+            <td className="px-3 py-2 text-right">{stats.avgLatencyMs} ms</td>
+            <td className="px-6 py-2 text-right text-gray-500">{formatDateTime(stats.lastSearchedAt)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function SearchAnalyticsPage() {
+  const [days, setDays] = useState(30);
+  const [analytics, setAnalytics] = useState<SearchAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadAnalytics = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/admin/analytics?days=${days}`);
+        const data = await response.json();
+        if (response.ok) {
+          setAnalytics(data);
+          setError(null);
+        } else {
+          setError(data.error);
+        }
+      } catch (error) {
+        console.error('Failed to load search analytics:', error);
+        setError('Failed to load search analytics');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadAnalytics();
+  }, [days]);
+
+  return (
+    <div className="h-full overflow-y-auto bg-gray-50">
+      <div className="max-w-6xl mx-auto px-6 py-8">
+        {/* Header */}
+        <div className="mb-8 flex items-end justify-between">
+          <div>
+            <div className="flex items-center gap-3 mb-4">
+              <BarChart3Icon className="w-8 h-8 text-gray-700" />
+              <h1 className="text-3xl font-bold text-gray-900">Search Analytics</h1>
+            </div>
+            <p className="text-gray-600">What people search for, what they fail to find, and what they open</p>
+          </div>
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+          >
+            {PERIODS.map(period => (
+              <option key={period} value={period}>Last {period} days</option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 rounded-lg bg-red-100 text-red-800">{error}</div>
+        )}
+
+        {loading && !analytics ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-gray-500">Loading analytics...</div>
+          </div>
+        ) : analytics && (
+          <div className={loading ? 'opacity-50' : ''}>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <Stat label="Searches" value={analytics.summary.searches.toLocaleString()} />
+              <Stat label="Distinct queries" value={analytics.summary.distinctQueries.toLocaleString()} />
+              <Stat label="Zero-result rate" value={formatPercent(analytics.summary.zeroResultRate)} />
+              <Stat label="Error rate" value={formatPercent(analytics.summary.errorRate)} />
+              <Stat label="Avg. latency" value={`${analytics.summary.avgLatencyMs} ms`} />
+              <Stat label="Click-through rate" value={formatPercent(analytics.summary.clickThroughRate)} />
+              <Stat
+                label="Avg. clicked position"
+                value={analytics.summary.avgClickPosition !== null ? String(analytics.summary.avgClickPosition) : '-'}
+              />
+            </div>
+
+            <Section
+              title="Zero-result queries"
+              description="Candidates for better descriptions, tags or synonyms"
+            >
+              <QueryTable queries={analytics.zeroResultQueries} empty="Every search found something." />
+            </Section>
+
+            <Section
+              title="Top queries"
+              description="Most frequent searches; a low click-through rate suggests the right result isn't ranking well"
+            >
+              <QueryTable queries={analytics.topQueries} empty="No searches yet." />
+            </Section>
+
+            <Section
+              title="Slowest searches"
+              description="Individual requests and tool calls, slowest first"
+            >
+              {analytics.slowestSearches.length === 0 ? (
+                <p className="px-6 py-4 text-sm text-gray-500">No searches yet.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-xs text-gray-500">
+                    <tr>
+                      <th className="px-6 py-2 font-medium">Query</th>
+                      <th className="px-3 py-2 font-medium">Filters</th>
+                      <th className="px-3 py-2 font-medium">Source</th>
+                      <th className="px-3 py-2 font-medium text-right">Hits</th>
+                      <th className="px-3 py-2 font-medium text-right">Latency</th>
+                      <th className="px-6 py-2 font-medium text-right">When</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {analytics.slowestSearches.map(search => (
+                      <tr key={search.id}>
+                        <td className="px-6 py-2 font-mono">{search.query}</td>
+                        <td className="px-3 py-2 font-mono text-xs text-gray-600">
+                          {Object.entries(search.filters).map(([key, value]) =>
+                            `${key}=${Array.isArray(value) ? value.join(',') : value}`).join(' ')}
+                        </td>
+                        <td className="px-3 py-2">{search.source === 'mcp' ? 'MCP' : 'API'}</td>
+                        <td className="px-3 py-2 text-right">{search.hitCount ?? '-'}</td>
+                        <td className="px-3 py-2 text-right">{search.latencyMs} ms</td>
+                        <td className="px-6 py-2 text-right text-gray-500">{formatDateTime(search.createdAt)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </Section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSearchAnalytics } from '@/lib/search-analytics';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+// Search analytics over the last ?days= days (default 30).
+// Not yet restricted to admins - add a role check once authentication lands.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const days = searchParams.get('days') ? Number(searchParams.get('days')) : DEFAULT_DAYS;
+
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+    return NextResponse.json(
+      { error: `days must be a whole number from 1 to ${MAX_DAYS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const analytics = await getSearchAnalytics(days);
+    return NextResponse.json(analytics, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching search analytics:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch search analytics' },
+      { status: 500 }
+    );
+  }
+}
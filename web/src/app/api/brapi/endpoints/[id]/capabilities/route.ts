@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { brapiClient } from '@/lib/brapi-client';
+
+// The calls an endpoint advertises in /serverinfo; ?refresh=true bypasses the cache
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const endpoint = (await brapiClient.getEndpoints()).find(ep => ep.id === id);
+  if (!endpoint) {
+    return NextResponse.json(
+      { error: 'BrAPI endpoint not found' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const refresh = request.nextUrl.searchParams.get('refresh') === 'true';
+    const capabilities = await brapiClient.getCapabilities(endpoint, { refresh });
+    return NextResponse.json(capabilities, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching BrAPI capabilities:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch endpoint capabilities',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { browseCatalog, parseBrowsePath } from '@/lib/catalog-browse';
+
+// GET /api/browse?path=main.genomics - immediate children of a catalog path with child counts
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const path = parseBrowsePath(searchParams.get('path'));
+
+  if (!path) {
+    return NextResponse.json(
+      { error: 'Invalid path; expected catalog, catalog.schema or catalog.schema.table' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await browseCatalog(path);
+    if (!result) {
+      return NextResponse.json(
+        { error: `Not found: ${path.join('.')}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Browse API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to browse catalog',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
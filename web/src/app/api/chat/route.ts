@@ -1,7 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getOpenAIClient, buildSystemMessage, DEPLOYMENT_NAME, MAX_TOKENS } from '@/lib/openai';
+import type { ChatCompletionMessageParam, ChatCompletionMessageToolCall } from 'openai/resources/chat/completions';
+import { buildSystemMessage, MAX_TOKENS, MAX_TOOL_STEPS } from '@/lib/openai';
+import { getLLMProvider } from '@/lib/llm';
 import { v4 as uuidv4 } from 'uuid';
 import { getOpenAIFunctions, executeMCPTool } from '@/mcp/server';
+import { ensureDefaultUser } from '@/lib/mysql';
+import {
+  getConversation,
+  getConversationMessages,
+  ensureConversation,
+  appendConversationMessages,
+  toChatCompletionMessages
+} from '@/lib/conversations';
+import { ChatStreamEvent, TokenUsage, encodeChatStreamEvent } from '@/lib/chat-stream';
+import { EntityReference, ToolResult } from '@/mcp/types';
+
+// Temporary user ID - replace with actual authentication later
+const TEMP_USER_ID = 1;
 
 interface ChatRequest {
   message: string;
@@ -27,121 +42,228 @@ export async function POST(request: NextRequest) {
 
     const systemMessage = buildSystemMessage(context);
 
-    // For now, we'll implement basic streaming response
-    // In a real implementation, you'd load conversation history here
-    const openai = getOpenAIClient();
-    const response = await openai.chat.completions.create({
-      model: DEPLOYMENT_NAME,
-      max_tokens: MAX_TOKENS,
+    const currentConversationId = conversationId || uuidv4();
+
+    // Replay earlier turns of this conversation so the model has the full context
+    let history: ChatCompletionMessageParam[] = [];
+    try {
+      await ensureDefaultUser();
+      if (conversationId && await getConversation(TEMP_USER_ID, conversationId)) {
+        history = toChatCompletionMessages(await getConversationMessages(conversationId));
+      }
+    } catch (historyError) {
+      console.error('Error loading conversation history:', historyError);
+    }
+
+    // Save the user's message now, and each step of the reply as it finishes, so a turn that fails
+    // partway keeps what the client has already shown
+    let saving = false;
+    try {
+      if (!await ensureConversation(TEMP_USER_ID, currentConversationId, message)) {
+        return NextResponse.json(
+          { error: 'Conversation not found' },
+          { status: 404 }
+        );
+      }
+      await appendConversationMessages(currentConversationId, [{ role: 'user', content: message }]);
+      saving = true;
+    } catch (persistError) {
+      console.error('Error saving conversation:', persistError);
+    }
+
+    const messages: ChatCompletionMessageParam[] = [
+      {
+        role: 'system',
+        content: systemMessage
+      },
+      ...history,
+      {
+        role: 'user',
+        content: message
+      }
+    ];
+    // Messages from this index on have not been saved yet
+    let unsavedStart = messages.length;
+    // Tool calls that failed, tracked here rather than on `messages`, which are sent to the model as is
+    const failedToolCalls = new Set<string>();
+    const saveNewMessages = async () => {
+      const unsaved = messages.slice(unsavedStart).map(message =>
+        message.role === 'tool' && failedToolCalls.has(message.tool_call_id) ? { ...message, isError: true } : message
+      );
+      unsavedStart = messages.length;
+      if (!saving || unsaved.length === 0) {
+        return;
+      }
+      try {
+        await appendConversationMessages(currentConversationId, unsaved);
+      } catch (persistError) {
+        console.error('Error saving conversation:', persistError);
+      }
+    };
+
+    const provider = await getLLMProvider(TEMP_USER_ID);
+    const tools = await getOpenAIFunctions();
+    const createCompletion = (step: number) => provider.streamChat({
+      maxTokens: MAX_TOKENS,
       temperature: 0.7,
-      messages: [
-        {
-          role: 'system',
-          content: systemMessage
-        },
-        {
-          role: 'user',
-          content: message
-        }
-      ],
-      tools: getOpenAIFunctions(),
-      tool_choice: 'auto',
-      stream: true
+      messages,
+      tools,
+      // On the last allowed step, force the model to answer with what it has
+      toolChoice: step >= MAX_TOOL_STEPS - 1 ? 'none' : 'auto'
     });
 
+    // Create the first completion outside the stream so API errors map to HTTP status codes
+    const firstResponse = await createCompletion(0);
+
     // Create a ReadableStream for streaming response
     const encoder = new TextEncoder();
     const stream = new ReadableStream({
       async start(controller) {
+        const send = (event: ChatStreamEvent) => {
+          controller.enqueue(encoder.encode(encodeChatStreamEvent(event)));
+        };
+
         try {
-          const currentConversationId = conversationId || uuidv4();
-          const pendingToolCalls: Array<{
-            id: string;
-            type: string;
-            function: { name: string; arguments: string };
-          }> = [];
-          
-          for await (const chunk of response) {
-            const delta = chunk.choices[0]?.delta;
-            const content = delta?.content;
-            const toolCalls = delta?.tool_calls;
-            
-            // Handle regular content
-            if (content) {
-              const data = JSON.stringify({
-                type: 'content',
-                content: content,
-                conversationId: currentConversationId
-              });
-              controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+          let response = firstResponse;
+          const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+          const citations = new Map<string, EntityReference>();
+          let steps = 0;
+
+          for (let step = 0; step < MAX_TOOL_STEPS; step++) {
+            if (step > 0) {
+              response = await createCompletion(step);
             }
-            
-            // Handle streaming tool calls
-            if (toolCalls) {
-              toolCalls.forEach((toolCall: unknown, index: number) => {
-                if (!toolCall || typeof toolCall !== 'object') return;
-                const tc = toolCall as Record<string, unknown>;
-                if (!pendingToolCalls[index]) {
-                  pendingToolCalls[index] = {
-                    id: (tc.id as string) || '',
-                    type: (tc.type as string) || '',
-                    function: { name: '', arguments: '' }
-                  };
-                }
-                
-                const tcFunction = tc.function as Record<string, unknown> | undefined;
-                if (tcFunction?.name && typeof tcFunction.name === 'string') {
-                  pendingToolCalls[index].function.name += tcFunction.name;
-                }
-                if (tcFunction?.arguments && typeof tcFunction.arguments === 'string') {
-                  pendingToolCalls[index].function.arguments += tcFunction.arguments;
-                }
-              });
+            steps++;
+
+            const pendingToolCalls: ChatCompletionMessageToolCall[] = [];
+            let assistantContent = '';
+            let finishReason: string | null = null;
+
+            for await (const chunk of response) {
+              const delta = chunk.choices[0]?.delta;
+              const content = delta?.content;
+              const toolCalls = delta?.tool_calls;
+
+              // Handle regular content
+              if (content) {
+                assistantContent += content;
+                send({ type: 'content', content, conversationId: currentConversationId });
+              }
+
+              // Handle streaming tool calls; fragments are keyed by their index
+              if (toolCalls) {
+                toolCalls.forEach((toolCall) => {
+                  const index = toolCall.index;
+                  if (!pendingToolCalls[index]) {
+                    pendingToolCalls[index] = {
+                      id: toolCall.id || '',
+                      type: 'function',
+                      function: { name: '', arguments: '' }
+                    };
+                  }
+
+                  if (toolCall.id) {
+                    pendingToolCalls[index].id = toolCall.id;
+                  }
+                  if (toolCall.function?.name) {
+                    pendingToolCalls[index].function.name += toolCall.function.name;
+                  }
+                  if (toolCall.function?.arguments) {
+                    pendingToolCalls[index].function.arguments += toolCall.function.arguments;
+                  }
+                });
+              }
+
+              // Usage arrives on a final chunk without choices
+              if (chunk.usage) {
+                usage.promptTokens += chunk.usage.prompt_tokens;
+                usage.completionTokens += chunk.usage.completion_tokens;
+                usage.totalTokens += chunk.usage.total_tokens;
+              }
+
+              finishReason = chunk.choices[0]?.finish_reason || finishReason;
             }
-            
-            const finishReason = chunk.choices[0]?.finish_reason;
-            
-            // Handle tool call execution
-            if (finishReason === 'tool_calls' && pendingToolCalls.length > 0) {
-              for (const toolCall of pendingToolCalls) {
-                try {
-                  const args = JSON.parse(toolCall.function.arguments);
-                  const result = await executeMCPTool(toolCall.function.name, args);
-                  
-                  // Send tool result as content
-                  const data = JSON.stringify({
-                    type: 'content',
-                    content: result,
-                    conversationId: currentConversationId
-                  });
-                  controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-                } catch (toolError) {
-                  console.error('Tool execution error:', toolError);
-                  const errorData = JSON.stringify({
-                    type: 'content',
-                    content: `Error executing search: ${toolError instanceof Error ? toolError.message : 'Unknown error'}`,
-                    conversationId: currentConversationId
-                  });
-                  controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
-                }
+
+            const toolCallsToRun = pendingToolCalls.filter(Boolean);
+            if (finishReason !== 'tool_calls' || toolCallsToRun.length === 0) {
+              if (assistantContent) {
+                messages.push({ role: 'assistant', content: assistantContent });
               }
+              await saveNewMessages();
+              break;
             }
-            
-            if (finishReason === 'stop' || finishReason === 'tool_calls') {
-              const data = JSON.stringify({
-                type: 'done',
+
+            // Record the assistant's tool request so the model sees it on the next step
+            messages.push({
+              role: 'assistant',
+              content: assistantContent || null,
+              tool_calls: toolCallsToRun
+            });
+
+            // Execute each tool and feed its output back to the model
+            for (const toolCall of toolCallsToRun) {
+              const startedAt = Date.now();
+              let toolResult: ToolResult;
+
+              // Announce the call before parsing its arguments, so a malformed call still gets a result the client can match
+              send({
+                type: 'tool_start',
+                toolCallId: toolCall.id,
+                name: toolCall.function.name,
+                arguments: toolCall.function.arguments,
+                conversationId: currentConversationId
+              });
+
+              try {
+                const args = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+                toolResult = await executeMCPTool(toolCall.function.name, args);
+              } catch (toolError) {
+                console.error('Tool execution error:', toolError);
+                toolResult = {
+                  content: `Error executing ${toolCall.function.name}: ${toolError instanceof Error ? toolError.message : 'Unknown error'}`,
+                  isError: true
+                };
+              }
+
+              (toolResult.entities || []).forEach(entity => citations.set(entity.id, entity));
+              if (toolResult.isError) {
+                failedToolCalls.add(toolCall.id);
+              }
+
+              send({
+                type: 'tool_result',
+                toolCallId: toolCall.id,
+                name: toolCall.function.name,
+                durationMs: Date.now() - startedAt,
+                isError: toolResult.isError || false,
+                output: toolResult.content,
+                entities: toolResult.entities || [],
                 conversationId: currentConversationId
               });
-              controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+
+              messages.push({
+                role: 'tool',
+                tool_call_id: toolCall.id,
+                content: toolResult.content
+              });
+            }
+
+            await saveNewMessages();
+
+            // Separate the text of consecutive steps in the rendered message
+            if (assistantContent) {
+              send({ type: 'content', content: '\n\n', conversationId: currentConversationId });
             }
           }
+
+          if (citations.size > 0) {
+            send({ type: 'citations', entities: Array.from(citations.values()), conversationId: currentConversationId });
+          }
+          send({ type: 'usage', usage, steps, conversationId: currentConversationId });
+          send({ type: 'done', conversationId: currentConversationId });
         } catch (error) {
           console.error('Stream error:', error);
-          const errorData = JSON.stringify({
-            type: 'error',
-            error: 'Failed to generate response'
-          });
-          controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
+          send({ type: 'error', error: 'Failed to generate response' });
         } finally {
           controller.close();
         }
@@ -162,19 +284,19 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Chat API error:', error);
     
-    // Handle specific Azure OpenAI errors
+    // Handle specific LLM provider errors
     let errorMessage = 'Internal server error';
     let statusCode = 500;
 
     if (error instanceof Error) {
       if (error.message.includes('401')) {
-        errorMessage = 'Invalid Azure OpenAI API key or endpoint';
+        errorMessage = 'Invalid LLM provider API key or endpoint';
         statusCode = 401;
       } else if (error.message.includes('429')) {
         errorMessage = 'Rate limit exceeded. Please try again later.';
         statusCode = 429;
       } else if (error.message.includes('404')) {
-        errorMessage = 'Azure OpenAI deployment not found. Check your deployment name.';
+        errorMessage = 'LLM model or deployment not found. Check your provider configuration.';
         statusCode = 404;
       }
     }
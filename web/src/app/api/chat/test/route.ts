@@ -1,13 +1,27 @@
-import { NextResponse } from 'next/server';
-import { getOpenAIClient, DEPLOYMENT_NAME } from '@/lib/openai';
+import { NextRequest, NextResponse } from 'next/server';
+import { getLLMProvider, getProviderById, isLLMProviderId } from '@/lib/llm';
+
+// Temporary user ID - replace with actual authentication later
+const TEMP_USER_ID = 1;
+
+// Tests the user's selected LLM provider, or the one named by ?provider=
+export async function GET(request: NextRequest) {
+  const requestedProvider = new URL(request.url).searchParams.get('provider');
+  if (requestedProvider && !isLLMProviderId(requestedProvider)) {
+    return NextResponse.json(
+      { success: false, error: `Unknown provider: ${requestedProvider}` },
+      { status: 400 }
+    );
+  }
+
+  const provider = isLLMProviderId(requestedProvider)
+    ? getProviderById(requestedProvider)
+    : await getLLMProvider(TEMP_USER_ID);
 
-export async function GET() {
   try {
     // Test the connection with a simple message
-    const openai = getOpenAIClient();
-    const response = await openai.chat.completions.create({
-      model: DEPLOYMENT_NAME,
-      max_tokens: 100,
+    const response = await provider.completeChat({
+      maxTokens: 100,
       temperature: 0.1,
       messages: [
         {
@@ -21,28 +35,28 @@ export async function GET() {
 
     return NextResponse.json({
       success: true,
-      message: 'Azure OpenAI connection successful',
+      message: `LLM provider "${provider.id}" connection successful`,
       testResponse: responseText,
-      model: DEPLOYMENT_NAME,
-      endpoint: process.env.AZURE_OPENAI_ENDPOINT,
-      deployment: process.env.AZURE_OPENAI_DEPLOYMENT_NAME,
+      provider: provider.id,
+      model: provider.model,
+      ...provider.describe(),
       usage: response.usage
     });
 
   } catch (error: unknown) {
-    console.error('Azure OpenAI test error:', error);
+    console.error('LLM provider test error:', error);
     
     let errorMessage = 'Unknown error occurred';
     let statusCode = 500;
 
-    // Handle Azure OpenAI specific errors
+    // Handle provider HTTP errors
     if (error && typeof error === 'object' && 'status' in error) {
       const status = (error as { status: number }).status;
       if (status === 401) {
-        errorMessage = 'Invalid API key or unauthorized. Please check your AZURE_OPENAI_API_KEY.';
+        errorMessage = 'Invalid API key or unauthorized. Please check the provider API key.';
         statusCode = 401;
       } else if (status === 404) {
-        errorMessage = 'Endpoint or deployment not found. Please check your AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_DEPLOYMENT_NAME.';
+        errorMessage = 'Endpoint, model or deployment not found. Please check the provider configuration.';
         statusCode = 404;
       } else if (status === 429) {
         errorMessage = 'Rate limit exceeded. Please try again later.';
@@ -59,10 +73,10 @@ export async function GET() {
         success: false,
         error: errorMessage,
         details: (error && typeof error === 'object' && 'status' in error) ? `HTTP ${(error as { status: number }).status}` : 'Network error',
-        endpoint: process.env.AZURE_OPENAI_ENDPOINT,
-        deployment: process.env.AZURE_OPENAI_DEPLOYMENT_NAME
+        provider: provider.id,
+        ...provider.describe()
       },
       { status: statusCode }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversation, getConversationMessages } from '@/lib/conversations';
+
+// Temporary user ID - replace with actual authentication later
+const TEMP_USER_ID = 1;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const conversation = await getConversation(TEMP_USER_ID, id);
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const messages = await getConversationMessages(id);
+    return NextResponse.json({ conversation, messages }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureDefaultUser } from '@/lib/mysql';
+import { listConversations, deleteConversation, deleteAllConversations } from '@/lib/conversations';
+
+// Temporary user ID - replace with actual authentication later
+const TEMP_USER_ID = 1;
+
+export async function GET() {
+  try {
+    await ensureDefaultUser();
+
+    const conversations = await listConversations(TEMP_USER_ID);
+    return NextResponse.json({ conversations }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversations' },
+      { status: 500 }
+    );
+  }
+}
+
+// Deletes a single conversation when ?id= is given, otherwise all of the user's conversations
+export async function DELETE(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const conversationId = searchParams.get('id');
+
+  try {
+    if (conversationId) {
+      const deleted = await deleteConversation(TEMP_USER_ID, conversationId);
+      if (!deleted) {
+        return NextResponse.json(
+          { error: 'Conversation not found' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ message: 'Conversation deleted', deleted: 1 }, { status: 200 });
+    }
+
+    const deleted = await deleteAllConversations(TEMP_USER_ID);
+    return NextResponse.json({ message: 'Conversations deleted', deleted }, { status: 200 });
+  } catch (error) {
+    console.error('Error deleting conversations:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete conversations' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEntityDetails } from '@/lib/entities';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const details = await getEntityDetails(id);
+    if (!details) {
+      return NextResponse.json(
+        { error: 'Entity not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(details, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching entity:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch entity',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
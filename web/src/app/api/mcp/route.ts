@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ErrorCode, JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createMCPServer } from '@/mcp/server';
+import { RequestResponseTransport } from '@/mcp/http-transport';
+
+// MCP Streamable HTTP endpoint (stateless, JSON response mode).
+// Every POST gets a fresh server, so no session id is issued.
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonRpcError(ErrorCode.ParseError, 'Parse error: invalid JSON', 400);
+  }
+
+  const isBatch = Array.isArray(body);
+  const parsed = (isBatch ? body as unknown[] : [body]).map(item => JSONRPCMessageSchema.safeParse(item));
+  if (parsed.length === 0 || parsed.some(result => !result.success)) {
+    return jsonRpcError(ErrorCode.InvalidRequest, 'Invalid Request: not a JSON-RPC 2.0 message', 400);
+  }
+  const messages = parsed.map(result => result.data as JSONRPCMessage);
+
+  const server = createMCPServer();
+  const transport = new RequestResponseTransport();
+
+  try {
+    await server.connect(transport);
+    const responses = await transport.handleMessages(messages);
+
+    // Notifications and responses alone are acknowledged without a body
+    if (responses.length === 0) {
+      return new Response(null, { status: 202 });
+    }
+
+    return NextResponse.json(isBatch ? responses : responses[0], { status: 200 });
+  } catch (error) {
+    console.error('MCP request error:', error);
+    return jsonRpcError(ErrorCode.InternalError, 'Internal server error', 500);
+  } finally {
+    await server.close();
+  }
+}
+
+// This server does not offer a standalone SSE stream or sessions
+export async function GET() {
+  return jsonRpcError(ErrorCode.ConnectionClosed, 'Method not allowed', 405);
+}
+
+export async function DELETE() {
+  return jsonRpcError(ErrorCode.ConnectionClosed, 'Method not allowed', 405);
+}
+
+function jsonRpcError(code: number, message: string, status: number) {
+  return NextResponse.json(
+    { jsonrpc: '2.0', error: { code, message }, id: null },
+    { status, headers: status === 405 ? { Allow: 'POST' } : undefined }
+  );
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  listRelevanceProfiles,
+  saveRelevanceProfile,
+  deleteRelevanceProfile,
+  BOOST_KEYS,
+  MAX_BOOST,
+  RelevanceBoosts
+} from '@/lib/relevance';
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9_-]{1,50}$/;
+
+export async function GET() {
+  try {
+    const profiles = await listRelevanceProfiles();
+    return NextResponse.json({ profiles }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching relevance profiles:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch relevance profiles' },
+      { status: 500 }
+    );
+  }
+}
+
+// Creates or replaces a profile: { name, description?, boosts, isDefault? }. Omitted boosts keep their defaults.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { name, description, boosts, isDefault } = body;
+
+    if (typeof name !== 'string' || !PROFILE_NAME_PATTERN.test(name)) {
+      return NextResponse.json(
+        { error: 'name must be 1-50 lowercase letters, digits, dashes or underscores' },
+        { status: 400 }
+      );
+    }
+
+    if (!boosts || typeof boosts !== 'object' || Array.isArray(boosts)) {
+      return NextResponse.json(
+        { error: 'boosts must be an object' },
+        { status: 400 }
+      );
+    }
+
+    const invalid = Object.entries(boosts).filter(([key, value]) =>
+      !BOOST_KEYS.includes(key as keyof RelevanceBoosts) ||
+      typeof value !== 'number' || !isFinite(value) || value < 0 || value > MAX_BOOST
+    );
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Invalid boosts',
+          details: `Boosts must be numbers from 0 to ${MAX_BOOST} for: ${BOOST_KEYS.join(', ')}`,
+          invalid: invalid.map(([key]) => key)
+        },
+        { status: 400 }
+      );
+    }
+
+    await saveRelevanceProfile(name, boosts, {
+      description: typeof description === 'string' ? description : null,
+      isDefault: isDefault === true
+    });
+
+    return NextResponse.json({ message: 'Relevance profile saved', name }, { status: 200 });
+  } catch (error) {
+    console.error('Error saving relevance profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to save relevance profile' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const name = searchParams.get('name');
+
+  if (!name) {
+    return NextResponse.json(
+      { error: 'name is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const deleted = await deleteRelevanceProfile(name);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Relevance profile not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ message: 'Relevance profile deleted' }, { status: 200 });
+  } catch (error) {
+    console.error('Error deleting relevance profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete relevance profile' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureDefaultUser } from '@/lib/mysql';
+import {
+  listSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  normalizeSavedQuery
+} from '@/lib/saved-searches';
+import { parseSearchRequest } from '@/lib/search-request';
+import { parseSearchQuery, QuerySyntaxError } from '@/lib/search-query';
+
+// Temporary user ID - replace with actual authentication later
+const TEMP_USER_ID = 1;
+
+function parseId(request: NextRequest): number | null {
+  const id = Number(new URL(request.url).searchParams.get('id'));
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export async function GET() {
+  try {
+    await ensureDefaultUser();
+
+    const savedSearches = await listSavedSearches(TEMP_USER_ID);
+    return NextResponse.json({ savedSearches }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching saved searches:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved searches' },
+      { status: 500 }
+    );
+  }
+}
+
+// Saves { name, query, isAlert? } where query is an /api/search query string, e.g. "q=-description:*&catalog=breeding"
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { name, query, isAlert } = body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { error: 'name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof query !== 'string') {
+      return NextResponse.json(
+        { error: 'query must be an /api/search query string' },
+        { status: 400 }
+      );
+    }
+
+    const searchParams = new URLSearchParams(query.replace(/^\?/, ''));
+    const { params, error } = parseSearchRequest(searchParams);
+    if (error) {
+      return NextResponse.json(error, { status: 400 });
+    }
+    // Reject queries that would fail on every rerun
+    if (params.q && params.q !== '*') {
+      parseSearchQuery(params.q);
+    }
+
+    await ensureDefaultUser();
+
+    const savedSearch = await createSavedSearch(
+      TEMP_USER_ID,
+      name.trim(),
+      normalizeSavedQuery(searchParams),
+      isAlert === true
+    );
+    return NextResponse.json({ savedSearch }, { status: 201 });
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: error.message, position: error.position },
+        { status: 400 }
+      );
+    }
+    console.error('Error saving search:', error);
+    return NextResponse.json(
+      { error: 'Failed to save search' },
+      { status: 500 }
+    );
+  }
+}
+
+// Renames a saved search or toggles its alert: ?id= with { name?, isAlert? }
+export async function PATCH(request: NextRequest) {
+  const id = parseId(request);
+  if (!id) {
+    return NextResponse.json(
+      { error: 'id is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { name, isAlert } = body;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json(
+        { error: 'name must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+    if (isAlert !== undefined && typeof isAlert !== 'boolean') {
+      return NextResponse.json(
+        { error: 'isAlert must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const savedSearch = await updateSavedSearch(TEMP_USER_ID, id, {
+      name: name?.trim(),
+      isAlert
+    });
+    if (!savedSearch) {
+      return NextResponse.json(
+        { error: 'Saved search not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ savedSearch }, { status: 200 });
+  } catch (error) {
+    console.error('Error updating saved search:', error);
+    return NextResponse.json(
+      { error: 'Failed to update saved search' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const id = parseId(request);
+  if (!id) {
+    return NextResponse.json(
+      { error: 'id is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const deleted = await deleteSavedSearch(TEMP_USER_ID, id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Saved search not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ message: 'Saved search deleted' }, { status: 200 });
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete saved search' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureDefaultUser } from '@/lib/mysql';
+import { listSearchAlerts, countUnreadSearchAlerts, markSearchAlertsRead } from '@/lib/saved-searches';
+
+// Temporary user ID - replace with actual authentication later
+const TEMP_USER_ID = 1;
+
+// New matches recorded by the indexer for alerting saved searches; ?unread=true for unread only
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const unreadOnly = searchParams.get('unread') === 'true';
+
+  try {
+    await ensureDefaultUser();
+
+    const [alerts, unread] = await Promise.all([
+      listSearchAlerts(TEMP_USER_ID, { unreadOnly }),
+      countUnreadSearchAlerts(TEMP_USER_ID)
+    ]);
+    return NextResponse.json({ alerts, unread }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching search alerts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch search alerts' },
+      { status: 500 }
+    );
+  }
+}
+
+// Marks { ids } read, or every unread alert when ids is omitted
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { ids } = body;
+
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id)))) {
+      return NextResponse.json(
+        { error: 'ids must be an array of alert ids' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await markSearchAlertsRead(TEMP_USER_ID, ids);
+    return NextResponse.json({ message: 'Search alerts marked read', updated }, { status: 200 });
+  } catch (error) {
+    console.error('Error updating search alerts:', error);
+    return NextResponse.json(
+      { error: 'Failed to update search alerts' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
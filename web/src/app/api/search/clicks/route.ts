@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logSearchClick } from '@/lib/search-analytics';
+
+// Temporary user ID - replace with actual authentication later
+const TEMP_USER_ID = 1;
+
+// Records that a result of a logged search was opened: { searchId, entityId, position? }.
+// The search page sends this with navigator.sendBeacon, so the response is never read.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { searchId, entityId, position } = body;
+
+    if (!Number.isInteger(searchId) || typeof entityId !== 'string' || !entityId) {
+      return NextResponse.json(
+        { error: 'searchId and entityId are required' },
+        { status: 400 }
+      );
+    }
+
+    await logSearchClick(searchId, TEMP_USER_ID, entityId, Number.isInteger(position) ? position : null);
+    return NextResponse.json({ message: 'Click recorded' }, { status: 201 });
+  } catch (error) {
+    console.error('Error recording search click:', error);
+    return NextResponse.json(
+      { error: 'Failed to record search click' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { solrClient, SolrDocument, RESULT_FIELDS } from '@/lib/solr-client';
+import { parseSearchRequest } from '@/lib/search-request';
+import { QuerySyntaxError } from '@/lib/search-query';
+
+const CONTENT_TYPES: Record<string, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8'
+};
+
+const EXPORTABLE_FIELDS = RESULT_FIELDS.split(',');
+const DEFAULT_FIELDS = [
+  'id', 'name', 'full_name', 'type', 'catalog_name', 'schema_name', 'table_name', 'volume_name',
+  'owner', 'description', 'tags', 'created_at', 'updated_at'
+];
+
+// Multi-valued fields are joined with ';' so each document stays on one row
+function csvValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = Array.isArray(value) ? value.join(';') : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Streams every document matching the /api/search params, e.g.
+// /api/search/export?format=csv&q=-tag:*&type=table&catalog=main&fields=full_name,owner
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get('format') || 'csv';
+
+  if (!CONTENT_TYPES[format]) {
+    return NextResponse.json(
+      { error: 'Invalid format', details: `Expected one of: ${Object.keys(CONTENT_TYPES).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const fields = searchParams.get('fields')
+    ? searchParams.get('fields')!.split(',').map(field => field.trim()).filter(Boolean)
+    : DEFAULT_FIELDS;
+  const unknownFields = fields.filter(field => !EXPORTABLE_FIELDS.includes(field));
+  if (fields.length === 0 || unknownFields.length > 0) {
+    return NextResponse.json(
+      {
+        error: 'Invalid fields',
+        details: `Unknown fields: ${unknownFields.join(', ') || '(none given)'}. Expected any of: ${EXPORTABLE_FIELDS.join(', ')}`
+      },
+      { status: 400 }
+    );
+  }
+
+  const { params, error } = parseSearchRequest(searchParams);
+  if (error) {
+    return NextResponse.json(error, { status: 400 });
+  }
+
+  const pages = solrClient.scan(params, fields);
+  let first: IteratorResult<SolrDocument[]>;
+  try {
+    // Fetch the first page before responding so query and Solr errors still get a status code
+    first = await pages.next();
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: error.message, position: error.position },
+        { status: 400 }
+      );
+    }
+    console.error('Search export error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export search results', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let written = 0;
+
+  const formatPage = (docs: SolrDocument[]): string => {
+    const records = docs.map(doc => {
+      const values = doc as unknown as Record<string, unknown>;
+      if (format === 'csv') {
+        return fields.map(field => csvValue(values[field])).join(',') + '\r\n';
+      }
+      const record = JSON.stringify(Object.fromEntries(fields.map(field => [field, values[field] ?? null])));
+      if (format === 'ndjson') return record + '\n';
+      return (written++ === 0 ? '\n' : ',\n') + record;
+    });
+    return records.join('');
+  };
+
+  let pending: IteratorResult<SolrDocument[]> | null = first;
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === 'csv') controller.enqueue(encoder.encode(fields.join(',') + '\r\n'));
+      if (format === 'json') controller.enqueue(encoder.encode('['));
+    },
+    // One Solr page per pull, so a slow client slows the export down instead of buffering it
+    async pull(controller) {
+      try {
+        const result = pending || await pages.next();
+        pending = null;
+        if (result.done) {
+          if (format === 'json') controller.enqueue(encoder.encode('\n]\n'));
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(formatPage(result.value)));
+      } catch (error) {
+        console.error('Search export stream error:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await pages.return(undefined);
+    }
+  });
+
+  const filename = `catalog-export-${new Date().toISOString().slice(0, 10)}.${format}`;
+  return new Response(stream, {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-cache'
+    }
+  });
+}
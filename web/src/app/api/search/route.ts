@@ -1,24 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { solrClient, SearchParams } from '@/lib/solr-client';
+import { solrClient } from '@/lib/solr-client';
+import { parseSearchRequest } from '@/lib/search-request';
+import { QuerySyntaxError } from '@/lib/search-query';
+import { logSearch, compactFilters } from '@/lib/search-analytics';
+import { ensureDefaultUser } from '@/lib/mysql';
+
+// Temporary user ID - replace with actual authentication later
+const TEMP_USER_ID = 1;
+
+// How long a search waits for its log entry's id before answering without one
+const LOG_WAIT_MS = 250;
+
+// Search log entries reference the user, who doesn't exist yet on a fresh database
+let defaultUserReady: Promise<void> | null = null;
+const ensureLogUser = (): Promise<void> => {
+  defaultUserReady ??= ensureDefaultUser().catch(() => {
+    defaultUserReady = null;
+  });
+  return defaultUserReady;
+};
 
 export async function GET(request: NextRequest) {
   // Extract searchParams outside try block so it's available in catch
   const { searchParams } = new URL(request.url);
-  
-  try {
-    const params: SearchParams = {
-      q: searchParams.get('q') || '*',
-      type: searchParams.get('type') || undefined,
-      catalog: searchParams.get('catalog') || undefined,
-      schema: searchParams.get('schema') || undefined,
-      owner: searchParams.get('owner') || undefined,
-      page: searchParams.get('page') || '0',
-      size: searchParams.get('size') || '20'
-    };
+  const { params, error: requestError } = parseSearchRequest(searchParams);
+  if (requestError) {
+    return NextResponse.json(requestError, { status: 400 });
+  }
 
+  const started = Date.now();
+  // Logging is best effort and never throws; searches don't wait on a slow or unavailable MySQL
+  const log = (hitCount: number | null, error?: string) => {
+    const latencyMs = Date.now() - started;
+    return ensureLogUser().then(() => logSearch({
+      userId: TEMP_USER_ID,
+      source: 'api',
+      query: params.q || '*',
+      filters: compactFilters({ ...params, q: undefined, page: undefined, size: undefined, cursor: undefined }),
+      page: parseInt(params.page || '0') || 0,
+      hitCount,
+      latencyMs,
+      error
+    }));
+  };
+
+  try {
     const result = await solrClient.search(params);
-    return NextResponse.json(result);
+    // The id lets the search page attribute result clicks to this search; without it clicks go unrecorded
+    const searchId = await Promise.race([
+      log(result.total),
+      new Promise<null>(resolve => setTimeout(() => resolve(null), LOG_WAIT_MS))
+    ]);
+    return NextResponse.json({ ...result, searchId });
   } catch (error) {
+    void log(null, error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof QuerySyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: error.message, position: error.position },
+        { status: 400 }
+      );
+    }
+
     console.error('Search API error:', error);
     
     // Provide more detailed error information
@@ -36,10 +79,16 @@ export async function GET(request: NextRequest) {
       stack: errorDetails,
       params: {
         q: searchParams.get('q'),
-        type: searchParams.get('type'),
-        catalog: searchParams.get('catalog'),
-        schema: searchParams.get('schema'),
-        owner: searchParams.get('owner'),
+        type: searchParams.getAll('type'),
+        catalog: searchParams.getAll('catalog'),
+        schema: searchParams.getAll('schema'),
+        table: searchParams.get('table'),
+        volume: searchParams.get('volume'),
+        owner: searchParams.getAll('owner'),
+        sort: searchParams.get('sort'),
+        profile: searchParams.get('profile'),
+        group: searchParams.get('group'),
+        cursor: searchParams.get('cursor'),
         page: searchParams.get('page'),
         size: searchParams.get('size')
       },
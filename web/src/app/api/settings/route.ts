@@ -1,29 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserPreference, setUserPreference, ensureDefaultUser } from '@/lib/mysql';
+import { getUserPreference, setUserPreference, deleteUserPreference, ensureDefaultUser } from '@/lib/mysql';
+import { LLM_PROVIDER_KEY, LLM_PROVIDER_IDS, getDefaultProviderId, isLLMProviderId } from '@/lib/llm';
+import { saveEndpointSecrets, withSecretStatus } from '@/lib/brapi-auth';
+import type { BrAPIEndpoint } from '@/lib/brapi-client';
 
 // Temporary user ID - replace with actual authentication later
 const TEMP_USER_ID = 1;
 const BRAPI_ENDPOINTS_KEY = 'brapi_endpoints';
 
+async function loadEndpoints(): Promise<BrAPIEndpoint[]> {
+  const endpointsData = await getUserPreference(TEMP_USER_ID, BRAPI_ENDPOINTS_KEY);
+  if (!endpointsData) {
+    return [];
+  }
+  try {
+    return JSON.parse(endpointsData);
+  } catch (parseError) {
+    console.error('Error parsing endpoints data:', parseError);
+    return [];
+  }
+}
+
 export async function GET() {
   try {
     // Ensure default user exists
     await ensureDefaultUser();
     
     // Get BrAPI endpoints from database
-    const endpointsData = await getUserPreference(TEMP_USER_ID, BRAPI_ENDPOINTS_KEY);
-    
-    let endpoints = [];
-    if (endpointsData) {
-      try {
-        endpoints = JSON.parse(endpointsData);
-      } catch (parseError) {
-        console.error('Error parsing endpoints data:', parseError);
-        endpoints = [];
-      }
-    }
+    const endpoints = await loadEndpoints();
+
+    const llmProviderPreference = await getUserPreference(TEMP_USER_ID, LLM_PROVIDER_KEY);
+    const llmProvider = isLLMProviderId(llmProviderPreference) ? llmProviderPreference : null;
 
-    return NextResponse.json({ endpoints }, { status: 200 });
+    return NextResponse.json({
+      endpoints: await withSecretStatus(TEMP_USER_ID, endpoints),
+      llmProvider,
+      llmProviders: LLM_PROVIDER_IDS,
+      defaultLlmProvider: getDefaultProviderId()
+    }, { status: 200 });
   } catch (error) {
     console.error('Error fetching settings:', error);
     return NextResponse.json(
@@ -39,7 +53,30 @@ export async function POST(request: NextRequest) {
     await ensureDefaultUser();
     
     const body = await request.json();
-    const { endpoints } = body;
+    const { endpoints, llmProvider } = body;
+
+    // LLM provider preference can be saved on its own; null resets to the environment default
+    if (llmProvider !== undefined) {
+      if (llmProvider !== null && !isLLMProviderId(llmProvider)) {
+        return NextResponse.json(
+          { error: `llmProvider must be one of: ${LLM_PROVIDER_IDS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      if (llmProvider === null) {
+        await deleteUserPreference(TEMP_USER_ID, LLM_PROVIDER_KEY);
+      } else {
+        await setUserPreference(TEMP_USER_ID, LLM_PROVIDER_KEY, llmProvider);
+      }
+
+      if (endpoints === undefined) {
+        return NextResponse.json(
+          { message: 'Settings saved successfully', llmProvider },
+          { status: 200 }
+        );
+      }
+    }
 
     // Validate the endpoints data
     if (!Array.isArray(endpoints)) {
@@ -75,6 +112,13 @@ export async function POST(request: NextRequest) {
           { status: 400 }
         );
       }
+
+      if (endpoint.federated !== undefined && typeof endpoint.federated !== 'boolean') {
+        return NextResponse.json(
+          { error: 'federated must be a boolean value' },
+          { status: 400 }
+        );
+      }
     }
 
     // Ensure only one endpoint is active
@@ -101,21 +145,30 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Credentials are stored encrypted on their own; the preference only keeps the non-secret auth settings
+    const saved = await saveEndpointSecrets(TEMP_USER_ID, endpoints, await loadEndpoints());
+    if (saved.error !== undefined) {
+      return NextResponse.json(
+        { error: saved.error },
+        { status: 400 }
+      );
+    }
+
     // Save to database
     await setUserPreference(
       TEMP_USER_ID,
       BRAPI_ENDPOINTS_KEY,
-      JSON.stringify(endpoints)
+      JSON.stringify(saved.endpoints)
     );
 
     return NextResponse.json(
-      { message: 'Settings saved successfully', endpoints },
+      { message: 'Settings saved successfully', endpoints: await withSecretStatus(TEMP_USER_ID, saved.endpoints) },
       { status: 200 }
     );
   } catch (error) {
     console.error('Error saving settings:', error);
     return NextResponse.json(
-      { error: 'Failed to save settings' },
+      { error: 'Failed to save settings', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
     );
   }
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { solrClient } from '@/lib/solr-client';
+
+const MAX_LIMIT = 20;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get('q') || '';
+  const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '8') || 8, 1), MAX_LIMIT);
+  const types = searchParams.getAll('type').filter(Boolean);
+
+  try {
+    const suggestions = await solrClient.suggest(query, {
+      limit,
+      types: types.length > 0 ? types : undefined
+    });
+    return NextResponse.json({ query, suggestions });
+  } catch (error) {
+    console.error('Suggest API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load suggestions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
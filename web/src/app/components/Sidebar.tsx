@@ -1,16 +1,62 @@
 'use client';
 
+import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { SearchIcon, MessageCircleIcon, SettingsIcon } from 'lucide-react';
+import { SearchIcon, MessageCircleIcon, SettingsIcon, InboxIcon, BarChart3Icon, BellIcon, BellOffIcon, TrashIcon } from 'lucide-react';
 import Image from 'next/image';
+import type { SavedSearch } from '@/lib/saved-searches';
+
+// Dispatched on window by the search page after it saves a search
+export const SAVED_SEARCHES_CHANGED_EVENT = 'saved-searches-changed';
 
 export default function Sidebar() {
   const pathname = usePathname();
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+
+  const loadSavedSearches = useCallback(async () => {
+    try {
+      const response = await fetch('/api/saved-searches');
+      if (response.ok) {
+        const data = await response.json();
+        setSavedSearches(data.savedSearches);
+      }
+    } catch (error) {
+      console.error('Failed to load saved searches:', error);
+    }
+  }, []);
+
+  // Reload on navigation too, so unread counts drop after visiting the inbox
+  useEffect(() => {
+    loadSavedSearches();
+  }, [loadSavedSearches, pathname]);
+
+  useEffect(() => {
+    window.addEventListener(SAVED_SEARCHES_CHANGED_EVENT, loadSavedSearches);
+    return () => window.removeEventListener(SAVED_SEARCHES_CHANGED_EVENT, loadSavedSearches);
+  }, [loadSavedSearches]);
+
+  const toggleAlert = async (savedSearch: SavedSearch) => {
+    await fetch(`/api/saved-searches?id=${savedSearch.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isAlert: !savedSearch.isAlert })
+    });
+    loadSavedSearches();
+  };
+
+  const deleteSavedSearch = async (savedSearch: SavedSearch) => {
+    await fetch(`/api/saved-searches?id=${savedSearch.id}`, { method: 'DELETE' });
+    loadSavedSearches();
+  };
+
+  const unreadAlerts = savedSearches.reduce((total, savedSearch) => total + savedSearch.unreadAlerts, 0);
 
   const navigation = [
     { name: 'Information Booth', href: '/', icon: MessageCircleIcon },
     { name: 'Search', href: '/search', icon: SearchIcon },
+    { name: 'Inbox', href: '/inbox', icon: InboxIcon, badge: unreadAlerts },
+    { name: 'Analytics', href: '/admin/analytics', icon: BarChart3Icon },
     { name: 'Settings', href: '/settings', icon: SettingsIcon },
   ];
 
@@ -18,17 +64,17 @@ export default function Sidebar() {
     <div className="w-64 bg-dark-950 text-white flex flex-col">
       <div className="p-6 border-b bg-white border-dark-800">
         <div className="flex items-center">
-          <Image 
-            src="/fairgrounds_banner.jpg" 
-            alt="Fairgrounds Logo" 
-            width={180} 
+          <Image
+            src="/fairgrounds_banner.jpg"
+            alt="Fairgrounds Logo"
+            width={180}
             height={37}
             className="rounded object-contain"
           />
         </div>
       </div>
-      
-      <nav className="flex-1 px-4 py-6">
+
+      <nav className="flex-1 px-4 py-6 overflow-y-auto">
         <ul className="space-y-2">
           {navigation.map((item) => {
             const isActive = pathname === item.href;
@@ -43,13 +89,51 @@ export default function Sidebar() {
                   }`}
                 >
                   <item.icon className="w-5 h-5" />
-                  {item.name}
+                  <span className="flex-1">{item.name}</span>
+                  {item.badge ? (
+                    <span className="px-2 text-xs rounded-full bg-primary-100 text-primary-800">{item.badge}</span>
+                  ) : null}
                 </Link>
               </li>
             );
           })}
         </ul>
+
+        {savedSearches.length > 0 && (
+          <div className="mt-8">
+            <h2 className="px-3 mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">Saved searches</h2>
+            <ul className="space-y-1">
+              {savedSearches.map((savedSearch) => (
+                <li key={savedSearch.id} className="group flex items-center gap-1 rounded-lg hover:bg-dark-800">
+                  <Link
+                    href={`/search?${savedSearch.queryString}`}
+                    className="flex-1 min-w-0 px-3 py-1.5 text-sm text-gray-300 group-hover:text-white truncate"
+                    title={decodeURIComponent(savedSearch.queryString.replace(/\+/g, ' '))}
+                  >
+                    {savedSearch.name}
+                  </Link>
+                  <button
+                    type="button"
+                    onClick={() => toggleAlert(savedSearch)}
+                    className={`p-1 ${savedSearch.isAlert ? 'text-primary-400' : 'text-gray-500 opacity-0 group-hover:opacity-100'} hover:text-white`}
+                    title={savedSearch.isAlert ? 'Stop alerting on new matches' : 'Alert me to new matches after each indexer run'}
+                  >
+                    {savedSearch.isAlert ? <BellIcon className="w-4 h-4" /> : <BellOffIcon className="w-4 h-4" />}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteSavedSearch(savedSearch)}
+                    className="p-1 mr-1 text-gray-500 opacity-0 group-hover:opacity-100 hover:text-white"
+                    title="Delete saved search"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </nav>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,328 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ChevronRightIcon, ChevronDownIcon, Loader2Icon } from 'lucide-react';
+import type { EntityDetails, FileTreeNode } from '@/lib/entities';
+import type { SolrDocument } from '@/lib/solr-client';
+
+const getTypeIcon = (type: string) => {
+  switch (type) {
+    case 'catalog': return '📂';
+    case 'schema': return '📋';
+    case 'table': return '🗂️';
+    case 'column': return '📊';
+    case 'volume': return '💾';
+    case 'file': return '📄';
+    case 'directory': return '📁';
+    default: return '📄';
+  }
+};
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString();
+};
+
+const entityHref = (id: string) => `/entity/${encodeURIComponent(id)}`;
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+      </div>
+      <div className="px-6 py-4">{children}</div>
+    </div>
+  );
+}
+
+function FileTree({ nodes, depth = 0 }: { nodes: FileTreeNode[]; depth?: number }) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (path: string) => {
+    const next = new Set(expanded);
+    if (next.has(path)) next.delete(path); else next.add(path);
+    setExpanded(next);
+  };
+
+  return (
+    <ul>
+      {nodes.map(node => {
+        const isExpanded = expanded.has(node.path);
+        return (
+          <li key={node.path}>
+            <div className="flex items-center gap-1 py-1 text-sm" style={{ paddingLeft: `${depth * 16}px` }}>
+              {node.isDirectory && node.children.length > 0 ? (
+                <button
+                  type="button"
+                  onClick={() => toggle(node.path)}
+                  className="w-4 h-4 text-gray-500 hover:text-gray-800"
+                  aria-label={isExpanded ? `Collapse ${node.name}` : `Expand ${node.name}`}
+                >
+                  {isExpanded ? <ChevronDownIcon className="w-4 h-4" /> : <ChevronRightIcon className="w-4 h-4" />}
+                </button>
+              ) : (
+                <span className="w-4 h-4" />
+              )}
+              <span>{getTypeIcon(node.isDirectory ? 'directory' : 'file')}</span>
+              {node.id ? (
+                <Link href={entityHref(node.id)} className="text-primary-700 hover:underline">{node.name}</Link>
+              ) : (
+                <span className="text-gray-700">{node.name}</span>
+              )}
+              {!node.isDirectory && node.size !== undefined && (
+                <span className="ml-auto text-xs text-gray-500">{formatFileSize(node.size)}</span>
+              )}
+            </div>
+            {isExpanded && <FileTree nodes={node.children} depth={depth + 1} />}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function EntityList({ entities }: { entities: SolrDocument[] }) {
+  return (
+    <ul className="divide-y divide-gray-100">
+      {entities.map(entity => (
+        <li key={entity.id} className="py-2">
+          <Link href={entityHref(entity.id)} className="flex items-center gap-2 text-sm text-primary-700 hover:underline">
+            <span>{getTypeIcon(entity.type)}</span>
+            {entity.full_name}
+          </Link>
+          {entity.description && (
+            <p className="ml-6 text-xs text-gray-600 line-clamp-1">{entity.description}</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function EntityPage() {
+  const { id } = useParams<{ id: string }>();
+  const [details, setDetails] = useState<EntityDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadEntity = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/entities/${encodeURIComponent(decodeURIComponent(id))}`);
+        const data = await response.json();
+        if (response.ok) {
+          setDetails(data);
+        } else {
+          setError(data.error || 'Failed to load entity');
+        }
+      } catch (err) {
+        console.error('Entity load error:', err);
+        setError('Failed to load entity');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadEntity();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <div className="h-full flex items-center justify-center bg-gray-50 text-gray-500 gap-2">
+        <Loader2Icon className="w-5 h-5 animate-spin" /> Loading...
+      </div>
+    );
+  }
+
+  if (error || !details) {
+    return (
+      <div className="h-full overflow-y-auto bg-gray-50">
+        <div className="max-w-7xl mx-auto px-6 py-8">
+          <div className="bg-white rounded-lg shadow-sm border p-8 text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">{error || 'Entity not found'}</h3>
+            <Link href="/search" className="text-primary-700 hover:underline">Back to search</Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { entity, properties, breadcrumbs, children, columns, files, fileCount, related } = details;
+  const location = entity.location || entity.storage_location;
+  const parentName = breadcrumbs.length > 0 ? breadcrumbs[breadcrumbs.length - 1].name : undefined;
+
+  const metadata: [string, string | undefined][] = [
+    ['Owner', entity.owner],
+    ['Created', entity.created_at && formatDate(entity.created_at)],
+    ['Updated', entity.updated_at && formatDate(entity.updated_at)],
+    ['Storage format', entity.storage_format],
+    ['Volume type', entity.volume_type],
+    ['Location', location],
+    ['Data type', entity.data_type],
+    ['Nullable', entity.type === 'column' && entity.is_nullable !== undefined ? (entity.is_nullable ? 'Yes' : 'No') : undefined],
+    ['Path', entity.file_path],
+    ['Size', entity.type === 'file' && entity.file_size !== undefined ? formatFileSize(entity.file_size) : undefined]
+  ];
+
+  return (
+    <div className="h-full overflow-y-auto bg-gray-50">
+      <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        {/* Breadcrumbs */}
+        <nav className="flex items-center flex-wrap gap-1 text-sm text-gray-600">
+          <Link href="/search" className="hover:underline">Search</Link>
+          {breadcrumbs.map(crumb => (
+            <span key={crumb.id} className="flex items-center gap-1">
+              <ChevronRightIcon className="w-4 h-4 text-gray-400" />
+              <Link href={entityHref(crumb.id)} className="hover:underline">
+                {getTypeIcon(crumb.type)} {crumb.name}
+              </Link>
+            </span>
+          ))}
+          <span className="flex items-center gap-1 text-gray-900">
+            <ChevronRightIcon className="w-4 h-4 text-gray-400" />
+            {entity.name}
+          </span>
+        </nav>
+
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <div className="flex items-start gap-3">
+            <span className="text-3xl">{getTypeIcon(entity.type)}</span>
+            <div className="flex-1">
+              <div className="flex items-center gap-2 mb-1">
+                <h1 className="text-2xl font-bold text-gray-900">{entity.name}</h1>
+                <span className="px-2 py-1 text-xs bg-primary-100 text-primary-800 rounded-full">{entity.type}</span>
+              </div>
+              <p className="text-sm text-gray-600 mb-2 font-mono">{entity.full_name}</p>
+              {entity.description && <p className="text-gray-700">{entity.description}</p>}
+              {entity.tags && entity.tags.length > 0 && (
+                <div className="flex gap-1 mt-3">
+                  {entity.tags.map((tag, index) => (
+                    <span key={index} className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded">{tag}</span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Metadata */}
+        <Section title="Details">
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3 text-sm">
+            {metadata.filter(([, value]) => value).map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="text-gray-900 break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </Section>
+
+        {properties && Object.keys(properties).length > 0 && (
+          <Section title="Properties">
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-gray-100">
+                {Object.entries(properties).map(([key, value]) => (
+                  <tr key={key}>
+                    <td className="py-2 pr-4 font-mono text-gray-600 align-top">{key}</td>
+                    <td className="py-2 text-gray-900 break-all">{value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Section>
+        )}
+
+        {columns && (
+          <Section title={`Columns (${columns.length})`}>
+            {columns.length === 0 ? (
+              <p className="text-sm text-gray-500">No column information available</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">Name</th>
+                    <th className="py-2 pr-4 font-medium">Type</th>
+                    <th className="py-2 pr-4 font-medium">Nullable</th>
+                    <th className="py-2 font-medium">Description</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {columns.map(column => (
+                    <tr key={column.id}>
+                      <td className="py-2 pr-4">
+                        <Link href={entityHref(column.id)} className="font-mono text-primary-700 hover:underline">{column.name}</Link>
+                      </td>
+                      <td className="py-2 pr-4 font-mono text-gray-700">{column.data_type}</td>
+                      <td className="py-2 pr-4 text-gray-700">
+                        {column.is_nullable === undefined ? '' : column.is_nullable ? 'Yes' : 'No'}
+                      </td>
+                      <td className="py-2 text-gray-700">{column.description}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Section>
+        )}
+
+        {files && (
+          <Section title={`Files${fileCount !== undefined ? ` (${fileCount})` : ''}`}>
+            {files.length === 0 ? (
+              <p className="text-sm text-gray-500">No files indexed</p>
+            ) : (
+              <FileTree nodes={files} />
+            )}
+          </Section>
+        )}
+
+        {children && (
+          <Section title={`Contents (${children.length})`}>
+            {children.length === 0 ? (
+              <p className="text-sm text-gray-500">Empty</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {children.map(child => (
+                  <li key={child.id} className="py-2 flex items-center gap-2 text-sm">
+                    <span>{getTypeIcon(child.type)}</span>
+                    <Link href={entityHref(child.id)} className="text-primary-700 hover:underline">{child.name}</Link>
+                    <span className="text-xs text-gray-500">{child.type}</span>
+                    {child.childCount > 0 && (
+                      <span className="ml-auto text-xs text-gray-500">{child.childCount}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Section>
+        )}
+
+        {(related.sameParent.length > 0 || related.sameOwner.length > 0) && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {related.sameParent.length > 0 && (
+              <Section title={parentName ? `Other ${entity.type}s in ${parentName}` : `Other ${entity.type}s`}>
+                <EntityList entities={related.sameParent} />
+              </Section>
+            )}
+            {related.sameOwner.length > 0 && (
+              <Section title={`Other ${entity.type}s owned by ${entity.owner}`}>
+                <EntityList entities={related.sameOwner} />
+              </Section>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { InboxIcon } from 'lucide-react';
+import type { SavedSearch, SearchAlert } from '@/lib/saved-searches';
+
+const getTypeIcon = (type: string | null) => {
+  switch (type) {
+    case 'catalog': return '📂';
+    case 'schema': return '📋';
+    case 'table': return '🗂️';
+    case 'column': return '📊';
+    case 'volume': return '💾';
+    case 'file': return '📄';
+    case 'directory': return '📁';
+    default: return '📄';
+  }
+};
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString();
+};
+
+export default function InboxPage() {
+  const [alerts, setAlerts] = useState<SearchAlert[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const loadAlerts = async () => {
+    try {
+      const [alertsResponse, savedSearchesResponse] = await Promise.all([
+        fetch('/api/search-alerts'),
+        fetch('/api/saved-searches')
+      ]);
+      if (alertsResponse.ok) {
+        const data = await alertsResponse.json();
+        setAlerts(data.alerts);
+        setUnread(data.unread);
+      }
+      if (savedSearchesResponse.ok) {
+        const data = await savedSearchesResponse.json();
+        setSavedSearches(data.savedSearches);
+      }
+    } catch (error) {
+      console.error('Failed to load search alerts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAlerts();
+  }, []);
+
+  const markRead = async (ids?: number[]) => {
+    await fetch('/api/search-alerts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(ids ? { ids } : {})
+    });
+    loadAlerts();
+  };
+
+  // Alerts arrive newest first; group them under their saved search in that order
+  const groups = alerts.reduce<{ savedSearchId: number; name: string; alerts: SearchAlert[] }[]>((acc, alert) => {
+    const group = acc.find(g => g.savedSearchId === alert.savedSearchId);
+    if (group) {
+      group.alerts.push(alert);
+    } else {
+      acc.push({ savedSearchId: alert.savedSearchId, name: alert.savedSearchName, alerts: [alert] });
+    }
+    return acc;
+  }, []);
+
+  const alertingSearches = savedSearches.filter(savedSearch => savedSearch.isAlert);
+
+  if (loading) {
+    return (
+      <div className="h-full overflow-y-auto bg-gray-50">
+        <div className="max-w-4xl mx-auto px-6 py-8">
+          <div className="flex items-center justify-center h-64">
+            <div className="text-gray-500">Loading inbox...</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto bg-gray-50">
+      <div className="max-w-4xl mx-auto px-6 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <InboxIcon className="w-8 h-8 text-gray-700" />
+            <h1 className="text-3xl font-bold text-gray-900">Inbox</h1>
+          </div>
+          <p className="text-gray-600">New matches for your alerting saved searches since the previous indexer run</p>
+        </div>
+
+        {groups.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border p-8 text-center">
+            <InboxIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No new matches</h3>
+            <p className="text-gray-600">
+              {alertingSearches.length > 0
+                ? `Watching ${alertingSearches.length} saved search${alertingSearches.length === 1 ? '' : 'es'}. New matches appear here after the next indexer run.`
+                : 'Save a search and turn on its bell in the sidebar to be told about new matches.'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">{unread} unread</p>
+              <button
+                type="button"
+                onClick={() => markRead()}
+                disabled={unread === 0}
+                className="px-4 py-2 text-sm bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50"
+              >
+                Mark all read
+              </button>
+            </div>
+
+            {groups.map(group => {
+              const savedSearch = savedSearches.find(s => s.id === group.savedSearchId);
+              const unreadIds = group.alerts.filter(alert => !alert.readAt).map(alert => alert.id);
+              return (
+                <div key={group.savedSearchId} className="bg-white rounded-lg shadow-sm border">
+                  <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                    <div>
+                      <h2 className="text-lg font-semibold text-gray-900">{group.name}</h2>
+                      {savedSearch?.lastCheckedAt && (
+                        <p className="text-xs text-gray-500">
+                          Last checked {formatDateTime(savedSearch.lastCheckedAt)}
+                          {savedSearch.lastMatchCount !== null && ` · ${savedSearch.lastMatchCount} matches`}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-4 text-sm">
+                      {savedSearch && (
+                        <Link href={`/search?${savedSearch.queryString}`} className="text-primary-700 hover:underline">
+                          Run search
+                        </Link>
+                      )}
+                      {unreadIds.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => markRead(unreadIds)}
+                          className="text-gray-600 hover:text-gray-800"
+                        >
+                          Mark read
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <ul className="divide-y divide-gray-200">
+                    {group.alerts.map(alert => (
+                      <li
+                        key={alert.id}
+                        className={`px-6 py-3 flex items-start gap-3 ${alert.readAt ? '' : 'bg-primary-50'}`}
+                      >
+                        <span className="text-xl">{getTypeIcon(alert.entityType)}</span>
+                        <div className="flex-1 min-w-0">
+                          <Link
+                            href={`/entity/${encodeURIComponent(alert.entityId)}`}
+                            className={`text-gray-900 hover:text-primary-700 hover:underline ${alert.readAt ? '' : 'font-medium'}`}
+                          >
+                            {alert.entityName || alert.entityId}
+                          </Link>
+                          {alert.entityFullName && (
+                            <p className="text-sm text-gray-600 truncate">{alert.entityFullName}</p>
+                          )}
+                        </div>
+                        <span className="text-xs text-gray-500 whitespace-nowrap">{formatDateTime(alert.detectedAt)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { SendIcon, MessageCircleIcon, TrashIcon } from 'lucide-react';
 import Image from 'next/image';
 import { useChatContext } from '@/contexts/ChatContext';
 import { MarkdownRenderer } from '@/components/MarkdownRenderer';
+import { ToolCallPanel } from '@/components/ToolCallPanel';
+import { EntityChips } from '@/components/EntityChips';
 
 export default function ChatPage() {
   const [input, setInput] = useState('');
@@ -100,7 +102,21 @@ export default function ChatPage() {
                     }`}
                   >
                     {message.type === 'assistant' ? (
-                      <MarkdownRenderer content={message.content} />
+                      <>
+                        {message.toolCalls && message.toolCalls.length > 0 && (
+                          <div className="space-y-2 my-2">
+                            {message.toolCalls.map(toolCall => (
+                              <ToolCallPanel key={toolCall.id} toolCall={toolCall} />
+                            ))}
+                          </div>
+                        )}
+                        <MarkdownRenderer content={message.content} />
+                        {message.citations && message.citations.length > 0 && (
+                          <div className="mt-2 pt-2 border-t border-gray-100">
+                            <EntityChips entities={message.citations} />
+                          </div>
+                        )}
+                      </>
                     ) : (
                       <p className="text-sm">{message.content}</p>
                     )}
@@ -1,8 +1,16 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { SearchIcon, FilterIcon, XIcon } from 'lucide-react';
+import { useState, useEffect, useCallback, useRef, Suspense } from 'react';
+import { SearchIcon, FilterIcon, DownloadIcon, BookmarkIcon } from 'lucide-react';
 import Image from 'next/image';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { SAVED_SEARCHES_CHANGED_EVENT } from '@/app/components/Sidebar';
+import { CatalogTree } from '@/components/CatalogTree';
+import { SearchAutocomplete } from '@/components/SearchAutocomplete';
+import { HighlightedText } from '@/components/HighlightedText';
+import { bestSnippet, HighlightFragments } from '@/lib/highlight';
+import type { BrowseNode } from '@/lib/catalog-browse';
 
 interface SearchResult {
   id: string;
@@ -32,45 +40,152 @@ interface SearchResponse {
   page: number;
   size: number;
   totalPages: number;
+  nextCursor?: string;
   facets?: {
     types: Record<string, number>;
     catalogs: Record<string, number>;
     schemas: Record<string, number>;
     owners: Record<string, number>;
+    tags: Record<string, number>;
+    dataTypes: Record<string, number>;
+    storageFormats: Record<string, number>;
+    volumeTypes: Record<string, number>;
+    updated: Record<string, number>;
+    fileSizes: Record<string, number>;
   };
+  highlights?: Record<string, HighlightFragments>;
+  suggestions?: { query: string; hits: number }[];
+  groups?: { parent: SearchResult | null; matches: SearchResult[]; matchCount: number }[];
+  searchId?: number | null;
 }
 
-export default function SearchPage() {
+// Multi-select facets, named after their /api/search params
+type FacetKey = 'type' | 'catalog' | 'schema' | 'owner' | 'tag' | 'data_type' | 'format' | 'volume_type' | 'file_size';
+
+// Facets allow several values each; table and volume come from the tree and updated is a single range
+const EMPTY_FILTERS: Record<FacetKey, string[]> & { table: string; volume: string; updated: string } = {
+  type: [],
+  catalog: [],
+  schema: [],
+  owner: [],
+  tag: [],
+  data_type: [],
+  format: [],
+  volume_type: [],
+  file_size: [],
+  table: '',
+  volume: '',
+  updated: ''
+};
+
+const FACET_SECTIONS: { key: FacetKey; label: string; facet: keyof NonNullable<SearchResponse['facets']> }[] = [
+  { key: 'type', label: 'Type', facet: 'types' },
+  { key: 'catalog', label: 'Catalog', facet: 'catalogs' },
+  { key: 'schema', label: 'Schema', facet: 'schemas' },
+  { key: 'owner', label: 'Owner', facet: 'owners' },
+  { key: 'tag', label: 'Tags', facet: 'tags' },
+  { key: 'data_type', label: 'Data Type', facet: 'dataTypes' },
+  { key: 'format', label: 'Storage Format', facet: 'storageFormats' },
+  { key: 'volume_type', label: 'Volume Type', facet: 'volumeTypes' },
+  { key: 'file_size', label: 'File Size', facet: 'fileSizes' }
+];
+
+const EXPORT_FORMATS = ['csv', 'json', 'ndjson'];
+
+// Query, filters and sort shared by searches and exports
+const buildSearchParams = (searchQuery: string, currentFilters: typeof EMPTY_FILTERS, currentSort: string) => {
+  const params = new URLSearchParams({ q: searchQuery || '*', sort: currentSort });
+  FACET_SECTIONS.forEach(({ key }) => currentFilters[key].forEach(value => params.append(key, value)));
+  if (currentFilters.table) params.append('table', currentFilters.table);
+  if (currentFilters.volume) params.append('volume', currentFilters.volume);
+  if (currentFilters.updated) params.append('updated', currentFilters.updated);
+  return params;
+};
+
+// The inverse of buildSearchParams, for searches opened from a link such as a saved search
+const readSearchParams = (params: URLSearchParams) => {
+  const filters = { ...EMPTY_FILTERS };
+  FACET_SECTIONS.forEach(({ key }) => { filters[key] = params.getAll(key).filter(Boolean); });
+  filters.table = params.get('table') || '';
+  filters.volume = params.get('volume') || '';
+  filters.updated = params.get('updated') || '';
+  const q = params.get('q') || '*';
+  return { query: q === '*' ? '' : q, filters, sort: params.get('sort') || 'relevance' };
+};
+
+const SORT_LABELS: Record<string, string> = {
+  relevance: 'Relevance',
+  name: 'Name',
+  updated: 'Recently updated',
+  created: 'Recently created',
+  size: 'Largest file'
+};
+
+const UPDATED_LABELS: Record<string, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days'
+};
+
+const FILE_SIZE_LABELS: Record<string, string> = {
+  'under-1mb': 'Under 1 MB',
+  '1mb-100mb': '1 MB - 100 MB',
+  '100mb-1gb': '100 MB - 1 GB',
+  'over-1gb': 'Over 1 GB'
+};
+
+function SearchPageContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<SearchResponse | null>(null);
   const [loading, setLoading] = useState(false);
-  const [filters, setFilters] = useState({
-    type: '',
-    catalog: '',
-    schema: '',
-    owner: ''
-  });
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
   const [showFilters, setShowFilters] = useState(false);
+  const [sort, setSort] = useState('relevance');
+  const [grouped, setGrouped] = useState(false);
+  // Cursor that starts each page visited so far; grouped results page by offset instead
+  const [pageCursors, setPageCursors] = useState<string[]>(['*']);
+  const [queryError, setQueryError] = useState<{ query: string; message: string; position: number } | null>(null);
+  const [saveName, setSaveName] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // The URL query last written by a search, so syncing it doesn't trigger the same search again
+  const syncedUrl = useRef<string | null>(null);
 
-  const searchCatalog = useCallback(async (searchQuery: string = query, currentFilters = filters, page = 0) => {
+  const searchCatalog = useCallback(async (
+    searchQuery: string = query,
+    currentFilters = filters,
+    page = 0,
+    currentSort = sort,
+    currentGrouped = grouped,
+    cursor = '*'
+  ) => {
     setLoading(true);
+    if (page === 0) setPageCursors(['*']);
     try {
-      const params = new URLSearchParams({
-        q: searchQuery || '*',
-        page: page.toString(),
-        size: '20'
-      });
-      
-      if (currentFilters.type) params.append('type', currentFilters.type);
-      if (currentFilters.catalog) params.append('catalog', currentFilters.catalog);
-      if (currentFilters.schema) params.append('schema', currentFilters.schema);
-      if (currentFilters.owner) params.append('owner', currentFilters.owner);
+      const params = buildSearchParams(searchQuery, currentFilters, currentSort);
+      params.append('page', page.toString());
+      params.append('size', '20');
+      if (currentGrouped) {
+        params.append('group', 'parent');
+      } else {
+        params.append('cursor', cursor);
+      }
 
       const response = await fetch(`/api/search?${params}`);
       const data = await response.json();
       
       if (response.ok) {
         setResults(data);
+        setQueryError(null);
+        // Keep the URL shareable and in step with the results
+        const url = buildSearchParams(searchQuery, currentFilters, currentSort).toString();
+        if (url !== searchParams.toString()) {
+          syncedUrl.current = url;
+          router.replace(`/search?${url}`, { scroll: false });
+        }
+      } else if (response.status === 400 && typeof data.position === 'number') {
+        setQueryError({ query: searchQuery, message: data.details, position: data.position });
       } else {
         console.error('Search failed:', data.error);
       }
@@ -79,32 +194,123 @@ export default function SearchPage() {
     } finally {
       setLoading(false);
     }
-  }, [query, filters]);
+  }, [query, filters, sort, grouped, router, searchParams]);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     searchCatalog();
   };
 
-  const handleFilterChange = (filterType: string, value: string) => {
-    const newFilters = { ...filters, [filterType]: value };
+  const handleFilterChange = (filterType: FacetKey, value: string) => {
+    const selected = filters[filterType];
+    const newFilters = {
+      ...filters,
+      [filterType]: selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]
+    };
+    // A table or volume picked in the tree only applies within its catalog and schema
+    if (filterType === 'catalog' || filterType === 'schema') {
+      newFilters.table = '';
+      newFilters.volume = '';
+    }
     setFilters(newFilters);
     searchCatalog(query, newFilters);
   };
 
-  const clearFilters = () => {
-    const newFilters = { type: '', catalog: '', schema: '', owner: '' };
+  const handleSortChange = (value: string) => {
+    setSort(value);
+    searchCatalog(query, filters, 0, value);
+  };
+
+  const goToPage = (page: number) => {
+    if (!results) return;
+    const cursors = page > results.page && results.nextCursor
+      ? [...pageCursors.slice(0, page), results.nextCursor]
+      : pageCursors;
+    setPageCursors(cursors);
+    searchCatalog(query, filters, page, sort, grouped, cursors[page]);
+  };
+
+  const handleGroupedChange = (value: boolean) => {
+    setGrouped(value);
+    searchCatalog(query, filters, 0, sort, value);
+  };
+
+  const handleUpdatedChange = (value: string) => {
+    const newFilters = { ...filters, updated: value };
     setFilters(newFilters);
     searchCatalog(query, newFilters);
   };
 
+  const handleTreeSelect = (node: BrowseNode | null) => {
+    const [catalog = '', schema = '', name = ''] = node?.path || [];
+    const newFilters = {
+      ...filters,
+      catalog: catalog ? [catalog] : [],
+      schema: schema ? [schema] : [],
+      table: node?.type === 'table' ? name : '',
+      volume: node?.type === 'volume' ? name : ''
+    };
+    setFilters(newFilters);
+    searchCatalog(query, newFilters);
+  };
+
+  const runSuggestion = (suggestion: string) => {
+    setQuery(suggestion);
+    searchCatalog(suggestion);
+  };
+
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    searchCatalog(query, EMPTY_FILTERS);
+  };
+
+  const saveSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!saveName?.trim()) return;
+    try {
+      const response = await fetch('/api/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: saveName, query: buildSearchParams(query, filters, sort).toString() })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setSaveError(data.details || data.error);
+        return;
+      }
+      setSaveName(null);
+      setSaveError(null);
+      window.dispatchEvent(new Event(SAVED_SEARCHES_CHANGED_EVENT));
+    } catch (error) {
+      console.error('Save search error:', error);
+      setSaveError('Failed to save search');
+    }
+  };
+
+  // Report which result was opened, for click-through analytics. sendBeacon survives the navigation.
+  const trackClick = (entityId: string, position: number) => {
+    if (!results?.searchId) return;
+    navigator.sendBeacon(
+      '/api/search/clicks',
+      new Blob([JSON.stringify({ searchId: results.searchId, entityId, position })], { type: 'application/json' })
+    );
+  };
+
   const clearSearch = () => {
     setQuery('');
-    const newFilters = { type: '', catalog: '', schema: '', owner: '' };
-    setFilters(newFilters);
-    searchCatalog('*', newFilters);
+    setFilters(EMPTY_FILTERS);
+    searchCatalog('*', EMPTY_FILTERS);
   };
 
+  // The tree highlights the node matching the location filters, when they form a single path
+  const selectedPath = filters.catalog.length === 1 && filters.schema.length <= 1
+    ? [filters.catalog[0], filters.schema[0], filters.table || filters.volume].filter((part, i, parts) =>
+        part && parts.slice(0, i).every(Boolean))
+    : [];
+
+  const hasFilters = FACET_SECTIONS.some(({ key }) => filters[key].length > 0) ||
+    !!filters.table || !!filters.volume || !!filters.updated;
+
   const getTypeIcon = (type: string) => {
     switch (type) {
       case 'catalog': return '📂';
@@ -130,10 +336,18 @@ export default function SearchPage() {
     return new Date(dateString).toLocaleDateString();
   };
 
-  // Load initial results
+  // Load results for the URL, on first render and whenever a link such as a saved search changes it
+  const urlQuery = searchParams.toString();
   useEffect(() => {
-    searchCatalog('*');
-  }, [searchCatalog]);
+    if (urlQuery === syncedUrl.current) return;
+    const initial = readSearchParams(new URLSearchParams(urlQuery));
+    setQuery(initial.query);
+    setFilters(initial.filters);
+    setSort(initial.sort);
+    searchCatalog(initial.query || '*', initial.filters, 0, initial.sort);
+    // Only the URL should trigger this; searchCatalog changes with every edit to the form
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [urlQuery]);
 
   return (
     <div className="h-full overflow-y-auto bg-gray-50">
@@ -158,26 +372,13 @@ export default function SearchPage() {
           <form onSubmit={handleSearch} className="space-y-4">
             <div className="flex gap-4">
               <div className="flex-1">
-                <div className="relative">
-                  <SearchIcon className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
-                  <input
-                    type="text"
-                    value={query}
-                    onChange={(e) => setQuery(e.target.value)}
-                    placeholder="Search catalogs, tables, files..."
-                    className="w-full pl-10 pr-10 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                  />
-                  {query && (
-                    <button
-                      type="button"
-                      onClick={clearSearch}
-                      className="absolute right-3 top-3 h-5 w-5 text-gray-400 hover:text-gray-600"
-                      title="Clear search"
-                    >
-                      <XIcon className="h-4 w-4" />
-                    </button>
-                  )}
-                </div>
+                <SearchAutocomplete
+                  value={query}
+                  onChange={setQuery}
+                  onClear={clearSearch}
+                  onSelect={(suggestion) => router.push(`/entity/${encodeURIComponent(suggestion.id)}`)}
+                  placeholder="Search catalogs, tables, files... (e.g. owner:alice type:table -tag:deprecated)"
+                />
               </div>
               <button
                 type="submit"
@@ -194,74 +395,93 @@ export default function SearchPage() {
                 <FilterIcon className="w-4 h-4" />
                 Filters
               </button>
+              <button
+                type="button"
+                onClick={() => setSaveName(saveName === null ? query : null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-2"
+                title="Save this query and its filters"
+              >
+                <BookmarkIcon className="w-4 h-4" />
+                Save
+              </button>
             </div>
 
+            {/* Query syntax error, with a caret under the offending position */}
+            {queryError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                <p className="mb-1">{queryError.message}</p>
+                <pre className="font-mono text-xs text-red-800 overflow-x-auto">
+                  {queryError.query}{'\n'}{' '.repeat(queryError.position)}^
+                </pre>
+              </div>
+            )}
+
             {/* Filters */}
             {showFilters && (
               <div className="bg-gray-50 rounded-lg p-4 space-y-3">
                 <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
-                    <select
-                      value={filters.type}
-                      onChange={(e) => handleFilterChange('type', e.target.value)}
-                      className="w-full border border-gray-300 rounded-md px-3 py-2"
-                    >
-                      <option value="">All Types</option>
-                      <option value="catalog">Catalogs</option>
-                      <option value="schema">Schemas</option>
-                      <option value="table">Tables</option>
-                      <option value="column">Columns</option>
-                      <option value="volume">Volumes</option>
-                      <option value="file">Files</option>
-                      <option value="directory">Directories</option>
-                    </select>
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Catalog</label>
-                    <select
-                      value={filters.catalog}
-                      onChange={(e) => handleFilterChange('catalog', e.target.value)}
-                      className="w-full border border-gray-300 rounded-md px-3 py-2"
-                    >
-                      <option value="">All Catalogs</option>
-                      {results?.facets?.catalogs && Object.entries(results.facets.catalogs).map(([catalog, count]) => (
-                        <option key={catalog} value={catalog}>{catalog} ({count})</option>
-                      ))}
-                    </select>
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Schema</label>
-                    <select
-                      value={filters.schema}
-                      onChange={(e) => handleFilterChange('schema', e.target.value)}
-                      className="w-full border border-gray-300 rounded-md px-3 py-2"
-                    >
-                      <option value="">All Schemas</option>
-                      {results?.facets?.schemas && Object.entries(results.facets.schemas).map(([schema, count]) => (
-                        <option key={schema} value={schema}>{schema} ({count})</option>
-                      ))}
-                    </select>
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Owner</label>
-                    <select
-                      value={filters.owner}
-                      onChange={(e) => handleFilterChange('owner', e.target.value)}
-                      className="w-full border border-gray-300 rounded-md px-3 py-2"
-                    >
-                      <option value="">All Owners</option>
-                      {results?.facets?.owners && Object.entries(results.facets.owners).map(([owner, count]) => (
-                        <option key={owner} value={owner}>{owner} ({count})</option>
+                  {FACET_SECTIONS.map(({ key, label, facet }) => {
+                    const counts = results?.facets?.[facet] || {};
+                    // Keep selected values listed even when the other filters leave them no matches
+                    const values = [
+                      ...Object.keys(counts),
+                      ...filters[key].filter(value => !(value in counts))
+                    ];
+                    // Size buckets are always returned; hide the section when no files match at all
+                    if (key === 'file_size' && !Object.values(counts).some(Boolean) && filters.file_size.length === 0) {
+                      return null;
+                    }
+                    return (
+                      <fieldset key={key}>
+                        <legend className="block text-sm font-medium text-gray-700 mb-1">{label}</legend>
+                        <div className="max-h-48 overflow-y-auto space-y-1">
+                          {values.length === 0 && <p className="text-xs text-gray-400">No values</p>}
+                          {values.map(value => (
+                            <label key={value} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={filters[key].includes(value)}
+                                onChange={() => handleFilterChange(key, value)}
+                                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                              />
+                              <span className="truncate flex-1">
+                                {key === 'type' && `${getTypeIcon(value)} `}
+                                {key === 'file_size' ? FILE_SIZE_LABELS[value] || value : value}
+                              </span>
+                              <span className="text-xs text-gray-500">{counts[value] || 0}</span>
+                            </label>
+                          ))}
+                        </div>
+                      </fieldset>
+                    );
+                  })}
+                  <fieldset>
+                    <legend className="block text-sm font-medium text-gray-700 mb-1">Updated</legend>
+                    <div className="space-y-1">
+                      {[['', 'Any time'], ...Object.entries(UPDATED_LABELS)].map(([value, label]) => (
+                        <label key={value || 'any'} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                          <input
+                            type="radio"
+                            name="updated"
+                            checked={filters.updated === value}
+                            onChange={() => handleUpdatedChange(value)}
+                            className="border-gray-300 text-primary-600 focus:ring-primary-500"
+                          />
+                          <span className="flex-1">{label}</span>
+                          {value && (
+                            <span className="text-xs text-gray-500">{results?.facets?.updated[value] || 0}</span>
+                          )}
+                        </label>
                       ))}
-                    </select>
-                  </div>
+                    </div>
+                  </fieldset>
                 </div>
                 <div className="flex justify-end">
                   <button
                     type="button"
                     onClick={clearFilters}
-                    className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+                    disabled={!hasFilters}
+                    className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
                   >
                     Clear Filters
                   </button>
@@ -269,99 +489,280 @@ export default function SearchPage() {
               </div>
             )}
           </form>
+
+          {saveName !== null && (
+            <form onSubmit={saveSearch} className="mt-4 flex items-center gap-2">
+              <input
+                type="text"
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                placeholder="Name this search, e.g. New tables in breeding"
+                autoFocus
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <button
+                type="submit"
+                disabled={!saveName.trim()}
+                className="px-4 py-2 text-sm bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50"
+              >
+                Save search
+              </button>
+              <button
+                type="button"
+                onClick={() => { setSaveName(null); setSaveError(null); }}
+                className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+            </form>
+          )}
+          {saveError && <p className="mt-2 text-sm text-red-600">{saveError}</p>}
         </div>
 
-        {/* Results */}
-        {results && (
-          <div className="bg-white rounded-lg shadow-sm border">
-            <div className="px-6 py-4 border-b border-gray-200">
-              <div className="flex items-center justify-between">
-                <h2 className="text-lg font-semibold text-gray-900">
-                  Search Results ({results.total} total)
-                </h2>
-                {results.facets && (
-                  <div className="flex gap-4 text-sm text-gray-600">
-                    {Object.entries(results.facets.types).map(([type, count]) => (
-                      <span key={type} className="flex items-center gap-1">
-                        {getTypeIcon(type)} {type}: {count}
-                      </span>
-                    ))}
-                  </div>
-                )}
-              </div>
+        <div className="flex gap-6 items-start">
+          {/* Catalog tree */}
+          <aside className="w-72 shrink-0 bg-white rounded-lg shadow-sm border">
+            <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-gray-900">Browse</h2>
+              {selectedPath.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => handleTreeSelect(null)}
+                  className="text-xs text-gray-600 hover:text-gray-800"
+                >
+                  Clear
+                </button>
+              )}
             </div>
+            <div className="p-2 max-h-[70vh] overflow-y-auto">
+              <CatalogTree selectedPath={selectedPath} onSelect={handleTreeSelect} />
+            </div>
+          </aside>
 
-            <div className="divide-y divide-gray-200">
-              {results.results.map((result) => (
-                <div key={result.id} className="px-6 py-4 hover:bg-gray-50">
-                  <div className="flex items-start gap-3">
-                    <span className="text-2xl">{getTypeIcon(result.type)}</span>
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <h3 className="font-medium text-gray-900">{result.name}</h3>
-                        <span className="px-2 py-1 text-xs bg-primary-100 text-primary-800 rounded-full">
-                          {result.type}
+          <div className="flex-1 min-w-0 space-y-6">
+            {/* Results */}
+            {results && (
+              <div className="bg-white rounded-lg shadow-sm border">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-semibold text-gray-900">
+                      Search Results ({results.total} total)
+                    </h2>
+                    <div className="flex items-center gap-4 text-sm text-gray-600">
+                      {results.facets && Object.entries(results.facets.types).map(([type, count]) => (
+                        <span key={type} className="flex items-center gap-1">
+                          {getTypeIcon(type)} {type}: {count}
                         </span>
-                      </div>
-                      <p className="text-sm text-gray-600 mb-2">{result.full_name}</p>
-                      {result.description && (
-                        <p className="text-sm text-gray-700 mb-2 line-clamp-2">{result.description}</p>
-                      )}
-                      <div className="flex items-center gap-4 text-xs text-gray-500">
-                        {result.owner && <span>Owner: {result.owner}</span>}
-                        {result.data_type && <span>Type: {result.data_type}</span>}
-                        {result.file_size !== undefined && result.file_size > 0 && (
-                          <span>Size: {formatFileSize(result.file_size)}</span>
-                        )}
-                        {result.created_at && <span>Created: {formatDate(result.created_at)}</span>}
-                      </div>
-                      {result.tags && result.tags.length > 0 && (
-                        <div className="flex gap-1 mt-2">
-                          {result.tags.map((tag, index) => (
-                            <span key={index} className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded">
-                              {tag}
-                            </span>
+                      ))}
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={grouped}
+                          onChange={(e) => handleGroupedChange(e.target.checked)}
+                          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                        <span>Group by table/volume</span>
+                      </label>
+                      <label className="flex items-center gap-2">
+                        <span>Sort by</span>
+                        <select
+                          value={sort}
+                          onChange={(e) => handleSortChange(e.target.value)}
+                          className="border border-gray-300 rounded-md px-2 py-1"
+                        >
+                          {Object.entries(SORT_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
                           ))}
-                        </div>
+                        </select>
+                      </label>
+                      {results.total > 0 && (
+                        <span className="flex items-center gap-1">
+                          <DownloadIcon className="w-4 h-4" />
+                          {EXPORT_FORMATS.map(format => (
+                            <a
+                              key={format}
+                              href={`/api/search/export?${buildSearchParams(query, filters, sort)}&format=${format}`}
+                              className="text-primary-700 hover:underline uppercase text-xs"
+                              title={`Export all ${results.total} matches as ${format.toUpperCase()}`}
+                            >
+                              {format}
+                            </a>
+                          ))}
+                        </span>
                       )}
                     </div>
                   </div>
                 </div>
-              ))}
-            </div>
 
-            {results.totalPages > 1 && (
-              <div className="px-6 py-4 border-t border-gray-200">
-                <div className="flex justify-center">
-                  <div className="flex gap-2">
-                    {Array.from({ length: Math.min(results.totalPages, 10) }, (_, i) => (
+                <div className="divide-y divide-gray-200">
+                  {(results.groups
+                    // A group whose parent isn't indexed is headed by its best match
+                    ? results.groups.map(({ parent, matches, matchCount }) => parent
+                      ? { result: parent, matches, matchCount }
+                      : { result: matches[0], matches: matches.slice(1), matchCount: matchCount - 1 })
+                    : results.results.map(result => ({ result, matches: [] as SearchResult[], matchCount: 0 }))
+                  ).filter(({ result }) => result).map(({ result, matches, matchCount }, index) => {
+                    const snippet = bestSnippet(results.highlights?.[result.id]);
+                    const position = results.page * results.size + index + 1;
+                    return (
+                      <div key={result.id} className="px-6 py-4 hover:bg-gray-50">
+                        <div className="flex items-start gap-3">
+                          <span className="text-2xl">{getTypeIcon(result.type)}</span>
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2 mb-1">
+                              <h3 className="font-medium text-gray-900">
+                                <Link
+                                  href={`/entity/${encodeURIComponent(result.id)}`}
+                                  onClick={() => trackClick(result.id, position)}
+                                  className="hover:text-primary-700 hover:underline"
+                                >
+                                  {result.name}
+                                </Link>
+                              </h3>
+                              <span className="px-2 py-1 text-xs bg-primary-100 text-primary-800 rounded-full">
+                                {result.type}
+                              </span>
+                            </div>
+                            <p className="text-sm text-gray-600 mb-2">{result.full_name}</p>
+                            {snippet ? (
+                              <p className="text-sm text-gray-700 mb-2 line-clamp-3">
+                                {snippet.field !== 'description' && (
+                                  <span className="mr-1 text-xs text-gray-500">{snippet.field}:</span>
+                                )}
+                                <HighlightedText fragment={snippet.text} />
+                              </p>
+                            ) : result.description && (
+                              <p className="text-sm text-gray-700 mb-2 line-clamp-2">{result.description}</p>
+                            )}
+                            <div className="flex items-center gap-4 text-xs text-gray-500">
+                              {result.owner && <span>Owner: {result.owner}</span>}
+                              {result.data_type && <span>Type: {result.data_type}</span>}
+                              {result.file_size !== undefined && result.file_size > 0 && (
+                                <span>Size: {formatFileSize(result.file_size)}</span>
+                              )}
+                              {result.created_at && <span>Created: {formatDate(result.created_at)}</span>}
+                            </div>
+                            {result.tags && result.tags.length > 0 && (
+                              <div className="flex gap-1 mt-2">
+                                {result.tags.map((tag, index) => (
+                                  <span key={index} className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded">
+                                    {tag}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                            {matches.length > 0 && (
+                              <div className="mt-3 border-l-2 border-primary-100 pl-3">
+                                <p className="text-xs font-medium text-gray-500 mb-1">
+                                  {matchCount} matching {matches[0].type === 'column' ? 'column' : 'file'}{matchCount === 1 ? '' : 's'}
+                                </p>
+                                <ul className="space-y-1">
+                                  {matches.map(match => {
+                                    const matchSnippet = bestSnippet(results.highlights?.[match.id]);
+                                    return (
+                                      <li key={match.id} className="text-sm">
+                                        <span className="mr-1">{getTypeIcon(match.type)}</span>
+                                        <Link
+                                          href={`/entity/${encodeURIComponent(match.id)}`}
+                                          onClick={() => trackClick(match.id, position)}
+                                          className="text-primary-700 hover:underline"
+                                        >
+                                          {match.type === 'column' ? match.name : match.full_name.split('/').slice(1).join('/') || match.name}
+                                        </Link>
+                                        {match.data_type && <span className="ml-2 text-xs font-mono text-gray-500">{match.data_type}</span>}
+                                        {matchSnippet && (
+                                          <span className="ml-2 text-xs text-gray-600">
+                                            <HighlightedText fragment={matchSnippet.text} />
+                                          </span>
+                                        )}
+                                      </li>
+                                    );
+                                  })}
+                                </ul>
+                                {matchCount > matches.length && (
+                                  <Link
+                                    href={`/entity/${encodeURIComponent(result.id)}`}
+                                    className="text-xs text-primary-700 hover:underline"
+                                  >
+                                    and {matchCount - matches.length} more
+                                  </Link>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {results.totalPages > 1 && (
+                  <div className="px-6 py-4 border-t border-gray-200">
+                    <div className="flex items-center justify-center gap-4 text-sm">
                       <button
-                        key={i}
-                        onClick={() => searchCatalog(query, filters, i)}
-                        className={`px-3 py-1 rounded ${
-                          i === results.page
-                            ? 'bg-primary-500 text-white'
-                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                        }`}
+                        type="button"
+                        onClick={() => goToPage(results.page - 1)}
+                        disabled={loading || results.page === 0}
+                        className="px-3 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
                       >
-                        {i + 1}
+                        Previous
                       </button>
-                    ))}
+                      <span className="text-gray-600">
+                        Page {results.page + 1} of {results.totalPages}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => goToPage(results.page + 1)}
+                        disabled={loading || (grouped ? results.page + 1 >= results.totalPages : !results.nextCursor)}
+                        className="px-3 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                      >
+                        Next
+                      </button>
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
             )}
-          </div>
-        )}
 
-        {results && results.results.length === 0 && (
-          <div className="bg-white rounded-lg shadow-sm border p-8 text-center">
-            <SearchIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No results found</h3>
-            <p className="text-gray-600">Try adjusting your search query or filters</p>
+            {results && results.results.length === 0 && !results.groups?.length && (
+              <div className="bg-white rounded-lg shadow-sm border p-8 text-center">
+                <SearchIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No results found</h3>
+                {results.suggestions && results.suggestions.length > 0 ? (
+                  <p className="text-gray-600">
+                    Did you mean{' '}
+                    {results.suggestions.map((suggestion, index) => (
+                      <span key={suggestion.query}>
+                        {index > 0 && ' or '}
+                        <button
+                          type="button"
+                          onClick={() => runSuggestion(suggestion.query)}
+                          className="font-mono text-primary-700 hover:underline"
+                        >
+                          {suggestion.query}
+                        </button>
+                        <span className="text-sm text-gray-500"> ({suggestion.hits})</span>
+                      </span>
+                    ))}
+                    ?
+                  </p>
+                ) : (
+                  <p className="text-gray-600">Try adjusting your search query or filters</p>
+                )}
+              </div>
+            )}
           </div>
-        )}
+        </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function SearchPage() {
+  return (
+    <Suspense>
+      <SearchPageContent />
+    </Suspense>
+  );
+}
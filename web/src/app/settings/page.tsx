@@ -1,29 +1,94 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { PlusIcon, EditIcon, TrashIcon, SaveIcon, SettingsIcon } from 'lucide-react';
+import { PlusIcon, EditIcon, TrashIcon, SaveIcon, SettingsIcon, ListChecksIcon, RefreshCwIcon } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
+import type { BrAPIAuthType, BrAPIEndpointAuth, BrAPIEndpointSecrets } from '@/lib/brapi-auth';
+import type { BrAPICapabilities } from '@/lib/brapi-client';
 
 interface BrAPIEndpoint {
   id: string;
   name: string;
   url: string;
   isActive: boolean;
+  federated?: boolean;
+  // Secrets are only sent when entered; the server never returns them
+  auth?: BrAPIEndpointAuth & BrAPIEndpointSecrets;
 }
 
+const AUTH_TYPE_LABELS: Record<BrAPIAuthType, string> = {
+  'none': 'None',
+  'bearer': 'Bearer token',
+  'basic': 'Username and password',
+  'oauth2': 'OAuth2 client credentials'
+};
+
+// The secret field each auth type sends, with its form label
+const AUTH_SECRET_FIELDS: Record<BrAPIAuthType, { field: keyof BrAPIEndpointSecrets; label: string } | null> = {
+  'none': null,
+  'bearer': { field: 'token', label: 'Token' },
+  'basic': { field: 'password', label: 'Password' },
+  'oauth2': { field: 'clientSecret', label: 'Client secret' }
+};
+
+const LLM_PROVIDER_LABELS: Record<string, string> = {
+  'azure': 'Azure OpenAI',
+  'openai-compatible': 'OpenAI-compatible server (vLLM, Ollama, llama.cpp)',
+  'fake': 'Scripted fake (offline testing)'
+};
+
 interface FormData {
   name: string;
   url: string;
+  authType: BrAPIAuthType;
+  username: string;
+  tokenUrl: string;
+  clientId: string;
+  scope: string;
+  secret: string;
 }
 
+const EMPTY_FORM: FormData = {
+  name: '',
+  url: '',
+  authType: 'none',
+  username: '',
+  tokenUrl: '',
+  clientId: '',
+  scope: '',
+  secret: ''
+};
+
+// Whether a blank secret keeps the saved one. As on the server, that's only while the secret would still
+// go to the same place: same auth type, URL, and username or token URL and client ID.
+const keepsSavedSecret = (existing: BrAPIEndpoint | undefined, form: FormData): boolean => {
+  const auth = existing?.auth;
+  if (!existing || !auth?.hasSecret || auth.type !== form.authType || existing.url !== form.url.trim()) {
+    return false;
+  }
+  if (form.authType === 'basic') {
+    return auth.username === form.username.trim();
+  }
+  if (form.authType === 'oauth2') {
+    return auth.tokenUrl === form.tokenUrl.trim() && auth.clientId === form.clientId.trim();
+  }
+  return true;
+};
+
 export default function SettingsPage() {
   const [endpoints, setEndpoints] = useState<BrAPIEndpoint[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [formData, setFormData] = useState<FormData>({ name: '', url: '' });
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [llmProvider, setLlmProvider] = useState<string>('');
+  const [llmProviders, setLlmProviders] = useState<string[]>([]);
+  const [defaultLlmProvider, setDefaultLlmProvider] = useState<string>('');
+  // The endpoint whose capabilities are shown, and each endpoint's /serverinfo once loaded
+  const [capabilitiesId, setCapabilitiesId] = useState<string | null>(null);
+  const [capabilities, setCapabilities] = useState<Record<string, { loading: boolean; data?: BrAPICapabilities; error?: string }>>({});
 
   const loadSettings = useCallback(async () => {
     try {
@@ -32,6 +97,9 @@ export default function SettingsPage() {
       if (response.ok) {
         const data = await response.json();
         setEndpoints(data.endpoints || []);
+        setLlmProvider(data.llmProvider || '');
+        setLlmProviders(data.llmProviders || []);
+        setDefaultLlmProvider(data.defaultLlmProvider || '');
       } else {
         showMessage('error', 'Failed to load settings');
       }
@@ -48,7 +116,7 @@ export default function SettingsPage() {
     loadSettings();
   }, [loadSettings]);
 
-  const saveSettings = async (newEndpoints: BrAPIEndpoint[]) => {
+  const saveSettings = async (newEndpoints: BrAPIEndpoint[]): Promise<boolean> => {
     try {
       setSaving(true);
       const response = await fetch('/api/settings', {
@@ -57,8 +125,12 @@ export default function SettingsPage() {
         body: JSON.stringify({ endpoints: newEndpoints })
       });
 
+      const data = await response.json();
       if (response.ok) {
-        setEndpoints(newEndpoints);
+        // The server's copy has secrets stripped and notes which endpoints have one stored
+        setEndpoints(data.endpoints);
+        // URLs or credentials may have changed, so capabilities are reloaded when next shown
+        setCapabilities({});
         
         // Clear BrAPI cache so next MCP query uses the updated active endpoint
         try {
@@ -69,12 +141,37 @@ export default function SettingsPage() {
         }
         
         showMessage('success', 'Settings saved successfully');
-      } else {
-        showMessage('error', 'Failed to save settings');
+        return true;
       }
+      showMessage('error', data.details || data.error || 'Failed to save settings');
+      return false;
     } catch (error) {
       console.error('Error saving settings:', error);
       showMessage('error', 'Error saving settings');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveLlmProvider = async (provider: string) => {
+    try {
+      setSaving(true);
+      const response = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ llmProvider: provider || null })
+      });
+
+      if (response.ok) {
+        setLlmProvider(provider);
+        showMessage('success', 'Chat model provider saved');
+      } else {
+        showMessage('error', 'Failed to save chat model provider');
+      }
+    } catch (error) {
+      console.error('Error saving chat model provider:', error);
+      showMessage('error', 'Error saving chat model provider');
     } finally {
       setSaving(false);
     }
@@ -114,9 +211,48 @@ export default function SettingsPage() {
       return false;
     }
 
+    if (formData.authType === 'basic' && !formData.username.trim()) {
+      showMessage('error', 'Username is required for username and password auth');
+      return false;
+    }
+
+    if (formData.authType === 'oauth2') {
+      if (!formData.tokenUrl.trim() || !formData.clientId.trim()) {
+        showMessage('error', 'Token URL and client ID are required for OAuth2');
+        return false;
+      }
+      try {
+        new URL(formData.tokenUrl);
+      } catch {
+        showMessage('error', 'Please enter a valid token URL');
+        return false;
+      }
+    }
+
     return true;
   };
 
+  // Auth settings from the form; a blank secret tells the server to keep the stored one
+  const buildAuth = (): BrAPIEndpoint['auth'] => {
+    const secretField = AUTH_SECRET_FIELDS[formData.authType];
+    switch (formData.authType) {
+      case 'none':
+        return undefined;
+      case 'basic':
+        return { type: 'basic', username: formData.username.trim(), [secretField!.field]: formData.secret };
+      case 'oauth2':
+        return {
+          type: 'oauth2',
+          tokenUrl: formData.tokenUrl.trim(),
+          clientId: formData.clientId.trim(),
+          scope: formData.scope.trim() || undefined,
+          [secretField!.field]: formData.secret
+        };
+      default:
+        return { type: formData.authType, [secretField!.field]: formData.secret };
+    }
+  };
+
   const handleAddEndpoint = async () => {
     if (!validateForm()) return;
 
@@ -124,12 +260,14 @@ export default function SettingsPage() {
       id: uuidv4(),
       name: formData.name.trim(),
       url: formData.url.trim(),
-      isActive: endpoints.length === 0 // First endpoint is active by default
+      isActive: endpoints.length === 0, // First endpoint is active by default
+      auth: buildAuth()
     };
 
-    await saveSettings([...endpoints, newEndpoint]);
-    setFormData({ name: '', url: '' });
-    setShowAddForm(false);
+    if (await saveSettings([...endpoints, newEndpoint])) {
+      setFormData(EMPTY_FORM);
+      setShowAddForm(false);
+    }
   };
 
   const handleEditEndpoint = async () => {
@@ -137,13 +275,14 @@ export default function SettingsPage() {
 
     const updatedEndpoints = endpoints.map(endpoint =>
       endpoint.id === editingId
-        ? { ...endpoint, name: formData.name.trim(), url: formData.url.trim() }
+        ? { ...endpoint, name: formData.name.trim(), url: formData.url.trim(), auth: buildAuth() }
         : endpoint
     );
 
-    await saveSettings(updatedEndpoints);
-    setEditingId(null);
-    setFormData({ name: '', url: '' });
+    if (await saveSettings(updatedEndpoints)) {
+      setEditingId(null);
+      setFormData(EMPTY_FORM);
+    }
   };
 
   const handleDeleteEndpoint = async (id: string) => {
@@ -169,20 +308,201 @@ export default function SettingsPage() {
     await saveSettings(updatedEndpoints);
   };
 
+  const handleToggleFederated = async (id: string) => {
+    const updatedEndpoints = endpoints.map(endpoint =>
+      endpoint.id === id ? { ...endpoint, federated: endpoint.federated === false } : endpoint
+    );
+
+    await saveSettings(updatedEndpoints);
+  };
+
+  const loadCapabilities = async (id: string, refresh: boolean = false) => {
+    setCapabilities(current => ({ ...current, [id]: { ...current[id], loading: true } }));
+    try {
+      const response = await fetch(`/api/brapi/endpoints/${id}/capabilities${refresh ? '?refresh=true' : ''}`);
+      const data = await response.json();
+      setCapabilities(current => ({
+        ...current,
+        [id]: response.ok ? { loading: false, data } : { loading: false, error: data.details || data.error }
+      }));
+    } catch (error) {
+      console.error('Error loading endpoint capabilities:', error);
+      setCapabilities(current => ({ ...current, [id]: { loading: false, error: 'Error loading capabilities' } }));
+    }
+  };
+
+  const toggleCapabilities = (id: string) => {
+    if (capabilitiesId === id) {
+      setCapabilitiesId(null);
+      return;
+    }
+    setCapabilitiesId(id);
+    if (!capabilities[id]?.data) {
+      loadCapabilities(id);
+    }
+  };
+
   const startEdit = (endpoint: BrAPIEndpoint) => {
     setEditingId(endpoint.id);
-    setFormData({ name: endpoint.name, url: endpoint.url });
+    setFormData({
+      ...EMPTY_FORM,
+      name: endpoint.name,
+      url: endpoint.url,
+      authType: endpoint.auth?.type || 'none',
+      username: endpoint.auth?.username || '',
+      tokenUrl: endpoint.auth?.tokenUrl || '',
+      clientId: endpoint.auth?.clientId || '',
+      scope: endpoint.auth?.scope || ''
+    });
     setShowAddForm(false);
   };
 
   const cancelEdit = () => {
     setEditingId(null);
-    setFormData({ name: '', url: '' });
+    setFormData(EMPTY_FORM);
   };
 
   const cancelAdd = () => {
     setShowAddForm(false);
-    setFormData({ name: '', url: '' });
+    setFormData(EMPTY_FORM);
+  };
+
+  const renderCapabilities = (id: string) => {
+    const state = capabilities[id];
+    return (
+      <div className="mt-4 ml-7 border-t border-gray-200 pt-3">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-900">
+            Supported calls
+            {state?.data?.serverName && <span className="font-normal text-gray-500"> • {state.data.serverName}</span>}
+          </h4>
+          <button
+            onClick={() => loadCapabilities(id, true)}
+            disabled={state?.loading}
+            className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-50"
+            title="Reload from /serverinfo"
+          >
+            <RefreshCwIcon className={`w-4 h-4 ${state?.loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+        {state?.error ? (
+          <p className="text-sm text-red-600">{state.error}</p>
+        ) : !state?.data ? (
+          <p className="text-sm text-gray-500">Loading capabilities...</p>
+        ) : state.data.calls.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            This endpoint&apos;s /serverinfo lists no calls, so every operation will be attempted.
+          </p>
+        ) : (
+          <>
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs text-gray-500">
+                <tr>
+                  <th className="py-1 font-medium">Service</th>
+                  <th className="py-1 font-medium">Methods</th>
+                  <th className="py-1 font-medium">Versions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {state.data.calls.map(call => (
+                  <tr key={call.service}>
+                    <td className="py-1 font-mono text-xs">{call.service}</td>
+                    <td className="py-1 text-xs">{call.methods.join(', ')}</td>
+                    <td className="py-1 text-xs text-gray-500">{call.versions.join(', ') || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-400 mt-2">
+              Checked {new Date(state.data.fetchedAt).toLocaleString()}
+            </p>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  // Auth fields shared by the add and edit forms. A stored secret is kept unless a new one is typed,
+  // as long as the endpoint still sends it to the same place.
+  const renderAuthFields = (existing?: BrAPIEndpoint) => {
+    const secretField = AUTH_SECRET_FIELDS[formData.authType];
+    const keepsSecret = keepsSavedSecret(existing, formData);
+    const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Authentication</label>
+          <select
+            value={formData.authType}
+            onChange={(e) => setFormData({ ...formData, authType: e.target.value as BrAPIAuthType, secret: '' })}
+            className={inputClass}
+          >
+            {(Object.keys(AUTH_TYPE_LABELS) as BrAPIAuthType[]).map(type => (
+              <option key={type} value={type}>{AUTH_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        {formData.authType === 'basic' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+            <input
+              type="text"
+              value={formData.username}
+              onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+              autoComplete="off"
+              className={inputClass}
+            />
+          </div>
+        )}
+        {formData.authType === 'oauth2' && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Token URL</label>
+              <input
+                type="url"
+                value={formData.tokenUrl}
+                onChange={(e) => setFormData({ ...formData, tokenUrl: e.target.value })}
+                placeholder="https://auth.example.com/oauth/token"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Client ID</label>
+              <input
+                type="text"
+                value={formData.clientId}
+                onChange={(e) => setFormData({ ...formData, clientId: e.target.value })}
+                autoComplete="off"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Scope (optional)</label>
+              <input
+                type="text"
+                value={formData.scope}
+                onChange={(e) => setFormData({ ...formData, scope: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </>
+        )}
+        {secretField && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{secretField.label}</label>
+            <input
+              type="password"
+              value={formData.secret}
+              onChange={(e) => setFormData({ ...formData, secret: e.target.value })}
+              placeholder={keepsSecret ? 'Leave blank to keep the saved value' : ''}
+              autoComplete="new-password"
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+    );
   };
 
   if (loading) {
@@ -218,6 +538,32 @@ export default function SettingsPage() {
           </div>
         )}
 
+        {/* Chat Model Provider Section */}
+        <div className="bg-white rounded-lg shadow-sm border mb-6">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-xl font-semibold text-gray-900">Chat Model Provider</h2>
+            <p className="text-sm text-gray-600 mt-1">Choose which language model backend answers in the Information Booth</p>
+          </div>
+          <div className="p-6">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Provider</label>
+            <select
+              value={llmProvider}
+              onChange={(e) => saveLlmProvider(e.target.value)}
+              disabled={saving}
+              className="w-full md:w-1/2 border border-gray-300 rounded-md px-3 py-2"
+            >
+              <option value="">
+                Environment default ({LLM_PROVIDER_LABELS[defaultLlmProvider] || defaultLlmProvider})
+              </option>
+              {llmProviders.map(provider => (
+                <option key={provider} value={provider}>
+                  {LLM_PROVIDER_LABELS[provider] || provider}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
         {/* BrAPI Endpoints Section */}
         <div className="bg-white rounded-lg shadow-sm border">
           <div className="px-6 py-4 border-b border-gray-200">
@@ -264,6 +610,7 @@ export default function SettingsPage() {
                     />
                   </div>
                 </div>
+                {renderAuthFields()}
                 <div className="flex gap-2">
                   <button
                     onClick={handleAddEndpoint}
@@ -316,6 +663,7 @@ export default function SettingsPage() {
                             />
                           </div>
                         </div>
+                        {renderAuthFields(endpoint)}
                         <div className="flex gap-2">
                           <button
                             onClick={handleEditEndpoint}
@@ -351,10 +699,34 @@ export default function SettingsPage() {
                                 Active
                               </span>
                             )}
+                            {endpoint.auth && (
+                              <span className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-full">
+                                {AUTH_TYPE_LABELS[endpoint.auth.type]}
+                              </span>
+                            )}
                           </div>
                           <p className="text-sm text-gray-600 ml-7">{endpoint.url}</p>
+                          <label className="flex items-center gap-2 text-sm text-gray-600 ml-7 mt-2">
+                            <input
+                              type="checkbox"
+                              checked={endpoint.federated !== false}
+                              onChange={() => handleToggleFederated(endpoint.id)}
+                              disabled={saving}
+                              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                            />
+                            Include in federated germplasm search
+                          </label>
                         </div>
                         <div className="flex gap-2">
+                          <button
+                            onClick={() => toggleCapabilities(endpoint.id)}
+                            className={`p-2 rounded-lg hover:bg-gray-100 ${
+                              capabilitiesId === endpoint.id ? 'text-primary-600' : 'text-gray-500 hover:text-gray-700'
+                            }`}
+                            title="Show supported BrAPI calls"
+                          >
+                            <ListChecksIcon className="w-4 h-4" />
+                          </button>
                           <button
                             onClick={() => startEdit(endpoint)}
                             className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
@@ -372,6 +744,7 @@ export default function SettingsPage() {
                         </div>
                       </div>
                     )}
+                    {editingId !== endpoint.id && capabilitiesId === endpoint.id && renderCapabilities(endpoint.id)}
                   </div>
                 ))}
               </div>
@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronRightIcon, ChevronDownIcon, Loader2Icon } from 'lucide-react';
+import type { BrowseNode, BrowseResponse } from '@/lib/catalog-browse';
+
+interface CatalogTreeProps {
+  // Path of the node currently filtering the results, e.g. ['main', 'genomics']
+  selectedPath: string[];
+  onSelect: (node: BrowseNode | null) => void;
+}
+
+const getTypeIcon = (type: string) => {
+  switch (type) {
+    case 'catalog': return '📂';
+    case 'schema': return '📋';
+    case 'table': return '🗂️';
+    case 'column': return '📊';
+    case 'volume': return '💾';
+    case 'directory': return '📁';
+    default: return '📄';
+  }
+};
+
+const pathKey = (path: string[]) => path.join('.');
+
+export function CatalogTree({ selectedPath, onSelect }: CatalogTreeProps) {
+  const [listings, setListings] = useState<Record<string, BrowseResponse>>({});
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState<Set<string>>(new Set());
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const loadChildren = useCallback(async (path: string[]) => {
+    const key = pathKey(path);
+    setLoading(prev => new Set(prev).add(key));
+    try {
+      const response = await fetch(`/api/browse?path=${encodeURIComponent(key)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load');
+      }
+      setListings(prev => ({ ...prev, [key]: data }));
+      setErrors(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+    } catch (error) {
+      console.error('Browse error:', error);
+      setErrors(prev => ({ ...prev, [key]: error instanceof Error ? error.message : 'Failed to load' }));
+    } finally {
+      setLoading(prev => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    loadChildren([]);
+  }, [loadChildren]);
+
+  const toggle = (node: BrowseNode) => {
+    const key = pathKey(node.path);
+    const next = new Set(expanded);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+      if (!listings[key]) loadChildren(node.path);
+    }
+    setExpanded(next);
+  };
+
+  const selectedKey = pathKey(selectedPath);
+
+  const renderListing = (path: string[], depth: number): React.ReactNode => {
+    const key = pathKey(path);
+    const listing = listings[key];
+    const indent = { paddingLeft: `${depth * 16 + 8}px` };
+
+    if (loading.has(key) && !listing) {
+      return (
+        <div style={indent} className="flex items-center gap-2 py-1 text-xs text-gray-500">
+          <Loader2Icon className="w-3 h-3 animate-spin" /> Loading...
+        </div>
+      );
+    }
+    if (errors[key]) {
+      return (
+        <div style={indent} className="py-1 text-xs text-red-600">
+          {errors[key]}{' '}
+          <button type="button" onClick={() => loadChildren(path)} className="underline">Retry</button>
+        </div>
+      );
+    }
+    if (!listing) return null;
+    if (listing.children.length === 0) {
+      return <div style={indent} className="py-1 text-xs text-gray-400">Empty</div>;
+    }
+
+    return (
+      <>
+        {listing.children.map(node => {
+          const nodeKey = pathKey(node.path);
+          const isExpanded = expanded.has(nodeKey);
+          const isLeaf = !node.hasChildren;
+          // Columns and files are shown for context; only containers filter the results
+          const selectable = ['catalog', 'schema', 'table', 'volume'].includes(node.type);
+          const isSelected = selectable && nodeKey === selectedKey;
+
+          return (
+            <div key={node.id}>
+              <div
+                style={indent}
+                className={`flex items-center gap-1 py-1 pr-2 text-sm rounded ${
+                  isSelected ? 'bg-primary-100 text-primary-800' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {isLeaf ? (
+                  <span className="w-4 h-4 shrink-0" />
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => toggle(node)}
+                    className="w-4 h-4 shrink-0 text-gray-500 hover:text-gray-800"
+                    aria-label={isExpanded ? `Collapse ${node.name}` : `Expand ${node.name}`}
+                  >
+                    {isExpanded ? <ChevronDownIcon className="w-4 h-4" /> : <ChevronRightIcon className="w-4 h-4" />}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  disabled={!selectable}
+                  onClick={() => onSelect(isSelected ? null : node)}
+                  title={node.description || node.fullName}
+                  className="flex-1 flex items-center gap-1 min-w-0 text-left disabled:cursor-default"
+                >
+                  <span>{getTypeIcon(node.type)}</span>
+                  <span className="truncate">{node.path[node.path.length - 1]}</span>
+                  {node.hasChildren && (
+                    <span className="ml-auto pl-2 text-xs text-gray-500 shrink-0">{node.childCount}</span>
+                  )}
+                </button>
+              </div>
+              {isExpanded && renderListing(node.path, depth + 1)}
+            </div>
+          );
+        })}
+        {listing.truncated && (
+          <div style={indent} className="py-1 text-xs text-gray-400">
+            Showing {listing.children.length} of {listing.total}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="text-sm">
+      {renderListing([], 0)}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import React from 'react';
+import Link from 'next/link';
+import type { EntityReference } from '@/lib/chat-stream';
+
+interface EntityChipsProps {
+  entities: EntityReference[];
+}
+
+const getTypeIcon = (type: string) => {
+  switch (type) {
+    case 'catalog': return '📂';
+    case 'schema': return '📋';
+    case 'table': return '🗂️';
+    case 'column': return '📊';
+    case 'volume': return '💾';
+    case 'file': return '📄';
+    case 'directory': return '📁';
+    default: return '📄';
+  }
+};
+
+export function EntityChips({ entities }: EntityChipsProps) {
+  if (entities.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {entities.map(entity => (
+        <Link
+          key={entity.id}
+          href={`/entity/${encodeURIComponent(entity.id)}`}
+          title={`${entity.type}: ${entity.fullName}`}
+          className="inline-flex items-center gap-1 px-2 py-0.5 text-xs bg-primary-100 text-primary-800 rounded-full hover:bg-primary-200"
+        >
+          {getTypeIcon(entity.type)} {entity.name}
+        </Link>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import React from 'react';
+import { splitHighlights } from '@/lib/highlight';
+
+interface HighlightedTextProps {
+  // A Solr highlight fragment with matched terms wrapped in highlight tags
+  fragment: string;
+}
+
+export function HighlightedText({ fragment }: HighlightedTextProps) {
+  return (
+    <>
+      {splitHighlights(fragment).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-100 text-gray-900 font-medium rounded px-0.5">{segment.text}</mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { SearchIcon, XIcon } from 'lucide-react';
+import type { Suggestion } from '@/lib/solr-client';
+
+interface SearchAutocompleteProps {
+  value: string;
+  onChange: (value: string) => void;
+  onClear: () => void;
+  onSelect: (suggestion: Suggestion) => void;
+  placeholder?: string;
+}
+
+const DEBOUNCE_MS = 200;
+
+const getTypeIcon = (type: string) => {
+  switch (type) {
+    case 'catalog': return '📂';
+    case 'schema': return '📋';
+    case 'table': return '🗂️';
+    case 'column': return '📊';
+    case 'volume': return '💾';
+    case 'file': return '📄';
+    case 'directory': return '📁';
+    default: return '📄';
+  }
+};
+
+// Search input with a debounced suggestion dropdown. Arrow keys move through the
+// suggestions, Enter picks the highlighted one (or submits the form when none is), Escape closes.
+export function SearchAutocomplete({ value, onChange, onClear, onSelect, placeholder }: SearchAutocompleteProps) {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Only fetch after the user types, not when the value is set programmatically
+  const typedRef = useRef(false);
+
+  useEffect(() => {
+    if (!typedRef.current) return;
+    const term = value.trim();
+    if (!term) {
+      setSuggestions([]);
+      setOpen(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/suggest?q=${encodeURIComponent(term)}`, { signal: controller.signal });
+        const data = await response.json();
+        if (response.ok) {
+          setSuggestions(data.suggestions);
+          setHighlighted(-1);
+          setOpen(data.suggestions.length > 0);
+        }
+      } catch (error) {
+        if (!(error instanceof DOMException && error.name === 'AbortError')) {
+          console.error('Suggest error:', error);
+        }
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [value]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  const select = (suggestion: Suggestion) => {
+    typedRef.current = false;
+    setOpen(false);
+    setHighlighted(-1);
+    onSelect(suggestion);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) {
+      if (e.key === 'ArrowDown' && suggestions.length > 0) {
+        setOpen(true);
+        e.preventDefault();
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlighted(prev => (prev + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlighted(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+        break;
+      case 'Enter':
+        if (highlighted >= 0) {
+          e.preventDefault();
+          select(suggestions[highlighted]);
+        } else {
+          setOpen(false);
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setOpen(false);
+        setHighlighted(-1);
+        break;
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <SearchIcon className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          typedRef.current = true;
+          onChange(e.target.value);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => suggestions.length > 0 && value.trim() && setOpen(true)}
+        placeholder={placeholder}
+        role="combobox"
+        aria-expanded={open}
+        aria-controls="search-suggestions"
+        aria-autocomplete="list"
+        aria-activedescendant={highlighted >= 0 ? `search-suggestion-${highlighted}` : undefined}
+        className="w-full pl-10 pr-10 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+      />
+      {value && (
+        <button
+          type="button"
+          onClick={() => {
+            typedRef.current = false;
+            setSuggestions([]);
+            setOpen(false);
+            onClear();
+          }}
+          className="absolute right-3 top-3 h-5 w-5 text-gray-400 hover:text-gray-600"
+          title="Clear search"
+        >
+          <XIcon className="h-4 w-4" />
+        </button>
+      )}
+
+      {open && (
+        <ul
+          id="search-suggestions"
+          role="listbox"
+          className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-80 overflow-y-auto"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.id}
+              id={`search-suggestion-${index}`}
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseDown={(e) => {
+                // Keep focus in the input until the selection is handled
+                e.preventDefault();
+                select(suggestion);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`flex items-center gap-2 px-3 py-2 cursor-pointer ${
+                index === highlighted ? 'bg-primary-50' : ''
+              }`}
+            >
+              <span>{getTypeIcon(suggestion.type)}</span>
+              <div className="min-w-0 flex-1">
+                <div className="text-sm font-medium text-gray-900 truncate">{suggestion.name}</div>
+                <div className="text-xs text-gray-500 truncate">{suggestion.fullName}</div>
+              </div>
+              <span className="px-2 py-0.5 text-xs bg-primary-100 text-primary-800 rounded-full shrink-0">
+                {suggestion.type}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
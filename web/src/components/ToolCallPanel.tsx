@@ -0,0 +1,57 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ChevronRightIcon, ChevronDownIcon, WrenchIcon, CheckCircleIcon, XCircleIcon, Loader2Icon } from 'lucide-react';
+import type { ToolCallInfo } from '@/lib/chat-stream';
+import { MarkdownRenderer } from './MarkdownRenderer';
+
+interface ToolCallPanelProps {
+  toolCall: ToolCallInfo;
+}
+
+export function ToolCallPanel({ toolCall }: ToolCallPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const statusIcon = toolCall.status === 'running'
+    ? <Loader2Icon className="w-3.5 h-3.5 text-gray-400 animate-spin" />
+    : toolCall.status === 'error'
+      ? <XCircleIcon className="w-3.5 h-3.5 text-red-500" />
+      : <CheckCircleIcon className="w-3.5 h-3.5 text-green-600" />;
+
+  const argumentSummary = Object.entries(toolCall.arguments)
+    .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(', ');
+
+  return (
+    <div className="border border-gray-200 rounded-md bg-gray-50 text-xs">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left text-gray-700 hover:bg-gray-100 rounded-md"
+      >
+        {expanded ? <ChevronDownIcon className="w-3.5 h-3.5" /> : <ChevronRightIcon className="w-3.5 h-3.5" />}
+        <WrenchIcon className="w-3.5 h-3.5 text-gray-500" />
+        <span className="font-mono font-medium">{toolCall.name}</span>
+        {argumentSummary && (
+          <span className="truncate text-gray-500">({argumentSummary})</span>
+        )}
+        <span className="ml-auto flex items-center gap-1 text-gray-500 shrink-0">
+          {toolCall.durationMs !== undefined && `${toolCall.durationMs} ms`}
+          {statusIcon}
+        </span>
+      </button>
+      {expanded && (
+        <div className="px-3 pb-3 border-t border-gray-200">
+          <pre className="mt-2 p-2 bg-white border border-gray-200 rounded text-gray-700 overflow-x-auto">
+            {toolCall.rawArguments ?? JSON.stringify(toolCall.arguments, null, 2)}
+          </pre>
+          {toolCall.output && (
+            <div className="mt-2 max-h-96 overflow-y-auto">
+              <MarkdownRenderer content={toolCall.output} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,12 +2,23 @@
 
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  applyChatStreamEvent,
+  parseToolArguments,
+  readChatStream,
+  EntityReference,
+  TokenUsage,
+  ToolCallInfo,
+} from '@/lib/chat-stream';
 
 export interface Message {
   id: string;
   type: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  toolCalls?: ToolCallInfo[];
+  citations?: EntityReference[];
+  usage?: TokenUsage;
 }
 
 export interface ChatContext {
@@ -22,6 +33,7 @@ interface ChatContextValue {
   conversationId?: string;
   sendMessage: (content: string) => Promise<void>;
   clearMessages: () => void;
+  loadConversation: (id: string) => Promise<boolean>;
   setContext: (context: ChatContext) => void;
   context: ChatContext;
 }
@@ -30,12 +42,77 @@ const ChatContextInstance = createContext<ChatContextValue | undefined>(undefine
 
 const CHAT_STORAGE_KEY = 'fairgrounds_chat_state';
 
+interface StoredConversationMessage {
+  id: number;
+  role: 'user' | 'assistant' | 'tool';
+  content: string | null;
+  toolCalls?: Array<{ id: string; function: { name: string; arguments: string } }>;
+  toolCallId?: string;
+  isError?: boolean;
+  createdAt: string;
+}
+
+// Collapse server-side messages into chat bubbles: consecutive assistant steps of
+// one turn are joined into a single message and tool results attach to their call
+function toDisplayMessages(stored: StoredConversationMessage[]): Message[] {
+  const result: Message[] = [];
+  for (const msg of stored) {
+    const previous = result[result.length - 1];
+
+    if (msg.role === 'tool') {
+      const toolCall = previous?.toolCalls?.find(tc => tc.id === msg.toolCallId);
+      if (toolCall) {
+        toolCall.status = msg.isError ? 'error' : 'success';
+        toolCall.output = msg.content || '';
+      }
+      continue;
+    }
+
+    if (msg.role === 'user') {
+      result.push({
+        id: String(msg.id),
+        type: 'user',
+        content: msg.content || '',
+        timestamp: new Date(msg.createdAt),
+      });
+      continue;
+    }
+
+    const toolCalls: ToolCallInfo[] = (msg.toolCalls || []).map(tc => ({
+      id: tc.id,
+      name: tc.function.name,
+      ...parseToolArguments(tc.function.arguments),
+      status: 'running'
+    }));
+
+    if (previous?.type === 'assistant') {
+      if (msg.content) {
+        previous.content += previous.content ? `\n\n${msg.content}` : msg.content;
+      }
+      previous.toolCalls = [...(previous.toolCalls || []), ...toolCalls];
+      continue;
+    }
+
+    result.push({
+      id: String(msg.id),
+      type: 'assistant',
+      content: msg.content || '',
+      timestamp: new Date(msg.createdAt),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    });
+  }
+  return result;
+}
+
 interface StoredChatState {
   messages: Array<{
     id: string;
     type: 'user' | 'assistant';
     content: string;
     timestamp: string; // ISO string for JSON serialization
+    toolCalls?: ToolCallInfo[];
+    citations?: EntityReference[];
+    usage?: TokenUsage;
   }>;
   conversationId?: string;
   context: ChatContext;
@@ -47,6 +124,23 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
   const [conversationId, setConversationId] = useState<string | undefined>();
   const [context, setContext] = useState<ChatContext>({});
 
+  const loadConversation = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(id)}`);
+      if (!response.ok) {
+        return false;
+      }
+
+      const data = await response.json();
+      setMessages(toDisplayMessages(data.messages || []));
+      setConversationId(id);
+      return true;
+    } catch (error) {
+      console.error('Failed to load conversation:', error);
+      return false;
+    }
+  }, []);
+
   // Load chat state from localStorage on mount
   useEffect(() => {
     const stored = localStorage.getItem(CHAT_STORAGE_KEY);
@@ -63,13 +157,18 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
         setMessages(restoredMessages);
         setConversationId(parsedState.conversationId);
         setContext(parsedState.context || {});
+
+        // The server copy is authoritative; refresh from it when available
+        if (parsedState.conversationId) {
+          loadConversation(parsedState.conversationId);
+        }
       } catch (error) {
         console.error('Failed to restore chat state:', error);
         // Clear invalid stored state
         localStorage.removeItem(CHAT_STORAGE_KEY);
       }
     }
-  }, []);
+  }, [loadConversation]);
 
   // Save chat state to localStorage whenever it changes
   useEffect(() => {
@@ -127,11 +226,6 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response stream available');
-      }
-
       const assistantMessage: Message = {
         id: uuidv4(),
         type: 'assistant',
@@ -141,49 +235,15 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
 
       setMessages(prev => [...prev, assistantMessage]);
 
-      const decoder = new TextDecoder();
-      let buffer = '';
+      await readChatStream(response, (event) => {
+        setMessages(prev => prev.map(msg =>
+          msg.id === assistantMessage.id ? applyChatStreamEvent(msg, event) : msg
+        ));
 
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const data = JSON.parse(line.slice(6));
-                
-                if (data.type === 'content') {
-                  setMessages(prev => prev.map(msg => 
-                    msg.id === assistantMessage.id 
-                      ? { ...msg, content: msg.content + data.content }
-                      : msg
-                  ));
-                  
-                  if (data.conversationId && !conversationId) {
-                    setConversationId(data.conversationId);
-                  }
-                } else if (data.type === 'done') {
-                  if (data.conversationId && !conversationId) {
-                    setConversationId(data.conversationId);
-                  }
-                } else if (data.type === 'error') {
-                  throw new Error(data.error || 'Stream error occurred');
-                }
-              } catch {
-                console.warn('Failed to parse SSE data:', line);
-              }
-            }
-          }
+        if ('conversationId' in event && event.conversationId && !conversationId) {
+          setConversationId(event.conversationId);
         }
-      } finally {
-        reader.releaseLock();
-      }
+      });
     } catch (error) {
       console.error('Chat error:', error);
       
@@ -201,11 +261,15 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
   }, [loading, conversationId, context]);
 
   const clearMessages = useCallback(() => {
+    if (conversationId) {
+      fetch(`/api/conversations?id=${encodeURIComponent(conversationId)}`, { method: 'DELETE' })
+        .catch(error => console.error('Failed to delete conversation:', error));
+    }
     setMessages([]);
     setConversationId(undefined);
     setContext({});
     localStorage.removeItem(CHAT_STORAGE_KEY);
-  }, []);
+  }, [conversationId]);
 
   const contextValue: ChatContextValue = {
     messages,
@@ -213,6 +277,7 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     conversationId,
     sendMessage,
     clearMessages,
+    loadConversation,
     setContext,
     context,
   };
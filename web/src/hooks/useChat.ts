@@ -1,11 +1,21 @@
 import { useState, useCallback } from 'react';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  applyChatStreamEvent,
+  readChatStream,
+  EntityReference,
+  TokenUsage,
+  ToolCallInfo,
+} from '@/lib/chat-stream';
 
 export interface Message {
   id: string;
   type: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  toolCalls?: ToolCallInfo[];
+  citations?: EntityReference[];
+  usage?: TokenUsage;
 }
 
 export interface ChatContext {
@@ -54,11 +64,6 @@ export function useChat(options: UseChatOptions = {}) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response stream available');
-      }
-
       const assistantMessage: Message = {
         id: uuidv4(),
         type: 'assistant',
@@ -68,49 +73,15 @@ export function useChat(options: UseChatOptions = {}) {
 
       setMessages(prev => [...prev, assistantMessage]);
 
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const data = JSON.parse(line.slice(6));
-                
-                if (data.type === 'content') {
-                  setMessages(prev => prev.map(msg => 
-                    msg.id === assistantMessage.id 
-                      ? { ...msg, content: msg.content + data.content }
-                      : msg
-                  ));
-                  
-                  if (data.conversationId && !conversationId) {
-                    setConversationId(data.conversationId);
-                  }
-                } else if (data.type === 'done') {
-                  if (data.conversationId && !conversationId) {
-                    setConversationId(data.conversationId);
-                  }
-                } else if (data.type === 'error') {
-                  throw new Error(data.error || 'Stream error occurred');
-                }
-              } catch {
-                console.warn('Failed to parse SSE data:', line);
-              }
-            }
-          }
+      await readChatStream(response, (event) => {
+        setMessages(prev => prev.map(msg =>
+          msg.id === assistantMessage.id ? applyChatStreamEvent(msg, event) : msg
+        ));
+
+        if ('conversationId' in event && event.conversationId && !conversationId) {
+          setConversationId(event.conversationId);
         }
-      } finally {
-        reader.releaseLock();
-      }
+      });
     } catch (error) {
       console.error('Chat error:', error);
       
@@ -0,0 +1,254 @@
+import { executeQuery } from './mysql';
+import { encryptSecret, decryptSecret } from './encryption';
+import type { BrAPIEndpoint } from './brapi-client';
+
+export type BrAPIAuthType = 'none' | 'bearer' | 'basic' | 'oauth2';
+
+export const BRAPI_AUTH_TYPES: BrAPIAuthType[] = ['none', 'bearer', 'basic', 'oauth2'];
+
+// Non-secret auth settings, stored with the endpoint in the brapi_endpoints preference
+export interface BrAPIEndpointAuth {
+  type: BrAPIAuthType;
+  // basic
+  username?: string;
+  // oauth2 client credentials
+  tokenUrl?: string;
+  clientId?: string;
+  scope?: string;
+  // Set on endpoints returned by the settings API; never stored
+  hasSecret?: boolean;
+}
+
+// Secrets are only accepted on save, kept encrypted in brapi_endpoint_secrets, and never returned
+export interface BrAPIEndpointSecrets {
+  token?: string;
+  password?: string;
+  clientSecret?: string;
+}
+
+// The secret each auth type needs
+const SECRET_FIELDS: Record<BrAPIAuthType, keyof BrAPIEndpointSecrets | null> = {
+  none: null,
+  bearer: 'token',
+  basic: 'password',
+  oauth2: 'clientSecret'
+};
+
+// Fetch a new OAuth2 token this long before the current one expires
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+const TOKEN_REQUEST_TIMEOUT_MS = 10000;
+
+const secretsCache = new Map<string, BrAPIEndpointSecrets | null>();
+const tokenCache = new Map<string, { accessToken: string; expiresAt: number }>();
+
+async function loadSecrets(userId: number, endpointId: string): Promise<BrAPIEndpointSecrets | null> {
+  if (secretsCache.has(endpointId)) {
+    return secretsCache.get(endpointId)!;
+  }
+
+  const rows = await executeQuery<{ ciphertext: string }>(
+    'SELECT ciphertext FROM brapi_endpoint_secrets WHERE user_id = ? AND endpoint_id = ?',
+    [userId, endpointId]
+  );
+  const secrets = rows.length > 0 ? JSON.parse(decryptSecret(rows[0].ciphertext)) : null;
+  secretsCache.set(endpointId, secrets);
+  return secrets;
+}
+
+async function listSecretEndpointIds(userId: number): Promise<Set<string>> {
+  const rows = await executeQuery<{ endpoint_id: string }>(
+    'SELECT endpoint_id FROM brapi_endpoint_secrets WHERE user_id = ?',
+    [userId]
+  );
+  return new Set(rows.map(row => row.endpoint_id));
+}
+
+// A stored secret is only sent where it was entered for, so it's kept only while the auth type and
+// everything that decides where it goes (endpoint URL, token URL and client ID, or username) are unchanged
+function keepsStoredSecret(previous: BrAPIEndpoint | undefined, url: string, auth: BrAPIEndpointAuth): boolean {
+  return !!previous?.auth &&
+    previous.url === url &&
+    previous.auth.type === auth.type &&
+    previous.auth.username === auth.username &&
+    previous.auth.tokenUrl === auth.tokenUrl &&
+    previous.auth.clientId === auth.clientId;
+}
+
+// Read the auth settings submitted with an endpoint, separating out its secret
+function parseAuth(input: unknown, endpointName: string): { auth?: BrAPIEndpointAuth; secret?: string; error?: string } {
+  if (input === undefined || input === null) {
+    return {};
+  }
+  const raw = input as Record<string, unknown>;
+  const type = raw.type as BrAPIAuthType;
+  if (!BRAPI_AUTH_TYPES.includes(type)) {
+    return { error: `auth.type for ${endpointName} must be one of: ${BRAPI_AUTH_TYPES.join(', ')}` };
+  }
+
+  const text = (key: string) => typeof raw[key] === 'string' && (raw[key] as string).trim() ? (raw[key] as string).trim() : undefined;
+  const secretField = SECRET_FIELDS[type];
+  const secret = secretField ? text(secretField) : undefined;
+
+  if (type === 'basic') {
+    if (!text('username')) {
+      return { error: `A username is required for basic auth on ${endpointName}` };
+    }
+    return { auth: { type, username: text('username') }, secret };
+  }
+
+  if (type === 'oauth2') {
+    const tokenUrl = text('tokenUrl');
+    if (!tokenUrl || !text('clientId')) {
+      return { error: `A token URL and client ID are required for OAuth2 on ${endpointName}` };
+    }
+    try {
+      new URL(tokenUrl);
+    } catch {
+      return { error: `Invalid token URL for endpoint: ${endpointName}` };
+    }
+    return { auth: { type, tokenUrl, clientId: text('clientId'), scope: text('scope') }, secret };
+  }
+
+  return { auth: { type }, secret };
+}
+
+// Validate the endpoints' auth settings, store any submitted secrets encrypted, and drop secrets of
+// endpoints that were removed or no longer need one. A secret left blank keeps the stored one, as long
+// as the endpoint still sends it to the same place; `previous` are the endpoints as last saved.
+// Returns the endpoints with secrets stripped, ready to save as the brapi_endpoints preference.
+export async function saveEndpointSecrets(
+  userId: number,
+  endpoints: (BrAPIEndpoint & { auth?: unknown })[],
+  previous: BrAPIEndpoint[]
+): Promise<{ endpoints: BrAPIEndpoint[]; error?: undefined } | { endpoints?: undefined; error: string }> {
+  const stored = await listSecretEndpointIds(userId);
+  const writes: { endpointId: string; secrets: BrAPIEndpointSecrets }[] = [];
+  const keep = new Set<string>();
+  const sanitized: BrAPIEndpoint[] = [];
+
+  for (const endpoint of endpoints) {
+    const { auth, secret, error } = parseAuth(endpoint.auth, endpoint.name);
+    if (error) {
+      return { error };
+    }
+
+    const secretField = auth ? SECRET_FIELDS[auth.type] : null;
+    if (secretField) {
+      if (secret) {
+        writes.push({ endpointId: endpoint.id, secrets: { [secretField]: secret } });
+      } else if (
+        !stored.has(endpoint.id) ||
+        !keepsStoredSecret(previous.find(p => p.id === endpoint.id), endpoint.url, auth!) ||
+        !(await loadSecrets(userId, endpoint.id))?.[secretField]
+      ) {
+        return { error: `A ${secretField === 'clientSecret' ? 'client secret' : secretField} is required for ${endpoint.name}` };
+      }
+      keep.add(endpoint.id);
+    }
+
+    sanitized.push({ ...endpoint, auth: auth && auth.type !== 'none' ? auth : undefined });
+  }
+
+  // Encrypt everything before writing anything, so a missing key doesn't leave a partial save
+  const encrypted = writes.map(({ endpointId, secrets }) => ({ endpointId, ciphertext: encryptSecret(JSON.stringify(secrets)) }));
+  for (const { endpointId, ciphertext } of encrypted) {
+    await executeQuery(
+      `INSERT INTO brapi_endpoint_secrets (user_id, endpoint_id, ciphertext)
+       VALUES (?, ?, ?)
+       ON DUPLICATE KEY UPDATE ciphertext = VALUES(ciphertext)`,
+      [userId, endpointId, ciphertext]
+    );
+  }
+  for (const endpointId of stored) {
+    if (!keep.has(endpointId)) {
+      await executeQuery(
+        'DELETE FROM brapi_endpoint_secrets WHERE user_id = ? AND endpoint_id = ?',
+        [userId, endpointId]
+      );
+    }
+  }
+
+  clearAuthCache();
+  return { endpoints: sanitized };
+}
+
+// Endpoints as returned by the settings API: auth settings plus whether a secret is stored, never the secret
+export async function withSecretStatus(userId: number, endpoints: BrAPIEndpoint[]): Promise<BrAPIEndpoint[]> {
+  const stored = await listSecretEndpointIds(userId);
+  return endpoints.map(endpoint => {
+    if (!endpoint.auth) {
+      return endpoint;
+    }
+    const { type, username, tokenUrl, clientId, scope } = endpoint.auth;
+    return { ...endpoint, auth: { type, username, tokenUrl, clientId, scope, hasSecret: stored.has(endpoint.id) } };
+  });
+}
+
+async function fetchAccessToken(endpoint: BrAPIEndpoint, secrets: BrAPIEndpointSecrets): Promise<string> {
+  const auth = endpoint.auth!;
+  const body = new URLSearchParams({ grant_type: 'client_credentials' });
+  if (auth.scope) body.append('scope', auth.scope);
+
+  const response = await fetch(auth.tokenUrl!, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Authorization': `Basic ${Buffer.from(`${encodeURIComponent(auth.clientId!)}:${encodeURIComponent(secrets.clientSecret || '')}`).toString('base64')}`
+    },
+    body,
+    signal: AbortSignal.timeout(TOKEN_REQUEST_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`OAuth2 token request for ${endpoint.name} failed (${response.status}): ${errorText}`);
+  }
+
+  const data = await response.json();
+  if (!data.access_token) {
+    throw new Error(`OAuth2 token response for ${endpoint.name} has no access_token`);
+  }
+
+  // Servers that don't say how long a token lasts get it refreshed after five minutes
+  const expiresIn = typeof data.expires_in === 'number' ? data.expires_in : 300;
+  tokenCache.set(endpoint.id, { accessToken: data.access_token, expiresAt: Date.now() + expiresIn * 1000 });
+  return data.access_token;
+}
+
+// The Authorization header for an endpoint, fetching or refreshing its OAuth2 token as needed
+export async function getAuthHeaders(userId: number, endpoint: BrAPIEndpoint): Promise<Record<string, string>> {
+  const auth = endpoint.auth;
+  if (!auth || auth.type === 'none') {
+    return {};
+  }
+
+  const secrets = await loadSecrets(userId, endpoint.id);
+  if (!secrets) {
+    throw new Error(`No credentials stored for BrAPI endpoint '${endpoint.name}'. Re-enter them in Settings.`);
+  }
+
+  switch (auth.type) {
+    case 'bearer':
+      return { 'Authorization': `Bearer ${secrets.token}` };
+    case 'basic':
+      return { 'Authorization': `Basic ${Buffer.from(`${auth.username}:${secrets.password}`).toString('base64')}` };
+    case 'oauth2': {
+      const cached = tokenCache.get(endpoint.id);
+      const accessToken = cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()
+        ? cached.accessToken
+        : await fetchAccessToken(endpoint, secrets);
+      return { 'Authorization': `Bearer ${accessToken}` };
+    }
+  }
+}
+
+// Forget an OAuth2 token the server rejected, so the next request fetches a new one
+export function invalidateAccessToken(endpointId: string): boolean {
+  return tokenCache.delete(endpointId);
+}
+
+export function clearAuthCache(): void {
+  secretsCache.clear();
+  tokenCache.clear();
+}
@@ -1,4 +1,5 @@
 import { getUserPreference } from './mysql';
+import { getAuthHeaders, invalidateAccessToken, clearAuthCache, BrAPIEndpointAuth } from './brapi-auth';
 
 // Temporary user ID - matches settings implementation
 const TEMP_USER_ID = 1;
@@ -9,13 +10,37 @@ export interface BrAPIEndpoint {
   name: string;
   url: string;
   isActive: boolean;
+  // Whether federated searches include this endpoint; endpoints saved before the option existed are included
+  federated?: boolean;
+  // How requests to this endpoint authenticate; unset sends no credentials
+  auth?: BrAPIEndpointAuth;
+}
+
+export interface BrAPIRequestOptions {
+  // Abort the request after this long; unset waits as long as fetch does
+  timeoutMs?: number;
+  // Time (ms since the epoch) by which an operation of several requests, like a queued search, must
+  // finish; each request is cut short to fit, and once it has passed no more are sent
+  deadline?: number;
+}
+
+export class BrAPITimeoutError extends Error {
+  constructor(public endpointName: string, public timeoutMs: number) {
+    super(`BrAPI endpoint '${endpointName}' did not respond within ${timeoutMs} ms`);
+    this.name = 'BrAPITimeoutError';
+  }
 }
 
 export interface GermplasmSearchParams {
   germplasmName?: string;
+  // Match any of these names; needs an endpoint that supports POST /search/germplasm
+  germplasmNames?: string[];
+  // Also match the names against synonyms; needs POST /search/germplasm
   synonyms?: boolean;
   accessionNumber?: string;
   commonCropName?: string;
+  // Match any of these crops; needs POST /search/germplasm
+  commonCropNames?: string[];
   genus?: string;
   species?: string;
   page?: number;
@@ -25,6 +50,7 @@ export interface GermplasmSearchParams {
 export interface GermplasmEntry {
   germplasmDbId: string;
   germplasmName: string;
+  germplasmPUI?: string;
   accessionNumber?: string;
   defaultDisplayName: string;
   synonyms?: string[];
@@ -49,6 +75,346 @@ export interface GermplasmEntry {
   }>;
 }
 
+export interface ExternalReference {
+  referenceId: string;
+  referenceSource: string;
+}
+
+// Paging shared by every BrAPI list call; pages are 0-based
+export interface BrAPIPageParams {
+  page?: number;
+  pageSize?: number;
+}
+
+// BrAPI Core
+
+export interface ProgramListParams extends BrAPIPageParams {
+  programName?: string;
+  abbreviation?: string;
+  commonCropName?: string;
+}
+
+export interface BrAPIProgram {
+  programDbId: string;
+  programName: string;
+  abbreviation?: string;
+  commonCropName?: string;
+  objective?: string;
+  leadPersonName?: string;
+  documentationURL?: string;
+  additionalInfo?: Record<string, unknown>;
+  externalReferences?: ExternalReference[];
+}
+
+export interface TrialListParams extends BrAPIPageParams {
+  programDbId?: string;
+  trialName?: string;
+  commonCropName?: string;
+  locationDbId?: string;
+  active?: boolean;
+}
+
+export interface BrAPITrial {
+  trialDbId: string;
+  trialName: string;
+  trialDescription?: string;
+  programDbId?: string;
+  programName?: string;
+  commonCropName?: string;
+  startDate?: string;
+  endDate?: string;
+  active?: boolean;
+  documentationURL?: string;
+  additionalInfo?: Record<string, unknown>;
+  externalReferences?: ExternalReference[];
+}
+
+export interface StudyListParams extends BrAPIPageParams {
+  trialDbId?: string;
+  programDbId?: string;
+  locationDbId?: string;
+  studyName?: string;
+  studyType?: string;
+  commonCropName?: string;
+  germplasmDbId?: string;
+  observationVariableDbId?: string;
+  seasonDbId?: string;
+  active?: boolean;
+}
+
+export interface BrAPIStudy {
+  studyDbId: string;
+  studyName: string;
+  studyDescription?: string;
+  studyType?: string;
+  trialDbId?: string;
+  trialName?: string;
+  locationDbId?: string;
+  locationName?: string;
+  commonCropName?: string;
+  seasons?: string[];
+  startDate?: string;
+  endDate?: string;
+  active?: boolean;
+  culturalPractices?: string;
+  observationUnitsDescription?: string;
+  experimentalDesign?: {
+    PUI?: string;
+    description?: string;
+  };
+  documentationURL?: string;
+  additionalInfo?: Record<string, unknown>;
+  externalReferences?: ExternalReference[];
+}
+
+export interface LocationListParams extends BrAPIPageParams {
+  locationName?: string;
+  locationType?: string;
+  countryCode?: string;
+  abbreviation?: string;
+}
+
+export interface BrAPILocation {
+  locationDbId: string;
+  locationName: string;
+  locationType?: string;
+  abbreviation?: string;
+  countryCode?: string;
+  countryName?: string;
+  instituteName?: string;
+  instituteAddress?: string;
+  // GeoJSON; a Point's coordinates are [longitude, latitude, altitude?]
+  coordinates?: {
+    geometry?: {
+      type: string;
+      coordinates: unknown;
+    };
+    type?: string;
+  };
+  documentationURL?: string;
+  additionalInfo?: Record<string, unknown>;
+  externalReferences?: ExternalReference[];
+}
+
+// BrAPI Phenotyping
+
+export interface ObservationUnitListParams extends BrAPIPageParams {
+  studyDbId?: string;
+  trialDbId?: string;
+  programDbId?: string;
+  locationDbId?: string;
+  germplasmDbId?: string;
+  observationUnitDbId?: string;
+  observationLevel?: string;
+  seasonDbId?: string;
+}
+
+export interface BrAPIObservationUnit {
+  observationUnitDbId: string;
+  observationUnitName?: string;
+  observationUnitPUI?: string;
+  germplasmDbId?: string;
+  germplasmName?: string;
+  studyDbId?: string;
+  studyName?: string;
+  trialDbId?: string;
+  trialName?: string;
+  locationDbId?: string;
+  locationName?: string;
+  programDbId?: string;
+  programName?: string;
+  observationUnitPosition?: {
+    entryType?: string;
+    observationLevel?: {
+      levelName?: string;
+      levelCode?: string;
+      levelOrder?: number;
+    };
+    positionCoordinateX?: string;
+    positionCoordinateY?: string;
+  };
+  additionalInfo?: Record<string, unknown>;
+  externalReferences?: ExternalReference[];
+}
+
+export interface ObservationVariableListParams extends BrAPIPageParams {
+  observationVariableDbId?: string;
+  observationVariableName?: string;
+  studyDbId?: string;
+  traitClass?: string;
+  commonCropName?: string;
+}
+
+// A variable is a trait measured by a method on a scale
+export interface BrAPIObservationVariable {
+  observationVariableDbId: string;
+  observationVariableName: string;
+  observationVariablePUI?: string;
+  commonCropName?: string;
+  status?: string;
+  synonyms?: string[];
+  trait: {
+    traitDbId?: string;
+    traitName?: string;
+    traitClass?: string;
+    traitDescription?: string;
+    entity?: string;
+    attribute?: string;
+  };
+  method: {
+    methodDbId?: string;
+    methodName?: string;
+    methodClass?: string;
+    description?: string;
+    formula?: string;
+  };
+  scale: {
+    scaleDbId?: string;
+    scaleName?: string;
+    dataType?: string;
+    decimalPlaces?: number;
+    validValues?: {
+      min?: number;
+      max?: number;
+      categories?: Array<{
+        label?: string;
+        value: string;
+      }>;
+    };
+  };
+  ontologyReference?: {
+    ontologyDbId?: string;
+    ontologyName?: string;
+    version?: string;
+  };
+  additionalInfo?: Record<string, unknown>;
+  externalReferences?: ExternalReference[];
+}
+
+export interface ObservationListParams extends BrAPIPageParams {
+  studyDbId?: string;
+  trialDbId?: string;
+  programDbId?: string;
+  locationDbId?: string;
+  observationUnitDbId?: string;
+  germplasmDbId?: string;
+  observationVariableDbId?: string;
+  seasonDbId?: string;
+  observationTimeStampRangeStart?: string;
+  observationTimeStampRangeEnd?: string;
+}
+
+export interface BrAPIObservation {
+  observationDbId: string;
+  observationUnitDbId: string;
+  observationUnitName?: string;
+  observationVariableDbId: string;
+  observationVariableName?: string;
+  germplasmDbId?: string;
+  germplasmName?: string;
+  studyDbId?: string;
+  value: string;
+  observationTimeStamp?: string;
+  collector?: string;
+  season?: {
+    seasonDbId?: string;
+    seasonName?: string;
+    year?: number;
+  };
+  additionalInfo?: Record<string, unknown>;
+  externalReferences?: ExternalReference[];
+}
+
+// Body of a BrAPI v2 POST /search/germplasm request; each list matches any of its values
+interface GermplasmSearchRequest {
+  germplasmNames?: string[];
+  synonyms?: string[];
+  accessionNumbers?: string[];
+  commonCropNames?: string[];
+  genus?: string[];
+  species?: string[];
+  page?: number;
+  pageSize?: number;
+}
+
+// A call listed by an endpoint's /serverinfo
+export interface BrAPIServerCall {
+  service: string;
+  methods: string[];
+  versions: string[];
+  dataTypes: string[];
+}
+
+// What an endpoint says about itself in /serverinfo
+export interface BrAPICapabilities {
+  endpointId: string;
+  endpointName: string;
+  url: string;
+  serverName?: string;
+  serverDescription?: string;
+  organizationName?: string;
+  calls: BrAPIServerCall[];
+  fetchedAt: string;
+}
+
+export class BrAPIUnsupportedCallError extends Error {
+  constructor(public endpointName: string, public method: string, public service: string) {
+    super(`BrAPI endpoint '${endpointName}' does not support ${method} /${service} (it is not listed in the endpoint's /serverinfo)`);
+    this.name = 'BrAPIUnsupportedCallError';
+  }
+}
+
+// Capabilities are refetched after an hour; an endpoint whose /serverinfo couldn't be read is asked
+// again after a minute, so a down endpoint doesn't stall every request
+const CAPABILITIES_TTL_MS = 60 * 60 * 1000;
+const CAPABILITIES_RETRY_MS = 60 * 1000;
+const CAPABILITIES_TIMEOUT_MS = 10000;
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+// Service paths compare without leading slashes and with any {placeholder} name
+const normalizeService = (service: string) => service.replace(/^\/+/, '').replace(/\{[^}]*\}/g, '{}');
+
+// Accepts BrAPI v2 calls and the v1 form (`call`, `datatypes`)
+function parseServerCall(raw: Record<string, unknown>): BrAPIServerCall | null {
+  const service = typeof raw.service === 'string' ? raw.service : raw.call;
+  if (typeof service !== 'string' || !service) {
+    return null;
+  }
+  return {
+    service: service.replace(/^\/+/, ''),
+    methods: toStringList(raw.methods).map(method => method.toUpperCase()),
+    versions: toStringList(raw.versions),
+    dataTypes: toStringList(raw.dataTypes ?? raw.datatypes)
+  };
+}
+
+// Returned with 202 Accepted when a server queues a search instead of answering it right away
+interface BrAPISearchAccepted {
+  result: {
+    searchResultsDbId: string;
+  };
+}
+
+// Polling for queued search results starts at the initial delay and doubles up to the maximum.
+// The search, including the initial POST and every poll, gives up after the timeout (or the request's
+// own timeoutMs or deadline, when set)
+const SEARCH_POLL_INITIAL_DELAY_MS = 500;
+const SEARCH_POLL_MAX_DELAY_MS = 5000;
+const SEARCH_POLL_TIMEOUT_MS = 60000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// How long a request may take: its own timeout, cut short by the operation's deadline
+function requestTimeout(options: BrAPIRequestOptions): number | undefined {
+  if (options.deadline === undefined) {
+    return options.timeoutMs;
+  }
+  const remaining = options.deadline - Date.now();
+  return options.timeoutMs === undefined ? remaining : Math.min(options.timeoutMs, remaining);
+}
+
 export interface BrAPIResponse<T> {
   metadata: {
     datafiles: string[];
@@ -79,37 +445,100 @@ export interface BrAPISingleResponse<T> {
   result: T;
 }
 
+// Most servers cap pageSize; larger requests are split into pages of this size
+export const BRAPI_MAX_PAGE_SIZE = 100;
+
+export interface BrAPIPage<T> {
+  data: T[];
+  // Matching entries on the server, or what was fetched when the server doesn't say
+  totalCount: number;
+  hasMore: boolean;
+}
+
+// Fetch `limit` entries starting at page `page` (counted in units of `limit`) from a paged list call,
+// e.g. collectPages((page, pageSize) => brapiClient.listObservations({ studyDbId, page, pageSize }), 500).
+// Limits over BRAPI_MAX_PAGE_SIZE are fetched a server page at a time, stopping at the last page.
+export async function collectPages<T>(
+  fetchPage: (page: number, pageSize: number) => Promise<BrAPIResponse<T>>,
+  limit: number,
+  page: number = 0
+): Promise<BrAPIPage<T>> {
+  const start = page * limit;
+  const pageSize = Math.min(limit, BRAPI_MAX_PAGE_SIZE);
+  let serverPage = Math.floor(start / pageSize);
+  let skip = start % pageSize;
+  const data: T[] = [];
+  let totalCount: number | undefined;
+
+  while (data.length < limit) {
+    const response = await fetchPage(serverPage, pageSize);
+    const entries = response.result?.data || [];
+    totalCount = response.metadata?.pagination?.totalCount ?? totalCount;
+    data.push(...entries.slice(skip, skip + limit - data.length));
+    skip = 0;
+
+    const totalPages = response.metadata?.pagination?.totalPages;
+    serverPage++;
+    if (entries.length < pageSize || (totalPages !== undefined && serverPage >= totalPages)) {
+      break;
+    }
+  }
+
+  const total = totalCount ?? start + data.length;
+  return { data, totalCount: total, hasMore: start + data.length < total };
+}
+
 export class BrAPIClient {
-  private activeEndpoint: BrAPIEndpoint | null = null;
+  private endpoints: BrAPIEndpoint[] | null = null;
+  private capabilities = new Map<string, { capabilities?: BrAPICapabilities; error?: string; expiresAt: number }>();
 
-  async getActiveEndpoint(): Promise<BrAPIEndpoint | null> {
-    if (this.activeEndpoint) {
-      return this.activeEndpoint;
+  async getEndpoints(): Promise<BrAPIEndpoint[]> {
+    if (this.endpoints) {
+      return this.endpoints;
     }
 
     try {
       const endpointsData = await getUserPreference(TEMP_USER_ID, BRAPI_ENDPOINTS_KEY);
-      if (!endpointsData) {
-        return null;
-      }
-
-      const endpoints: BrAPIEndpoint[] = JSON.parse(endpointsData);
-      const activeEndpoint = endpoints.find(ep => ep.isActive);
-      
-      this.activeEndpoint = activeEndpoint || null;
-      return this.activeEndpoint;
+      this.endpoints = endpointsData ? JSON.parse(endpointsData) : [];
+      return this.endpoints!;
     } catch (error) {
-      console.error('Error retrieving active BrAPI endpoint:', error);
-      return null;
+      console.error('Error retrieving BrAPI endpoints:', error);
+      return [];
     }
   }
 
-  private async makeRequest<T>(path: string, params?: Record<string, string>): Promise<BrAPIResponse<T>> {
-    const endpoint = await this.getActiveEndpoint();
-    if (!endpoint) {
+  // Look up a configured endpoint by id or (case-insensitive) name
+  async findEndpoint(ref: string): Promise<BrAPIEndpoint | null> {
+    const endpoints = await this.getEndpoints();
+    return endpoints.find(ep => ep.id === ref || ep.name.toLowerCase() === ref.toLowerCase()) || null;
+  }
+
+  async getActiveEndpoint(): Promise<BrAPIEndpoint | null> {
+    const endpoints = await this.getEndpoints();
+    return endpoints.find(ep => ep.isActive) || null;
+  }
+
+  // Endpoints a federated search fans out to
+  async getFederatedEndpoints(): Promise<BrAPIEndpoint[]> {
+    const endpoints = await this.getEndpoints();
+    return endpoints.filter(ep => ep.federated !== false);
+  }
+
+  private async requireEndpoint(endpoint?: BrAPIEndpoint): Promise<BrAPIEndpoint> {
+    const target = endpoint || await this.getActiveEndpoint();
+    if (!target) {
       throw new Error('No active BrAPI endpoint configured. Please configure an endpoint in Settings.');
     }
+    return target;
+  }
 
+  private async fetchJson<T>(
+    endpoint: BrAPIEndpoint,
+    path: string,
+    params?: Record<string, string>,
+    options: BrAPIRequestOptions = {},
+    body?: unknown
+  ): Promise<T> {
     // Ensure URL ends with /brapi/v2 if not already present
     let baseUrl = endpoint.url.replace(/\/+$/, ''); // Remove trailing slashes
     if (!baseUrl.includes('/brapi/')) {
@@ -127,13 +556,36 @@ export class BrAPIClient {
       });
     }
 
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    });
+    const send = async () => {
+      const timeoutMs = requestTimeout(options);
+      if (timeoutMs !== undefined && timeoutMs <= 0) {
+        throw new BrAPITimeoutError(endpoint.name, options.timeoutMs ?? 0);
+      }
+      try {
+        return await fetch(url.toString(), {
+          method: body === undefined ? 'GET' : 'POST',
+          headers: {
+            'Accept': 'application/json',
+            'Content-Type': 'application/json',
+            ...await getAuthHeaders(TEMP_USER_ID, endpoint),
+          },
+          body: body === undefined ? undefined : JSON.stringify(body),
+          signal: timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined,
+        });
+      } catch (error) {
+        if (error instanceof Error && error.name === 'TimeoutError') {
+          throw new BrAPITimeoutError(endpoint.name, options.timeoutMs ?? timeoutMs!);
+        }
+        throw error;
+      }
+    };
+
+    let response = await send();
+
+    // An OAuth2 token can be revoked before it expires; get a fresh one and retry once
+    if (response.status === 401 && endpoint.auth?.type === 'oauth2' && invalidateAccessToken(endpoint.id)) {
+      response = await send();
+    }
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -143,68 +595,248 @@ export class BrAPIClient {
     return await response.json();
   }
 
-  private async makeSingleRequest<T>(path: string, params?: Record<string, string>): Promise<BrAPISingleResponse<T>> {
-    const endpoint = await this.getActiveEndpoint();
-    if (!endpoint) {
-      throw new Error('No active BrAPI endpoint configured. Please configure an endpoint in Settings.');
-    }
+  private async makeRequest<T>(
+    path: string,
+    params?: Record<string, string>,
+    endpoint?: BrAPIEndpoint,
+    options?: BrAPIRequestOptions
+  ): Promise<BrAPIResponse<T>> {
+    return this.fetchJson<BrAPIResponse<T>>(await this.requireEndpoint(endpoint), path, params, options);
+  }
 
-    // Ensure URL ends with /brapi/v2 if not already present
-    let baseUrl = endpoint.url.replace(/\/+$/, ''); // Remove trailing slashes
-    if (!baseUrl.includes('/brapi/')) {
-      baseUrl += '/brapi/v2';
-    }
+  private async makeSingleRequest<T>(
+    path: string,
+    params?: Record<string, string>,
+    endpoint?: BrAPIEndpoint,
+    options?: BrAPIRequestOptions
+  ): Promise<BrAPISingleResponse<T>> {
+    return this.fetchJson<BrAPISingleResponse<T>>(await this.requireEndpoint(endpoint), path, params, options);
+  }
 
-    const url = new URL(`${baseUrl}${path}`);
-    
-    // Add query parameters
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null && value !== '') {
-          url.searchParams.append(key, value);
+  // Run a BrAPI v2 search: POST the request to /search/{service}, and if the server queues it
+  // (202 with a searchResultsDbId), poll GET /search/{service}/{searchResultsDbId} with backoff
+  private async runSearch<T, R extends { page?: number; pageSize?: number } = { page?: number; pageSize?: number }>(
+    endpoint: BrAPIEndpoint,
+    service: string,
+    request: R,
+    options: BrAPIRequestOptions = {}
+  ): Promise<BrAPIResponse<T>> {
+    const started = Date.now();
+    const deadline = options.deadline ?? started + (options.timeoutMs || SEARCH_POLL_TIMEOUT_MS);
+    // The limit reported on timeout: the caller's timeout when given, else the time the deadline allowed
+    const limitMs = options.timeoutMs || deadline - started;
+    const requestOptions = { ...options, deadline };
+    const pageParams: Record<string, string> = {};
+    if (request.page !== undefined) pageParams.page = request.page.toString();
+    if (request.pageSize !== undefined) pageParams.pageSize = request.pageSize.toString();
+
+    try {
+      let response = await this.fetchJson<BrAPIResponse<T> | BrAPISearchAccepted>(
+        endpoint, `/search/${service}`, undefined, requestOptions, request
+      );
+      let delay = SEARCH_POLL_INITIAL_DELAY_MS;
+
+      while (response.result && !('data' in response.result) && 'searchResultsDbId' in response.result) {
+        if (Date.now() + delay > deadline) {
+          throw new BrAPITimeoutError(endpoint.name, limitMs);
         }
-      });
+        await sleep(delay);
+        delay = Math.min(delay * 2, SEARCH_POLL_MAX_DELAY_MS);
+
+        response = await this.fetchJson<BrAPIResponse<T> | BrAPISearchAccepted>(
+          endpoint,
+          `/search/${service}/${encodeURIComponent(response.result.searchResultsDbId)}`,
+          pageParams,
+          requestOptions
+        );
+      }
+
+      return response as BrAPIResponse<T>;
+    } catch (error) {
+      // A request cut short by the deadline reports only what was left of it
+      if (error instanceof BrAPITimeoutError) {
+        throw new BrAPITimeoutError(endpoint.name, limitMs);
+      }
+      throw error;
     }
+  }
 
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    });
+  // An endpoint's /serverinfo, cached per endpoint. Throws when it can't be read.
+  async getCapabilities(
+    endpoint?: BrAPIEndpoint,
+    options: BrAPIRequestOptions & { refresh?: boolean } = {}
+  ): Promise<BrAPICapabilities> {
+    const target = await this.requireEndpoint(endpoint);
+    const cached = this.capabilities.get(target.id);
+    if (cached && cached.expiresAt > Date.now() && !options.refresh) {
+      if (cached.capabilities) {
+        return cached.capabilities;
+      }
+      throw new Error(cached.error);
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`BrAPI request failed (${response.status}): ${errorText}`);
+    try {
+      const response = await this.fetchJson<BrAPISingleResponse<Record<string, unknown>>>(
+        target, '/serverinfo', undefined, { timeoutMs: options.timeoutMs || CAPABILITIES_TIMEOUT_MS, deadline: options.deadline }
+      );
+      const info = response.result || {};
+      const text = (key: string) => typeof info[key] === 'string' ? info[key] as string : undefined;
+      const capabilities: BrAPICapabilities = {
+        endpointId: target.id,
+        endpointName: target.name,
+        url: target.url,
+        serverName: text('serverName'),
+        serverDescription: text('serverDescription'),
+        organizationName: text('organizationName'),
+        calls: (Array.isArray(info.calls) ? info.calls : [])
+          .map(call => parseServerCall(call as Record<string, unknown>))
+          .filter((call): call is BrAPIServerCall => call !== null),
+        fetchedAt: new Date().toISOString()
+      };
+      this.capabilities.set(target.id, { capabilities, expiresAt: Date.now() + CAPABILITIES_TTL_MS });
+      return capabilities;
+    } catch (error) {
+      const message = `Could not read /serverinfo from ${target.name}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      // Running out of a caller's deadline says nothing about the endpoint, so only other failures are cached
+      if (options.deadline === undefined || Date.now() < options.deadline) {
+        this.capabilities.set(target.id, { error: message, expiresAt: Date.now() + CAPABILITIES_RETRY_MS });
+      }
+      throw new Error(message);
     }
+  }
 
-    return await response.json();
+  // Whether an endpoint advertises a call, e.g. getCallSupport('germplasm/{germplasmDbId}', 'GET'), for the
+  // BrAPI v2 this client speaks. Null when unknown: /serverinfo couldn't be read or lists no calls.
+  async getCallSupport(
+    service: string,
+    method: string,
+    endpoint?: BrAPIEndpoint,
+    options?: BrAPIRequestOptions
+  ): Promise<boolean | null> {
+    let calls: BrAPIServerCall[];
+    try {
+      calls = (await this.getCapabilities(endpoint, options)).calls;
+    } catch (error) {
+      console.warn(error instanceof Error ? error.message : error);
+      return null;
+    }
+    if (calls.length === 0) {
+      return null;
+    }
+
+    const wanted = normalizeService(service);
+    return calls.some(call =>
+      normalizeService(call.service) === wanted &&
+      call.methods.includes(method.toUpperCase()) &&
+      (call.versions.length === 0 || call.versions.some(version => version.startsWith('2'))));
+  }
+
+  async supportsCall(
+    service: string,
+    method: string,
+    endpoint?: BrAPIEndpoint,
+    options?: BrAPIRequestOptions
+  ): Promise<boolean> {
+    return (await this.getCallSupport(service, method, endpoint, options)) === true;
+  }
+
+  // Fail fast on calls the endpoint says it doesn't support; calls are attempted when support is unknown
+  private async requireCall(
+    endpoint: BrAPIEndpoint,
+    service: string,
+    method: string,
+    options?: BrAPIRequestOptions
+  ): Promise<void> {
+    if ((await this.getCallSupport(service, method, endpoint, options)) === false) {
+      throw new BrAPIUnsupportedCallError(endpoint.name, method, service);
+    }
   }
 
-  async searchGermplasm(params: GermplasmSearchParams): Promise<BrAPIResponse<GermplasmEntry>> {
+  // Searches the active endpoint unless another is given. Uses POST /search/germplasm when the endpoint
+  // advertises it, since only a search request can match several names or crops, or synonyms.
+  async searchGermplasm(
+    params: GermplasmSearchParams,
+    endpoint?: BrAPIEndpoint,
+    options?: BrAPIRequestOptions
+  ): Promise<BrAPIResponse<GermplasmEntry>> {
+    const target = await this.requireEndpoint(endpoint);
+    const names = [...(params.germplasmNames || []), ...(params.germplasmName ? [params.germplasmName] : [])];
+    const crops = [...(params.commonCropNames || []), ...(params.commonCropName ? [params.commonCropName] : [])];
+
+    if (await this.supportsCall('search/germplasm', 'POST', target, options)) {
+      return this.searchGermplasmByRequest(target, {
+        germplasmNames: names.length > 0 ? names : undefined,
+        accessionNumbers: params.accessionNumber ? [params.accessionNumber] : undefined,
+        commonCropNames: crops.length > 0 ? crops : undefined,
+        genus: params.genus ? [params.genus] : undefined,
+        species: params.species ? [params.species] : undefined,
+        page: params.page,
+        pageSize: params.pageSize
+      }, !!params.synonyms, options);
+    }
+
+    if (names.length > 1 || crops.length > 1) {
+      throw new Error(`BrAPI endpoint '${target.name}' does not support POST /search/germplasm, so it can only be searched for one name and one crop at a time`);
+    }
+    await this.requireCall(target, 'germplasm', 'GET', options);
+
     const queryParams: Record<string, string> = {};
 
-    if (params.germplasmName) queryParams.germplasmName = params.germplasmName;
+    if (names.length > 0) queryParams.germplasmName = names[0];
     if (params.accessionNumber) queryParams.accessionNumber = params.accessionNumber;
-    if (params.commonCropName) queryParams.commonCropName = params.commonCropName;
+    if (crops.length > 0) queryParams.commonCropName = crops[0];
     if (params.genus) queryParams.genus = params.genus;
     if (params.species) queryParams.species = params.species;
     if (params.page !== undefined) queryParams.page = params.page.toString();
     if (params.pageSize !== undefined) queryParams.pageSize = params.pageSize.toString();
 
-    return await this.makeRequest<GermplasmEntry>('/germplasm', queryParams);
+    return await this.makeRequest<GermplasmEntry>('/germplasm', queryParams, target, options);
   }
 
-  async getGermplasmDetails(germplasmDbId: string): Promise<GermplasmEntry> {
-    const endpoint = await this.getActiveEndpoint();
-    console.log(`Fetching germplasm details for ID: ${germplasmDbId} from endpoint: ${endpoint?.name} (${endpoint?.url})`);
-    
+  // Search criteria are ANDed, so names and synonyms can't go in one request. With synonyms, the names
+  // are also searched as synonyms and the two pages merged, name matches first. The merged total counts
+  // entries matching both only once when they appear in the returned pages, so it may overstate.
+  private async searchGermplasmByRequest(
+    endpoint: BrAPIEndpoint,
+    request: GermplasmSearchRequest,
+    includeSynonyms: boolean,
+    options?: BrAPIRequestOptions
+  ): Promise<BrAPIResponse<GermplasmEntry>> {
+    if (!includeSynonyms || !request.germplasmNames) {
+      return this.runSearch<GermplasmEntry, GermplasmSearchRequest>(endpoint, 'germplasm', request, options);
+    }
+
+    const { germplasmNames, ...rest } = request;
+    const [byName, bySynonym] = await Promise.all([
+      this.runSearch<GermplasmEntry, GermplasmSearchRequest>(endpoint, 'germplasm', request, options),
+      this.runSearch<GermplasmEntry, GermplasmSearchRequest>(endpoint, 'germplasm', { ...rest, synonyms: germplasmNames }, options)
+    ]);
+
+    const seen = new Set(byName.result.data.map(entry => entry.germplasmDbId));
+    const synonymOnly = bySynonym.result.data.filter(entry => !seen.has(entry.germplasmDbId));
+    const overlap = bySynonym.result.data.length - synonymOnly.length;
+    const totalCount = (byName.metadata?.pagination?.totalCount ?? byName.result.data.length) +
+      (bySynonym.metadata?.pagination?.totalCount ?? bySynonym.result.data.length) - overlap;
+
+    return {
+      ...byName,
+      metadata: {
+        ...byName.metadata,
+        pagination: { ...byName.metadata?.pagination, totalCount }
+      },
+      result: { data: [...byName.result.data, ...synonymOnly] }
+    };
+  }
+
+  async getGermplasmDetails(germplasmDbId: string, target?: BrAPIEndpoint): Promise<GermplasmEntry> {
+    const endpoint = await this.requireEndpoint(target);
+    await this.requireCall(endpoint, 'germplasm/{germplasmDbId}', 'GET');
+    const path = `/germplasm/${encodeURIComponent(germplasmDbId)}`;
+
     try {
       // Try single item response format first (BrAPI v2 spec)
-      const response = await this.makeSingleRequest<GermplasmEntry>(`/germplasm/${germplasmDbId}`);
-      console.log('Single item response received:', JSON.stringify(response, null, 2));
-      
+      const response = await this.makeSingleRequest<GermplasmEntry>(path, undefined, endpoint);
+
       if (response.result && typeof response.result === 'object' && 'germplasmDbId' in response.result) {
         return response.result;
       }
@@ -215,9 +847,8 @@ export class BrAPIClient {
       
       // If single item format fails, try array format as fallback
       try {
-        const response = await this.makeRequest<GermplasmEntry>(`/germplasm/${germplasmDbId}`);
-        console.log('Array response received:', JSON.stringify(response, null, 2));
-        
+        const response = await this.makeRequest<GermplasmEntry>(path, undefined, endpoint);
+
         if (response.result.data && response.result.data.length > 0) {
           return response.result.data[0];
         }
@@ -242,6 +873,105 @@ export class BrAPIClient {
     }
   }
 
+  // GET a paged list call such as /trials, checking the endpoint supports it first.
+  // Undefined filters are left out; booleans and numbers are sent as strings.
+  private async listEntities<T>(
+    service: string,
+    params: object,
+    endpoint?: BrAPIEndpoint,
+    options?: BrAPIRequestOptions
+  ): Promise<BrAPIResponse<T>> {
+    const target = await this.requireEndpoint(endpoint);
+    await this.requireCall(target, service, 'GET', options);
+
+    const queryParams: Record<string, string> = {};
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        queryParams[key] = String(value);
+      }
+    });
+
+    return await this.makeRequest<T>(`/${service}`, queryParams, target, options);
+  }
+
+  // GET a single entity, e.g. getEntity('studies', 'studyDbId', id) calls /studies/{studyDbId}
+  private async getEntity<T>(
+    service: string,
+    idName: string,
+    id: string,
+    endpoint?: BrAPIEndpoint,
+    options?: BrAPIRequestOptions
+  ): Promise<T> {
+    const target = await this.requireEndpoint(endpoint);
+    await this.requireCall(target, `${service}/{${idName}}`, 'GET', options);
+
+    const response = await this.makeSingleRequest<T>(`/${service}/${encodeURIComponent(id)}`, undefined, target, options);
+    if (!response.result || typeof response.result !== 'object' || !(idName in response.result)) {
+      throw new Error(`No ${service} entry with ${idName} '${id}' on ${target.name}`);
+    }
+    return response.result;
+  }
+
+  async listPrograms(params: ProgramListParams = {}, endpoint?: BrAPIEndpoint, options?: BrAPIRequestOptions): Promise<BrAPIResponse<BrAPIProgram>> {
+    return this.listEntities<BrAPIProgram>('programs', params, endpoint, options);
+  }
+
+  async getProgram(programDbId: string, endpoint?: BrAPIEndpoint): Promise<BrAPIProgram> {
+    return this.getEntity<BrAPIProgram>('programs', 'programDbId', programDbId, endpoint);
+  }
+
+  async listTrials(params: TrialListParams = {}, endpoint?: BrAPIEndpoint, options?: BrAPIRequestOptions): Promise<BrAPIResponse<BrAPITrial>> {
+    return this.listEntities<BrAPITrial>('trials', params, endpoint, options);
+  }
+
+  async getTrial(trialDbId: string, endpoint?: BrAPIEndpoint): Promise<BrAPITrial> {
+    return this.getEntity<BrAPITrial>('trials', 'trialDbId', trialDbId, endpoint);
+  }
+
+  async listStudies(params: StudyListParams = {}, endpoint?: BrAPIEndpoint, options?: BrAPIRequestOptions): Promise<BrAPIResponse<BrAPIStudy>> {
+    return this.listEntities<BrAPIStudy>('studies', params, endpoint, options);
+  }
+
+  async getStudy(studyDbId: string, endpoint?: BrAPIEndpoint): Promise<BrAPIStudy> {
+    return this.getEntity<BrAPIStudy>('studies', 'studyDbId', studyDbId, endpoint);
+  }
+
+  async listLocations(params: LocationListParams = {}, endpoint?: BrAPIEndpoint, options?: BrAPIRequestOptions): Promise<BrAPIResponse<BrAPILocation>> {
+    return this.listEntities<BrAPILocation>('locations', params, endpoint, options);
+  }
+
+  async getLocation(locationDbId: string, endpoint?: BrAPIEndpoint): Promise<BrAPILocation> {
+    return this.getEntity<BrAPILocation>('locations', 'locationDbId', locationDbId, endpoint);
+  }
+
+  async listObservationUnits(
+    params: ObservationUnitListParams = {},
+    endpoint?: BrAPIEndpoint,
+    options?: BrAPIRequestOptions
+  ): Promise<BrAPIResponse<BrAPIObservationUnit>> {
+    return this.listEntities<BrAPIObservationUnit>('observationunits', params, endpoint, options);
+  }
+
+  async listObservationVariables(
+    params: ObservationVariableListParams = {},
+    endpoint?: BrAPIEndpoint,
+    options?: BrAPIRequestOptions
+  ): Promise<BrAPIResponse<BrAPIObservationVariable>> {
+    return this.listEntities<BrAPIObservationVariable>('variables', params, endpoint, options);
+  }
+
+  async getObservationVariable(observationVariableDbId: string, endpoint?: BrAPIEndpoint): Promise<BrAPIObservationVariable> {
+    return this.getEntity<BrAPIObservationVariable>('variables', 'observationVariableDbId', observationVariableDbId, endpoint);
+  }
+
+  async listObservations(
+    params: ObservationListParams = {},
+    endpoint?: BrAPIEndpoint,
+    options?: BrAPIRequestOptions
+  ): Promise<BrAPIResponse<BrAPIObservation>> {
+    return this.listEntities<BrAPIObservation>('observations', params, endpoint, options);
+  }
+
   async testConnection(): Promise<{ success: boolean; endpointName?: string; url?: string; error?: string }> {
     try {
       const endpoint = await this.getActiveEndpoint();
@@ -252,8 +982,8 @@ export class BrAPIClient {
         };
       }
 
-      // Test connection with a simple serverinfo call
-      await this.makeRequest('/serverinfo');
+      // Test connection with a serverinfo call, refreshing the endpoint's cached capabilities
+      await this.getCapabilities(endpoint, { refresh: true });
       
       return {
         success: true,
@@ -271,9 +1001,11 @@ export class BrAPIClient {
     }
   }
 
-  // Clear cached endpoint (useful when settings change)
+  // Clear cached endpoints (useful when settings change)
   clearCache(): void {
-    this.activeEndpoint = null;
+    this.endpoints = null;
+    this.capabilities.clear();
+    clearAuthCache();
   }
 }
 
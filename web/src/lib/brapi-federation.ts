@@ -0,0 +1,150 @@
+import { brapiClient, BrAPIEndpoint, BrAPITimeoutError, GermplasmEntry, GermplasmSearchParams } from './brapi-client';
+
+// A record of one endpoint's copy of a germplasm entry
+export interface GermplasmSource {
+  endpointId: string;
+  endpointName: string;
+  germplasmDbId: string;
+}
+
+// A germplasm entry merged across endpoints. Fields come from the first endpoint that returned it;
+// synonyms and external references are the union of all copies.
+export interface FederatedGermplasmEntry extends GermplasmEntry {
+  sources: GermplasmSource[];
+}
+
+export interface FederatedEndpointOutcome {
+  endpointId: string;
+  endpointName: string;
+  url: string;
+  status: 'ok' | 'timeout' | 'error';
+  returned: number;
+  total?: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface FederatedGermplasmSearch {
+  germplasm: FederatedGermplasmEntry[];
+  endpoints: FederatedEndpointOutcome[];
+}
+
+export const DEFAULT_FEDERATED_TIMEOUT_MS = 10000;
+
+// Identity keys for matching the same accession across genebanks. Accession numbers are only
+// unique within their holding institute, so they're qualified by the institute code when present.
+function identityKeys(entry: GermplasmEntry): string[] {
+  const keys: string[] = [];
+  if (entry.germplasmPUI) {
+    keys.push(`pui:${entry.germplasmPUI.trim().toLowerCase()}`);
+  }
+  if (entry.accessionNumber) {
+    keys.push(`accession:${(entry.instituteCode || '').trim().toLowerCase()}:${entry.accessionNumber.trim().toLowerCase()}`);
+  }
+  entry.externalReferences?.forEach(ref => {
+    if (ref.referenceId) {
+      keys.push(`ref:${(ref.referenceSource || '').trim().toLowerCase()}:${ref.referenceId.trim().toLowerCase()}`);
+    }
+  });
+  return keys;
+}
+
+function union<T>(a: T[] | undefined, b: T[] | undefined, key: (item: T) => string): T[] | undefined {
+  if (!a && !b) return undefined;
+  const merged = new Map<string, T>();
+  [...(a || []), ...(b || [])].forEach(item => {
+    if (!merged.has(key(item))) merged.set(key(item), item);
+  });
+  return [...merged.values()];
+}
+
+// Merge per-endpoint results, in endpoint order, into de-duplicated entries tagged with their sources.
+// Entries without any identity key are never merged.
+export function mergeGermplasm(
+  resultsByEndpoint: { endpoint: BrAPIEndpoint; germplasm: GermplasmEntry[] }[]
+): FederatedGermplasmEntry[] {
+  const merged: FederatedGermplasmEntry[] = [];
+  const byKey = new Map<string, FederatedGermplasmEntry>();
+
+  resultsByEndpoint.forEach(({ endpoint, germplasm }) => {
+    germplasm.forEach(entry => {
+      const keys = identityKeys(entry);
+      const source = { endpointId: endpoint.id, endpointName: endpoint.name, germplasmDbId: entry.germplasmDbId };
+      const existing = keys.map(key => byKey.get(key)).find(Boolean);
+
+      if (existing) {
+        // Fill gaps from the later copy without overwriting what the first endpoint said
+        Object.entries(entry).forEach(([field, value]) => {
+          const target = existing as unknown as Record<string, unknown>;
+          if (target[field] === undefined || target[field] === null || target[field] === '') {
+            target[field] = value;
+          }
+        });
+        existing.synonyms = union(existing.synonyms, entry.synonyms, synonym => synonym.toLowerCase());
+        existing.externalReferences = union(
+          existing.externalReferences,
+          entry.externalReferences,
+          ref => `${ref.referenceSource}:${ref.referenceId}`
+        );
+        if (!existing.sources.some(s => s.endpointId === source.endpointId && s.germplasmDbId === source.germplasmDbId)) {
+          existing.sources.push(source);
+        }
+        keys.forEach(key => byKey.set(key, existing));
+        return;
+      }
+
+      const created: FederatedGermplasmEntry = { ...entry, sources: [source] };
+      merged.push(created);
+      keys.forEach(key => byKey.set(key, created));
+    });
+  });
+
+  return merged;
+}
+
+// Run a germplasm search against several endpoints in parallel. Each endpoint gets timeoutMs for all
+// of its requests together (capabilities lookup, search and any polling), and failures are reported
+// per endpoint rather than failing the whole search.
+export async function federatedSearchGermplasm(
+  params: GermplasmSearchParams,
+  endpoints: BrAPIEndpoint[],
+  timeoutMs: number = DEFAULT_FEDERATED_TIMEOUT_MS
+): Promise<FederatedGermplasmSearch> {
+  const searches = await Promise.all(endpoints.map(async endpoint => {
+    const started = Date.now();
+    const outcome = { endpointId: endpoint.id, endpointName: endpoint.name, url: endpoint.url };
+    try {
+      const response = await brapiClient.searchGermplasm(params, endpoint, { timeoutMs, deadline: started + timeoutMs });
+      const germplasm = response.result?.data || [];
+      return {
+        endpoint,
+        germplasm,
+        outcome: {
+          ...outcome,
+          status: 'ok' as const,
+          returned: germplasm.length,
+          total: response.metadata?.pagination?.totalCount,
+          latencyMs: Date.now() - started
+        }
+      };
+    } catch (error) {
+      console.error(`Federated germplasm search failed for ${endpoint.name}:`, error);
+      return {
+        endpoint,
+        germplasm: [],
+        outcome: {
+          ...outcome,
+          status: error instanceof BrAPITimeoutError ? 'timeout' as const : 'error' as const,
+          returned: 0,
+          latencyMs: Date.now() - started,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }));
+
+  const outcomes: FederatedEndpointOutcome[] = searches.map(search => search.outcome);
+  const results = searches.filter(search => search.outcome.status === 'ok');
+
+  return { germplasm: mergeGermplasm(results), endpoints: outcomes };
+}
@@ -0,0 +1,109 @@
+import { solrClient, SolrDocument } from './solr-client';
+
+// Walks the catalog → schema → table/volume → column/file hierarchy indexed in Solr.
+// A path is the list of names from the catalog down, e.g. ['main', 'genomics'].
+
+const MAX_DEPTH = 3;
+const CHILD_LIMIT = 500;
+
+export interface BrowseNode {
+  id: string;
+  name: string;
+  type: string;
+  path: string[];
+  fullName: string;
+  description?: string;
+  // Number of immediate children, from facet counts
+  childCount: number;
+  hasChildren: boolean;
+}
+
+export interface BrowseResponse {
+  path: string[];
+  node: BrowseNode | null;
+  children: BrowseNode[];
+  total: number;
+  truncated: boolean;
+}
+
+// Split a dotted path into its names, or null if it is malformed or deeper than catalog.schema.table
+export function parseBrowsePath(path: string | null): string[] | null {
+  if (!path || !path.trim()) return [];
+  const parts = path.split('.').map(part => part.trim());
+  if (parts.length > MAX_DEPTH || parts.some(part => !part)) return null;
+  return parts;
+}
+
+const isLeafType = (type: string) => type === 'column' || type === 'file' || type === 'directory';
+
+function toBrowseNode(doc: SolrDocument, path: string[], childCount: number): BrowseNode {
+  return {
+    id: doc.id,
+    name: doc.name,
+    type: doc.type,
+    path,
+    fullName: doc.full_name,
+    description: doc.description || undefined,
+    childCount,
+    hasChildren: !isLeafType(doc.type) && childCount > 0
+  };
+}
+
+async function findNode(path: string[]): Promise<SolrDocument | null> {
+  const types = path.length === 1 ? ['catalog'] : path.length === 2 ? ['schema'] : ['table', 'volume'];
+  const results = await solrClient.search({ q: '*', types, fullName: path.join('.'), size: '1' });
+  return results.results[0] || null;
+}
+
+// Load the immediate children of the node at `path` (the catalogs when empty), each with its own
+// child count, or null if the node is not indexed
+export async function browseCatalog(path: string[]): Promise<BrowseResponse | null> {
+  const [catalog, schema] = path;
+  const nodeDoc = path.length > 0 ? await findNode(path) : null;
+  if (path.length > 0 && !nodeDoc) return null;
+
+  const size = CHILD_LIMIT.toString();
+  let children: BrowseNode[] = [];
+  let total = 0;
+
+  if (path.length === 0) {
+    const [catalogs, schemaCounts] = await Promise.all([
+      solrClient.search({ q: '*', type: 'catalog', size }),
+      solrClient.facetCounts({ type: 'schema' }, 'catalog_name')
+    ]);
+    total = catalogs.total;
+    children = catalogs.results.map(doc => toBrowseNode(doc, [doc.name], schemaCounts[doc.name] || 0));
+  } else if (path.length === 1) {
+    const [schemas, childCounts] = await Promise.all([
+      solrClient.search({ q: '*', type: 'schema', catalog, size }),
+      solrClient.facetCounts({ types: ['table', 'volume'], catalog }, 'schema_name')
+    ]);
+    total = schemas.total;
+    children = schemas.results.map(doc => toBrowseNode(doc, [catalog, doc.name], childCounts[doc.name] || 0));
+  } else if (path.length === 2) {
+    const [entities, columnCounts, fileCounts] = await Promise.all([
+      solrClient.search({ q: '*', types: ['table', 'volume'], catalog, schema, size }),
+      solrClient.facetCounts({ type: 'column', catalog, schema }, 'table_name'),
+      solrClient.facetCounts({ types: ['file', 'directory'], catalog, schema }, 'volume_name')
+    ]);
+    total = entities.total;
+    children = entities.results.map(doc => {
+      const counts = doc.type === 'volume' ? fileCounts : columnCounts;
+      return toBrowseNode(doc, [catalog, schema, doc.name], counts[doc.name] || 0);
+    });
+  } else if (nodeDoc!.type === 'table') {
+    const columns = await solrClient.search({ q: '*', type: 'column', catalog, schema, table: nodeDoc!.name, size });
+    total = columns.total;
+    children = columns.results.map(doc => toBrowseNode(doc, [...path, doc.name], 0));
+  } else {
+    // Volume files are listed flat, ordered by their path within the volume
+    const files = await solrClient.search({ q: '*', types: ['file', 'directory'], catalog, schema, volume: nodeDoc!.name, size });
+    total = files.total;
+    children = files.results
+      .map(doc => toBrowseNode(doc, [...path, doc.file_path || doc.name], 0))
+      .sort((a, b) => a.path[a.path.length - 1].localeCompare(b.path[b.path.length - 1]));
+  }
+
+  const node = nodeDoc ? toBrowseNode(nodeDoc, path, total) : null;
+  return { path, node, children, total, truncated: total > children.length };
+}
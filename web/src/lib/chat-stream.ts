@@ -0,0 +1,151 @@
+import type { EntityReference } from '@/mcp/types';
+
+export type { EntityReference };
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ToolCallInfo {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  // The arguments as the model sent them, kept when they aren't a JSON object
+  rawArguments?: string;
+  status: 'running' | 'success' | 'error';
+  durationMs?: number;
+  output?: string;
+  entities?: EntityReference[];
+}
+
+// Server-sent events emitted by POST /api/chat, one JSON object per `data:` line.
+// tool_start carries the tool's arguments as the JSON string the model sent, which may be malformed.
+export type ChatStreamEvent =
+  | { type: 'content'; content: string; conversationId: string }
+  | { type: 'tool_start'; toolCallId: string; name: string; arguments: string; conversationId: string }
+  | {
+      type: 'tool_result';
+      toolCallId: string;
+      name: string;
+      durationMs: number;
+      isError: boolean;
+      output: string;
+      entities: EntityReference[];
+      conversationId: string;
+    }
+  | { type: 'usage'; usage: TokenUsage; steps: number; conversationId: string }
+  | { type: 'citations'; entities: EntityReference[]; conversationId: string }
+  | { type: 'done'; conversationId: string }
+  | { type: 'error'; error: string };
+
+export function encodeChatStreamEvent(event: ChatStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+// Parse a tool call's argument string for display, keeping the raw string when it isn't a JSON object
+export function parseToolArguments(raw: string): Pick<ToolCallInfo, 'arguments' | 'rawArguments'> {
+  if (!raw) {
+    return { arguments: {} };
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return { arguments: parsed };
+    }
+  } catch {
+    // Fall through to the raw string
+  }
+  return { arguments: {}, rawArguments: raw };
+}
+
+// Fields of a chat message that are filled in from the event stream
+export interface StreamedMessage {
+  content: string;
+  toolCalls?: ToolCallInfo[];
+  citations?: EntityReference[];
+  usage?: TokenUsage;
+}
+
+// Apply a single stream event to the assistant message being built
+export function applyChatStreamEvent<T extends StreamedMessage>(message: T, event: ChatStreamEvent): T {
+  switch (event.type) {
+    case 'content':
+      return { ...message, content: message.content + event.content };
+    case 'tool_start':
+      return {
+        ...message,
+        toolCalls: [
+          ...(message.toolCalls || []),
+          { id: event.toolCallId, name: event.name, ...parseToolArguments(event.arguments), status: 'running' }
+        ]
+      };
+    case 'tool_result':
+      return {
+        ...message,
+        toolCalls: (message.toolCalls || []).map(toolCall =>
+          toolCall.id === event.toolCallId
+            ? {
+                ...toolCall,
+                status: event.isError ? 'error' : 'success',
+                durationMs: event.durationMs,
+                output: event.output,
+                entities: event.entities
+              }
+            : toolCall
+        )
+      };
+    case 'usage':
+      return { ...message, usage: event.usage };
+    case 'citations':
+      return { ...message, citations: event.entities };
+    default:
+      return message;
+  }
+}
+
+// Read the SSE body of a chat response, invoking onEvent for every parsed event.
+// Throws when the server reports an error event.
+export async function readChatStream(
+  response: Response,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response stream available');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) continue;
+
+        let event: ChatStreamEvent;
+        try {
+          event = JSON.parse(line.slice(6));
+        } catch {
+          console.warn('Failed to parse SSE data:', line);
+          continue;
+        }
+
+        if (event.type === 'error') {
+          throw new Error(event.error || 'Stream error occurred');
+        }
+        onEvent(event);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
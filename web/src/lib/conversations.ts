@@ -0,0 +1,198 @@
+import type { ChatCompletionMessageParam, ChatCompletionMessageToolCall } from 'openai/resources/chat/completions';
+import { executeQuery } from './mysql';
+
+export interface Conversation {
+  id: string;
+  title: string | null;
+  createdAt: string;
+  updatedAt: string;
+  messageCount?: number;
+}
+
+export interface ConversationMessage {
+  id: number;
+  role: 'user' | 'assistant' | 'tool';
+  content: string | null;
+  toolCalls?: ChatCompletionMessageToolCall[];
+  toolCallId?: string;
+  // Set on tool results when the tool failed
+  isError?: boolean;
+  createdAt: string;
+}
+
+// A message to save; isError marks a failed tool result
+export type ConversationMessageInput = ChatCompletionMessageParam & { isError?: boolean };
+
+interface ConversationRow {
+  id: string;
+  title: string | null;
+  created_at: Date;
+  updated_at: Date;
+  message_count?: number;
+}
+
+interface ConversationMessageRow {
+  id: number;
+  role: 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls: ChatCompletionMessageToolCall[] | string | null;
+  tool_call_id: string | null;
+  is_error: number | boolean;
+  created_at: Date;
+}
+
+const TITLE_MAX_LENGTH = 100;
+
+function mapConversation(row: ConversationRow): Conversation {
+  return {
+    id: row.id,
+    title: row.title,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+    messageCount: row.message_count !== undefined ? Number(row.message_count) : undefined
+  };
+}
+
+function mapMessage(row: ConversationMessageRow): ConversationMessage {
+  // mysql2 parses JSON columns, but be tolerant of drivers returning strings
+  const toolCalls = typeof row.tool_calls === 'string'
+    ? JSON.parse(row.tool_calls)
+    : row.tool_calls;
+
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    toolCalls: toolCalls || undefined,
+    toolCallId: row.tool_call_id || undefined,
+    isError: row.is_error ? true : undefined,
+    createdAt: new Date(row.created_at).toISOString()
+  };
+}
+
+export async function listConversations(userId: number): Promise<Conversation[]> {
+  const query = `
+    SELECT c.id, c.title, c.created_at, c.updated_at, COUNT(m.id) AS message_count
+    FROM conversations c
+    LEFT JOIN conversation_messages m ON m.conversation_id = c.id
+    WHERE c.user_id = ?
+    GROUP BY c.id, c.title, c.created_at, c.updated_at
+    ORDER BY c.updated_at DESC
+  `;
+
+  const rows = await executeQuery<ConversationRow>(query, [userId]);
+  return rows.map(mapConversation);
+}
+
+export async function getConversation(
+  userId: number,
+  conversationId: string
+): Promise<Conversation | null> {
+  const query = `
+    SELECT id, title, created_at, updated_at
+    FROM conversations
+    WHERE user_id = ? AND id = ?
+    LIMIT 1
+  `;
+
+  const rows = await executeQuery<ConversationRow>(query, [userId, conversationId]);
+  return rows.length > 0 ? mapConversation(rows[0]) : null;
+}
+
+export async function getConversationMessages(conversationId: string): Promise<ConversationMessage[]> {
+  const query = `
+    SELECT id, role, content, tool_calls, tool_call_id, is_error, created_at
+    FROM conversation_messages
+    WHERE conversation_id = ?
+    ORDER BY id ASC
+  `;
+
+  const rows = await executeQuery<ConversationMessageRow>(query, [conversationId]);
+  return rows.map(mapMessage);
+}
+
+// Create the conversation if needed, titled after its first user message. Returns false, leaving the
+// conversation untouched, when the id belongs to another user's conversation.
+export async function ensureConversation(
+  userId: number,
+  conversationId: string,
+  firstMessage: string
+): Promise<boolean> {
+  const query = `
+    INSERT INTO conversations (id, user_id, title)
+    VALUES (?, ?, ?)
+    ON DUPLICATE KEY UPDATE updated_at = IF(user_id = VALUES(user_id), CURRENT_TIMESTAMP, updated_at)
+  `;
+
+  await executeQuery(query, [conversationId, userId, firstMessage.substring(0, TITLE_MAX_LENGTH)]);
+  return (await getConversation(userId, conversationId)) !== null;
+}
+
+export async function appendConversationMessages(
+  conversationId: string,
+  messages: ConversationMessageInput[]
+): Promise<void> {
+  const query = `
+    INSERT INTO conversation_messages (conversation_id, role, content, tool_calls, tool_call_id, is_error)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `;
+
+  for (const message of messages) {
+    if (message.role !== 'user' && message.role !== 'assistant' && message.role !== 'tool') {
+      continue;
+    }
+
+    const content = typeof message.content === 'string' ? message.content : null;
+    const toolCalls = message.role === 'assistant' && message.tool_calls ? JSON.stringify(message.tool_calls) : null;
+    const toolCallId = message.role === 'tool' ? message.tool_call_id : null;
+    const isError = message.role === 'tool' && !!message.isError;
+
+    await executeQuery(query, [conversationId, message.role, content, toolCalls, toolCallId, isError]);
+  }
+}
+
+export async function deleteConversation(userId: number, conversationId: string): Promise<boolean> {
+  const query = `
+    DELETE FROM conversations
+    WHERE user_id = ? AND id = ?
+  `;
+
+  const result = await executeQuery(query, [userId, conversationId]) as unknown as { affectedRows: number };
+  return result.affectedRows > 0;
+}
+
+export async function deleteAllConversations(userId: number): Promise<number> {
+  const query = `
+    DELETE FROM conversations
+    WHERE user_id = ?
+  `;
+
+  const result = await executeQuery(query, [userId]) as unknown as { affectedRows: number };
+  return result.affectedRows;
+}
+
+// Convert stored messages into the OpenAI message format for history replay
+export function toChatCompletionMessages(messages: ConversationMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((message): ChatCompletionMessageParam => {
+    if (message.role === 'tool') {
+      return {
+        role: 'tool',
+        tool_call_id: message.toolCallId || '',
+        content: message.content || ''
+      };
+    }
+
+    if (message.role === 'assistant') {
+      return {
+        role: 'assistant',
+        content: message.content,
+        ...(message.toolCalls && message.toolCalls.length > 0 ? { tool_calls: message.toolCalls } : {})
+      };
+    }
+
+    return {
+      role: 'user',
+      content: message.content || ''
+    };
+  });
+}
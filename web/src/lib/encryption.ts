@@ -0,0 +1,37 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const VERSION = 'v1';
+
+// Any string works as BRAPI_SECRETS_KEY; it's hashed to the 256-bit key AES needs
+function getKey(): Buffer {
+  const secret = process.env.BRAPI_SECRETS_KEY;
+  if (!secret) {
+    throw new Error('BRAPI_SECRETS_KEY is not set. It is required to store and use BrAPI endpoint credentials.');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+// Encrypt to "v1:<iv>:<auth tag>:<ciphertext>", all base64
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognized encrypted secret format');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error('Failed to decrypt secret; BRAPI_SECRETS_KEY may have changed since it was saved');
+  }
+}
@@ -0,0 +1,206 @@
+import { solrClient, SolrDocument } from './solr-client';
+import { browseCatalog, BrowseNode } from './catalog-browse';
+
+const COLUMN_LIMIT = 500;
+const FILE_LIMIT = 1000;
+const RELATED_LIMIT = 10;
+
+export interface Breadcrumb {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface FileTreeNode {
+  id?: string;
+  name: string;
+  path: string;
+  isDirectory: boolean;
+  size?: number;
+  lastModified?: string;
+  children: FileTreeNode[];
+}
+
+export interface EntityDetails {
+  entity: SolrDocument;
+  // Table properties, parsed from the JSON stored at index time
+  properties?: Record<string, string>;
+  // Ancestors from the catalog down, excluding the entity itself
+  breadcrumbs: Breadcrumb[];
+  // Schemas of a catalog, or tables and volumes of a schema
+  children?: BrowseNode[];
+  columns?: SolrDocument[];
+  files?: FileTreeNode[];
+  fileCount?: number;
+  related: {
+    // Other entities of the same type under the same parent
+    sameParent: SolrDocument[];
+    sameOwner: SolrDocument[];
+  };
+}
+
+// Mirrors the document ids written by batch/index.js
+const entityId = {
+  catalog: (catalog: string) => `catalog_${catalog}`,
+  schema: (catalog: string, schema: string) => `schema_${catalog}_${schema}`,
+  table: (catalog: string, schema: string, table: string) => `table_${catalog}_${schema}_${table}`,
+  volume: (catalog: string, schema: string, volume: string) => `volume_${catalog}_${schema}_${volume}`,
+  file: (catalog: string, schema: string, volume: string, path: string) =>
+    `file_${catalog}_${schema}_${volume}_${path}`.replace(/[^a-zA-Z0-9_\-]/g, '_')
+};
+
+function parseProperties(value?: string): Record<string, string> | undefined {
+  if (!value) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return Object.fromEntries(
+        Object.entries(parsed).map(([key, val]) => [key, typeof val === 'string' ? val : JSON.stringify(val)])
+      );
+    }
+  } catch {
+    // Not JSON; shown as a single raw value below
+  }
+  return { properties: value };
+}
+
+function buildBreadcrumbs(doc: SolrDocument): Breadcrumb[] {
+  const { catalog_name: catalog, schema_name: schema, table_name: table, volume_name: volume } = doc;
+  const breadcrumbs: Breadcrumb[] = [];
+  if (!catalog || doc.type === 'catalog') return breadcrumbs;
+
+  breadcrumbs.push({ id: entityId.catalog(catalog), name: catalog, type: 'catalog' });
+  if (!schema || doc.type === 'schema') return breadcrumbs;
+
+  breadcrumbs.push({ id: entityId.schema(catalog, schema), name: schema, type: 'schema' });
+  if (doc.type === 'column' && table) {
+    breadcrumbs.push({ id: entityId.table(catalog, schema, table), name: table, type: 'table' });
+  }
+  if ((doc.type === 'file' || doc.type === 'directory') && volume) {
+    breadcrumbs.push({ id: entityId.volume(catalog, schema, volume), name: volume, type: 'volume' });
+
+    // Directories between the volume root and the file
+    const segments = (doc.file_path || '').replace(/\/+$/, '').split('/').slice(0, -1);
+    segments.forEach((segment, index) => {
+      const path = segments.slice(0, index + 1).join('/');
+      breadcrumbs.push({ id: entityId.file(catalog, schema, volume, path), name: segment, type: 'directory' });
+    });
+  }
+  return breadcrumbs;
+}
+
+// Nest a volume's flat file documents by their path, directories first
+export function buildFileTree(docs: SolrDocument[]): FileTreeNode[] {
+  const root: FileTreeNode = { name: '', path: '', isDirectory: true, children: [] };
+  const nodes = new Map<string, FileTreeNode>([['', root]]);
+
+  const ensureNode = (path: string): FileTreeNode => {
+    const existing = nodes.get(path);
+    if (existing) return existing;
+
+    const separator = path.lastIndexOf('/');
+    const parent = ensureNode(separator >= 0 ? path.slice(0, separator) : '');
+    const node: FileTreeNode = { name: path.slice(separator + 1), path, isDirectory: true, children: [] };
+    parent.children.push(node);
+    nodes.set(path, node);
+    return node;
+  };
+
+  for (const doc of docs) {
+    const path = (doc.file_path || doc.name).replace(/\/+$/, '');
+    if (!path) continue;
+    const node = ensureNode(path);
+    node.id = doc.id;
+    node.isDirectory = doc.type === 'directory' || !!doc.is_directory;
+    node.size = doc.file_size;
+    node.lastModified = doc.updated_at;
+  }
+
+  const sortTree = (list: FileTreeNode[]) => {
+    list.sort((a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.name.localeCompare(b.name));
+    list.forEach(node => sortTree(node.children));
+  };
+  sortTree(root.children);
+  return root.children;
+}
+
+async function findRelated(doc: SolrDocument): Promise<EntityDetails['related']> {
+  const size = (RELATED_LIMIT + 1).toString();
+  const withoutSelf = (docs: SolrDocument[]) => docs.filter(other => other.id !== doc.id).slice(0, RELATED_LIMIT);
+
+  const scope = doc.type === 'catalog'
+    ? {}
+    : doc.type === 'schema'
+      ? { catalog: doc.catalog_name }
+      : doc.type === 'table' || doc.type === 'volume'
+        ? { catalog: doc.catalog_name, schema: doc.schema_name }
+        : null;
+
+  const [sameParent, sameOwner] = await Promise.all([
+    scope ? solrClient.search({ q: '*', type: doc.type, ...scope, size }) : null,
+    doc.owner ? solrClient.search({ q: '*', type: doc.type, owner: doc.owner, size }) : null
+  ]);
+
+  return {
+    sameParent: withoutSelf(sameParent?.results || []),
+    sameOwner: withoutSelf(sameOwner?.results || [])
+  };
+}
+
+// Load a Solr document by id with its breadcrumbs, contents and related entities, or null if not indexed
+export async function getEntityDetails(id: string): Promise<EntityDetails | null> {
+  const entity = await solrClient.getDocument(id);
+  if (!entity) return null;
+
+  const details: EntityDetails = {
+    entity,
+    properties: parseProperties(entity.properties),
+    breadcrumbs: buildBreadcrumbs(entity),
+    related: await findRelated(entity)
+  };
+
+  const { catalog_name: catalog, schema_name: schema } = entity;
+
+  if (entity.type === 'catalog' || entity.type === 'schema') {
+    const path = entity.type === 'catalog' ? [entity.name] : [catalog!, entity.name];
+    const listing = await browseCatalog(path);
+    details.children = listing?.children || [];
+  } else if (entity.type === 'table') {
+    const columns = await solrClient.search({
+      q: '*',
+      type: 'column',
+      catalog,
+      schema,
+      table: entity.table_name || entity.name,
+      size: COLUMN_LIMIT.toString()
+    });
+    details.columns = columns.results;
+  } else if (entity.type === 'volume' || entity.type === 'directory') {
+    const files = await solrClient.search({
+      q: '*',
+      types: ['file', 'directory'],
+      catalog,
+      schema,
+      volume: entity.volume_name || entity.name,
+      size: FILE_LIMIT.toString()
+    });
+    details.fileCount = files.total;
+
+    let tree = buildFileTree(files.results);
+    if (entity.type === 'directory') {
+      // Descend to this directory's subtree
+      const target = (entity.file_path || '').replace(/\/+$/, '');
+      const findNode = (nodes: FileTreeNode[]): FileTreeNode | undefined => {
+        for (const node of nodes) {
+          if (node.path === target) return node;
+          if (target.startsWith(`${node.path}/`)) return findNode(node.children);
+        }
+        return undefined;
+      };
+      tree = findNode(tree)?.children || [];
+    }
+    details.files = tree;
+  }
+
+  return details;
+}
@@ -0,0 +1,61 @@
+// Solr hit highlighting shared by the search API, the search page and the chat tools.
+// Kept free of server-only imports so client components can use it.
+
+// Fields that get highlighted fragments, in order of preference for a snippet
+export const HIGHLIGHT_FIELDS = ['description', 'comment', 'properties'];
+
+// Tags Solr wraps around matched terms
+export const HIGHLIGHT_PRE = '<mark>';
+export const HIGHLIGHT_POST = '</mark>';
+
+// Highlighted fragments of one document, by field name
+export type HighlightFragments = Record<string, string[]>;
+
+export interface Snippet {
+  field: string;
+  text: string;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// The most useful fragment for a document: the first highlighted field in preference order
+export function bestSnippet(fragments?: HighlightFragments): Snippet | undefined {
+  if (!fragments) return undefined;
+  for (const field of HIGHLIGHT_FIELDS) {
+    const snippets = fragments[field];
+    if (snippets && snippets.length > 0) {
+      return { field, text: snippets.join(' … ') };
+    }
+  }
+  return undefined;
+}
+
+// Split a fragment into plain and matched runs, for rendering without raw HTML
+export function splitHighlights(fragment: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = fragment;
+  while (rest) {
+    const start = rest.indexOf(HIGHLIGHT_PRE);
+    const end = start >= 0 ? rest.indexOf(HIGHLIGHT_POST, start) : -1;
+    if (start < 0 || end < 0) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+    if (start > 0) segments.push({ text: rest.slice(0, start), highlighted: false });
+    segments.push({ text: rest.slice(start + HIGHLIGHT_PRE.length, end), highlighted: true });
+    rest = rest.slice(end + HIGHLIGHT_POST.length);
+  }
+  return segments;
+}
+
+// Render matched terms in bold for markdown output
+export function highlightsToMarkdown(fragment: string): string {
+  return splitHighlights(fragment)
+    .map(segment => (segment.highlighted ? `**${segment.text}**` : segment.text))
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,40 @@
+import OpenAI from 'openai';
+import { OpenAIClientProvider } from './openai-client';
+
+export class AzureOpenAIProvider extends OpenAIClientProvider {
+  readonly id = 'azure' as const;
+  // Azure routes by deployment, so the deployment name doubles as the model
+  readonly model = process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-4';
+
+  protected createClient(): OpenAI {
+    // Validate required environment variables at runtime
+    const requiredEnvVars = [
+      'AZURE_OPENAI_API_KEY',
+      'AZURE_OPENAI_ENDPOINT',
+      'AZURE_OPENAI_DEPLOYMENT_NAME'
+    ] as const;
+
+    for (const envVar of requiredEnvVars) {
+      if (!process.env[envVar]) {
+        throw new Error(`${envVar} environment variable is required`);
+      }
+    }
+
+    return new OpenAI({
+      apiKey: process.env.AZURE_OPENAI_API_KEY!,
+      baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}/openai/deployments/${process.env.AZURE_OPENAI_DEPLOYMENT_NAME}`,
+      defaultQuery: { 'api-version': process.env.AZURE_OPENAI_API_VERSION || '2024-10-21' },
+      defaultHeaders: {
+        'api-key': process.env.AZURE_OPENAI_API_KEY!,
+      },
+    });
+  }
+
+  describe() {
+    return {
+      endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+      deployment: process.env.AZURE_OPENAI_DEPLOYMENT_NAME,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21'
+    };
+  }
+}
@@ -0,0 +1,192 @@
+import { readFileSync } from 'fs';
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall
+} from 'openai/resources/chat/completions';
+import { ChatRequest, LLMProvider } from './types';
+
+// A rule in the FAKE_LLM_SCRIPT file. Rules are tried in order against the
+// latest user message; the first whose `match` regex matches wins.
+interface FakeScriptRule {
+  match: string;
+  reply?: string;
+  toolCall?: {
+    name: string;
+    arguments?: Record<string, unknown>;
+  };
+}
+
+interface FakeTurn {
+  content: string;
+  toolCalls: ChatCompletionMessageToolCall[];
+}
+
+const FAKE_MODEL = 'fake-scripted';
+// Typing `/tool_name {"arg": "value"}` calls a tool directly
+const TOOL_COMMAND_PATTERN = /^\/(\w+)\s*(\{[\s\S]*\})?\s*$/;
+
+const textOf = (message: ChatCompletionMessageParam): string =>
+  typeof message.content === 'string' ? message.content : '';
+
+// Rough, deterministic token estimate so the usage events carry numbers
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Deterministic provider for offline development: never calls the network
+export class FakeProvider implements LLMProvider {
+  readonly id = 'fake' as const;
+  readonly model = FAKE_MODEL;
+  private script: FakeScriptRule[] | null = null;
+
+  private loadScript(): FakeScriptRule[] {
+    if (this.script) {
+      return this.script;
+    }
+
+    const scriptPath = process.env.FAKE_LLM_SCRIPT;
+    this.script = [];
+    if (scriptPath) {
+      try {
+        this.script = JSON.parse(readFileSync(scriptPath, 'utf8'));
+      } catch (error) {
+        console.error(`Failed to load FAKE_LLM_SCRIPT from ${scriptPath}:`, error);
+      }
+    }
+    return this.script!;
+  }
+
+  private toolCall(name: string, args: Record<string, unknown>, index: number): ChatCompletionMessageToolCall {
+    return {
+      id: `call_fake_${index}`,
+      type: 'function',
+      function: { name, arguments: JSON.stringify(args) }
+    };
+  }
+
+  private planTurn(request: ChatRequest): FakeTurn {
+    const { messages } = request;
+    const last = messages[messages.length - 1];
+    const canCallTools = (request.tools?.length || 0) > 0 && request.toolChoice !== 'none';
+
+    // After tool results come back, summarize them
+    if (last?.role === 'tool') {
+      const toolResults: string[] = [];
+      for (let i = messages.length - 1; i >= 0 && messages[i].role === 'tool'; i--) {
+        toolResults.unshift(textOf(messages[i]));
+      }
+      return {
+        content: `I ran ${toolResults.length} tool(s). Here is what they returned:\n\n${toolResults.join('\n\n')}`,
+        toolCalls: []
+      };
+    }
+
+    const userMessage = last ? textOf(last) : '';
+    const toolCount = messages.filter(m => m.role === 'tool').length;
+
+    for (const rule of this.loadScript()) {
+      if (!new RegExp(rule.match, 'i').test(userMessage)) continue;
+
+      if (rule.toolCall && canCallTools) {
+        return {
+          content: rule.reply || '',
+          toolCalls: [this.toolCall(rule.toolCall.name, rule.toolCall.arguments || {}, toolCount)]
+        };
+      }
+      return { content: rule.reply || '', toolCalls: [] };
+    }
+
+    const command = userMessage.trim().match(TOOL_COMMAND_PATTERN);
+    const knownTool = command && request.tools?.some(tool => tool.function.name === command[1]);
+    if (command && knownTool && canCallTools) {
+      let args: Record<string, unknown> = {};
+      try {
+        args = command[2] ? JSON.parse(command[2]) : {};
+      } catch {
+        return { content: `Invalid JSON arguments for ${command[1]}.`, toolCalls: [] };
+      }
+      return { content: '', toolCalls: [this.toolCall(command[1], args, toolCount)] };
+    }
+
+    return { content: `Fake response to: ${userMessage}`, toolCalls: [] };
+  }
+
+  private usageFor(request: ChatRequest, turn: FakeTurn) {
+    const promptTokens = estimateTokens(request.messages.map(textOf).join('\n'));
+    const completionTokens = estimateTokens(turn.content + JSON.stringify(turn.toolCalls));
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens
+    };
+  }
+
+  async streamChat(request: ChatRequest): Promise<AsyncIterable<ChatCompletionChunk>> {
+    const turn = this.planTurn(request);
+    const usage = this.usageFor(request, turn);
+    const created = Math.floor(Date.now() / 1000);
+    const base = { id: 'chatcmpl-fake', object: 'chat.completion.chunk' as const, created, model: FAKE_MODEL };
+
+    async function* chunks(): AsyncGenerator<ChatCompletionChunk> {
+      // Stream word by word so the UI exercises incremental rendering
+      for (const word of turn.content.match(/\S+\s*/g) || []) {
+        yield { ...base, choices: [{ index: 0, delta: { content: word }, finish_reason: null }] };
+      }
+
+      if (turn.toolCalls.length > 0) {
+        yield {
+          ...base,
+          choices: [{
+            index: 0,
+            delta: {
+              tool_calls: turn.toolCalls.map((toolCall, index) => ({
+                index,
+                id: toolCall.id,
+                type: 'function' as const,
+                function: toolCall.function
+              }))
+            },
+            finish_reason: null
+          }]
+        };
+      }
+
+      yield {
+        ...base,
+        choices: [{ index: 0, delta: {}, finish_reason: turn.toolCalls.length > 0 ? 'tool_calls' : 'stop' }]
+      };
+      yield { ...base, choices: [], usage };
+    }
+
+    return chunks();
+  }
+
+  async completeChat(request: ChatRequest): Promise<ChatCompletion> {
+    const turn = this.planTurn(request);
+    return {
+      id: 'chatcmpl-fake',
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: FAKE_MODEL,
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: turn.content,
+          refusal: null,
+          ...(turn.toolCalls.length > 0 ? { tool_calls: turn.toolCalls } : {})
+        },
+        finish_reason: turn.toolCalls.length > 0 ? 'tool_calls' : 'stop',
+        logprobs: null
+      }],
+      usage: this.usageFor(request, turn)
+    };
+  }
+
+  describe() {
+    return {
+      model: FAKE_MODEL,
+      script: process.env.FAKE_LLM_SCRIPT
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { getUserPreference } from '../mysql';
+import { AzureOpenAIProvider } from './azure';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { FakeProvider } from './fake';
+import { LLMProvider, LLMProviderId } from './types';
+
+export type { ChatRequest, LLMProvider, LLMProviderId } from './types';
+
+export const LLM_PROVIDER_KEY = 'llm_provider';
+
+export const LLM_PROVIDER_IDS: LLMProviderId[] = ['azure', 'openai-compatible', 'fake'];
+
+const providers: Partial<Record<LLMProviderId, LLMProvider>> = {};
+
+export function isLLMProviderId(value: unknown): value is LLMProviderId {
+  return typeof value === 'string' && (LLM_PROVIDER_IDS as string[]).includes(value);
+}
+
+export function getProviderById(id: LLMProviderId): LLMProvider {
+  if (!providers[id]) {
+    switch (id) {
+      case 'azure':
+        providers[id] = new AzureOpenAIProvider();
+        break;
+      case 'openai-compatible':
+        providers[id] = new OpenAICompatibleProvider();
+        break;
+      case 'fake':
+        providers[id] = new FakeProvider();
+        break;
+    }
+  }
+  return providers[id]!;
+}
+
+// Environment default, overridable per deployment with LLM_PROVIDER
+export function getDefaultProviderId(): LLMProviderId {
+  const configured = process.env.LLM_PROVIDER;
+  if (configured && !isLLMProviderId(configured)) {
+    console.warn(`Unknown LLM_PROVIDER "${configured}", falling back to azure`);
+  }
+  return isLLMProviderId(configured) ? configured : 'azure';
+}
+
+// Resolve the provider for a user: their saved preference wins over the environment default
+export async function getLLMProvider(userId?: number): Promise<LLMProvider> {
+  if (userId !== undefined) {
+    try {
+      const preferred = await getUserPreference(userId, LLM_PROVIDER_KEY);
+      if (isLLMProviderId(preferred)) {
+        return getProviderById(preferred);
+      }
+    } catch (error) {
+      console.error('Error reading LLM provider preference:', error);
+    }
+  }
+  return getProviderById(getDefaultProviderId());
+}
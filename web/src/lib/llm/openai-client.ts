@@ -0,0 +1,47 @@
+import OpenAI from 'openai';
+import type { ChatCompletion, ChatCompletionChunk } from 'openai/resources/chat/completions';
+import { ChatRequest, LLMProvider, LLMProviderId } from './types';
+
+// Shared implementation for providers backed by the OpenAI SDK
+export abstract class OpenAIClientProvider implements LLMProvider {
+  abstract readonly id: LLMProviderId;
+  abstract readonly model: string;
+  private client: OpenAI | null = null;
+
+  protected abstract createClient(): OpenAI;
+
+  abstract describe(): Record<string, string | undefined>;
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = this.createClient();
+    }
+    return this.client;
+  }
+
+  async streamChat(request: ChatRequest): Promise<AsyncIterable<ChatCompletionChunk>> {
+    return await this.getClient().chat.completions.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: request.messages,
+      ...(request.tools && request.tools.length > 0
+        ? { tools: request.tools, tool_choice: request.toolChoice || 'auto' }
+        : {}),
+      stream: true,
+      stream_options: { include_usage: true }
+    });
+  }
+
+  async completeChat(request: ChatRequest): Promise<ChatCompletion> {
+    return await this.getClient().chat.completions.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: request.messages,
+      ...(request.tools && request.tools.length > 0
+        ? { tools: request.tools, tool_choice: request.toolChoice || 'auto' }
+        : {})
+    });
+  }
+}
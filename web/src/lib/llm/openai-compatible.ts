@@ -0,0 +1,30 @@
+import OpenAI from 'openai';
+import { OpenAIClientProvider } from './openai-client';
+
+// Any server implementing the OpenAI chat completions API (vLLM, Ollama, llama.cpp, OpenAI itself)
+export class OpenAICompatibleProvider extends OpenAIClientProvider {
+  readonly id = 'openai-compatible' as const;
+  readonly model = process.env.OPENAI_COMPATIBLE_MODEL || '';
+
+  protected createClient(): OpenAI {
+    if (!process.env.OPENAI_COMPATIBLE_BASE_URL) {
+      throw new Error('OPENAI_COMPATIBLE_BASE_URL environment variable is required');
+    }
+    if (!this.model) {
+      throw new Error('OPENAI_COMPATIBLE_MODEL environment variable is required');
+    }
+
+    return new OpenAI({
+      baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+    });
+  }
+
+  describe() {
+    return {
+      endpoint: process.env.OPENAI_COMPATIBLE_BASE_URL,
+      model: this.model
+    };
+  }
+}
@@ -0,0 +1,27 @@
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionMessageParam,
+  ChatCompletionTool
+} from 'openai/resources/chat/completions';
+
+export type LLMProviderId = 'azure' | 'openai-compatible' | 'fake';
+
+export interface ChatRequest {
+  messages: ChatCompletionMessageParam[];
+  tools?: ChatCompletionTool[];
+  toolChoice?: 'auto' | 'none';
+  maxTokens?: number;
+  temperature?: number;
+}
+
+// All providers speak the OpenAI chat completions wire format so the chat
+// route can treat them interchangeably
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly model: string;
+  streamChat(request: ChatRequest): Promise<AsyncIterable<ChatCompletionChunk>>;
+  completeChat(request: ChatRequest): Promise<ChatCompletion>;
+  // Non-secret connection details for diagnostics
+  describe(): Record<string, string | undefined>;
+}
@@ -1,37 +1,3 @@
-import OpenAI from 'openai';
-
-let _openai: OpenAI | null = null;
-
-export function getOpenAIClient(): OpenAI {
-  if (_openai) {
-    return _openai;
-  }
-
-  // Validate required environment variables at runtime
-  const requiredEnvVars = [
-    'AZURE_OPENAI_API_KEY',
-    'AZURE_OPENAI_ENDPOINT',
-    'AZURE_OPENAI_DEPLOYMENT_NAME'
-  ] as const;
-
-  for (const envVar of requiredEnvVars) {
-    if (!process.env[envVar]) {
-      throw new Error(`${envVar} environment variable is required`);
-    }
-  }
-
-  _openai = new OpenAI({
-    apiKey: process.env.AZURE_OPENAI_API_KEY!,
-    baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}/openai/deployments/${process.env.AZURE_OPENAI_DEPLOYMENT_NAME}`,
-    defaultQuery: { 'api-version': process.env.AZURE_OPENAI_API_VERSION || '2024-02-01' },
-    defaultHeaders: {
-      'api-key': process.env.AZURE_OPENAI_API_KEY!,
-    },
-  });
-
-  return _openai;
-}
-
 export interface ChatContext {
   selectedTable?: string;
   selectedSchema?: string;
@@ -47,7 +13,9 @@ export function buildSystemMessage(context?: ChatContext): string {
 - Explaining data lineage and dependencies
 - General data catalog navigation
 
-Be helpful, concise, and focus on practical data-related assistance.`;
+Be helpful, concise, and focus on practical data-related assistance.
+
+Use the available tools to look up catalog, germplasm, trial and phenotype information before answering. You may call several tools in sequence (for example, search the catalog and then get details for a table you found). Tool results are for you to read: summarize them and answer the user's question rather than repeating them verbatim.`;
 
   if (context) {
     systemMessage += `\n\nCurrent context:`;
@@ -59,6 +27,13 @@ Be helpful, concise, and focus on practical data-related assistance.`;
   return systemMessage;
 }
 
-// Note: Use your actual Azure OpenAI deployment name
-export const DEPLOYMENT_NAME = process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-4';
-export const MAX_TOKENS = 4000;
\ No newline at end of file
+export const MAX_TOKENS = 4000;
+
+const DEFAULT_MAX_TOOL_STEPS = 5;
+
+// Maximum number of model calls per chat turn when the model keeps requesting tools; at least one,
+// so every turn gets an answer
+const parsedMaxToolSteps = parseInt(process.env.CHAT_MAX_TOOL_STEPS || '', 10);
+export const MAX_TOOL_STEPS = Number.isFinite(parsedMaxToolSteps)
+  ? Math.max(1, parsedMaxToolSteps)
+  : DEFAULT_MAX_TOOL_STEPS;
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { executeQuery } from './mysql';
+
+// Boost factors for the clauses SolrClient.buildQuery generates for a search term
+export interface RelevanceBoosts {
+  nameExact: number;
+  namePrefix: number;
+  nameSubstring: number;
+  text: number;
+  description: number;
+  fullName: number;
+  fileName: number;
+  volumeName: number;
+  tableName: number;
+  columnName: number;
+}
+
+export interface RelevanceProfile {
+  name: string;
+  description: string | null;
+  boosts: RelevanceBoosts;
+  isDefault: boolean;
+  updatedAt: string;
+}
+
+interface RelevanceProfileRow {
+  name: string;
+  description: string | null;
+  boosts: Partial<RelevanceBoosts> | string | null;
+  is_default: number;
+  updated_at: Date;
+}
+
+// The ranking used before profiles existed, and the fallback when MySQL is unavailable
+export const DEFAULT_BOOSTS: RelevanceBoosts = {
+  nameExact: 10,
+  namePrefix: 5,
+  nameSubstring: 3,
+  text: 2,
+  description: 1,
+  fullName: 1,
+  fileName: 1,
+  volumeName: 1,
+  tableName: 1,
+  columnName: 1
+};
+
+export const BOOST_KEYS = Object.keys(DEFAULT_BOOSTS) as (keyof RelevanceBoosts)[];
+export const MAX_BOOST = 100;
+
+// Profiles are re-read after this long, so edits apply without a restart
+const CACHE_TTL_MS = 60 * 1000;
+// After failing to load profiles, searches use DEFAULT_BOOSTS this long before MySQL is tried again
+const CACHE_RETRY_MS = 60 * 1000;
+
+let cache: { loadedAt: number; profiles: RelevanceProfile[] } | null = null;
+let unavailableUntil = 0;
+
+function mapProfile(row: RelevanceProfileRow): RelevanceProfile {
+  // mysql2 parses JSON columns, but be tolerant of drivers returning strings
+  const boosts = typeof row.boosts === 'string' ? JSON.parse(row.boosts) : row.boosts;
+  return {
+    name: row.name,
+    description: row.description,
+    // Boosts missing from the stored JSON keep their default
+    boosts: { ...DEFAULT_BOOSTS, ...boosts },
+    isDefault: !!row.is_default,
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+export async function listRelevanceProfiles(): Promise<RelevanceProfile[]> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.profiles;
+  }
+
+  const rows = await executeQuery<RelevanceProfileRow>(
+    'SELECT name, description, boosts, is_default, updated_at FROM relevance_profiles ORDER BY name'
+  );
+  cache = { loadedAt: Date.now(), profiles: rows.map(mapProfile) };
+  return cache.profiles;
+}
+
+// Boosts of the named profile, else the default profile, else DEFAULT_BOOSTS
+export async function getRelevanceBoosts(name?: string): Promise<RelevanceBoosts> {
+  if (Date.now() < unavailableUntil) {
+    return DEFAULT_BOOSTS;
+  }
+
+  try {
+    const profiles = await listRelevanceProfiles();
+    const profile = (name && profiles.find(p => p.name === name)) || profiles.find(p => p.isDefault);
+    return profile?.boosts || DEFAULT_BOOSTS;
+  } catch (error) {
+    console.warn('Relevance profiles unavailable, using default boosts:', error);
+    unavailableUntil = Date.now() + CACHE_RETRY_MS;
+    return DEFAULT_BOOSTS;
+  }
+}
+
+// Create or replace a profile; making it the default clears the flag on the others
+export async function saveRelevanceProfile(
+  name: string,
+  boosts: Partial<RelevanceBoosts>,
+  options: { description?: string | null; isDefault?: boolean } = {}
+): Promise<void> {
+  if (options.isDefault) {
+    await executeQuery('UPDATE relevance_profiles SET is_default = FALSE WHERE name <> ?', [name]);
+  }
+
+  await executeQuery(
+    `INSERT INTO relevance_profiles (name, description, boosts, is_default)
+     VALUES (?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       description = VALUES(description),
+       boosts = VALUES(boosts),
+       is_default = VALUES(is_default)`,
+    [name, options.description ?? null, JSON.stringify({ ...DEFAULT_BOOSTS, ...boosts }), !!options.isDefault]
+  );
+  cache = null;
+  unavailableUntil = 0;
+}
+
+export async function deleteRelevanceProfile(name: string): Promise<boolean> {
+  const result = await executeQuery('DELETE FROM relevance_profiles WHERE name = ?', [name]) as unknown as { affectedRows: number };
+  cache = null;
+  unavailableUntil = 0;
+  return result.affectedRows > 0;
+}
@@ -0,0 +1,221 @@
+import { executeQuery } from './mysql';
+
+export interface SavedSearch {
+  id: number;
+  name: string;
+  // /api/search query string without paging, e.g. "q=tag:breeding&type=table&sort=updated"
+  queryString: string;
+  isAlert: boolean;
+  lastCheckedAt: string | null;
+  lastMatchCount: number | null;
+  unreadAlerts: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SearchAlert {
+  id: number;
+  savedSearchId: number;
+  savedSearchName: string;
+  entityId: string;
+  entityName: string | null;
+  entityFullName: string | null;
+  entityType: string | null;
+  detectedAt: string;
+  readAt: string | null;
+}
+
+interface SavedSearchRow {
+  id: number;
+  name: string;
+  query_string: string;
+  is_alert: number;
+  last_checked_at: Date | null;
+  last_match_count: number | null;
+  unread_alerts?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface SearchAlertRow {
+  id: number;
+  saved_search_id: number;
+  saved_search_name: string;
+  entity_id: string;
+  entity_name: string | null;
+  entity_full_name: string | null;
+  entity_type: string | null;
+  detected_at: Date;
+  read_at: Date | null;
+}
+
+// Params that only control paging or output, so two saves of the same search compare equal
+const TRANSIENT_PARAMS = ['page', 'size', 'cursor', 'format', 'fields'];
+const NAME_MAX_LENGTH = 255;
+const ALERTS_LIMIT = 200;
+
+function mapSavedSearch(row: SavedSearchRow): SavedSearch {
+  return {
+    id: row.id,
+    name: row.name,
+    queryString: row.query_string,
+    isAlert: !!row.is_alert,
+    lastCheckedAt: row.last_checked_at ? new Date(row.last_checked_at).toISOString() : null,
+    lastMatchCount: row.last_match_count,
+    unreadAlerts: Number(row.unread_alerts || 0),
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+function mapAlert(row: SearchAlertRow): SearchAlert {
+  return {
+    id: row.id,
+    savedSearchId: row.saved_search_id,
+    savedSearchName: row.saved_search_name,
+    entityId: row.entity_id,
+    entityName: row.entity_name,
+    entityFullName: row.entity_full_name,
+    entityType: row.entity_type,
+    detectedAt: new Date(row.detected_at).toISOString(),
+    readAt: row.read_at ? new Date(row.read_at).toISOString() : null
+  };
+}
+
+// Drop paging and export params and empty values from a search query string
+export function normalizeSavedQuery(searchParams: URLSearchParams): string {
+  const normalized = new URLSearchParams();
+  searchParams.forEach((value, key) => {
+    if (value && !TRANSIENT_PARAMS.includes(key)) {
+      normalized.append(key, value);
+    }
+  });
+  return normalized.toString();
+}
+
+export async function listSavedSearches(userId: number): Promise<SavedSearch[]> {
+  const query = `
+    SELECT s.id, s.name, s.query_string, s.is_alert, s.last_checked_at, s.last_match_count,
+           s.created_at, s.updated_at, COUNT(a.id) AS unread_alerts
+    FROM saved_searches s
+    LEFT JOIN search_alerts a ON a.saved_search_id = s.id AND a.read_at IS NULL
+    WHERE s.user_id = ?
+    GROUP BY s.id, s.name, s.query_string, s.is_alert, s.last_checked_at, s.last_match_count,
+             s.created_at, s.updated_at
+    ORDER BY s.name ASC
+  `;
+
+  const rows = await executeQuery<SavedSearchRow>(query, [userId]);
+  return rows.map(mapSavedSearch);
+}
+
+export async function getSavedSearch(userId: number, id: number): Promise<SavedSearch | null> {
+  const query = `
+    SELECT id, name, query_string, is_alert, last_checked_at, last_match_count, created_at, updated_at
+    FROM saved_searches
+    WHERE user_id = ? AND id = ?
+    LIMIT 1
+  `;
+
+  const rows = await executeQuery<SavedSearchRow>(query, [userId, id]);
+  return rows.length > 0 ? mapSavedSearch(rows[0]) : null;
+}
+
+export async function createSavedSearch(
+  userId: number,
+  name: string,
+  queryString: string,
+  isAlert = false
+): Promise<SavedSearch> {
+  const query = `
+    INSERT INTO saved_searches (user_id, name, query_string, is_alert)
+    VALUES (?, ?, ?, ?)
+  `;
+
+  const result = await executeQuery(
+    query,
+    [userId, name.substring(0, NAME_MAX_LENGTH), queryString, isAlert]
+  ) as unknown as { insertId: number };
+  return (await getSavedSearch(userId, result.insertId))!;
+}
+
+// Renaming or toggling the alert flag; turning an alert off forgets its snapshot so
+// re-enabling it starts from a fresh baseline instead of reporting stale differences
+export async function updateSavedSearch(
+  userId: number,
+  id: number,
+  changes: { name?: string; isAlert?: boolean }
+): Promise<SavedSearch | null> {
+  const existing = await getSavedSearch(userId, id);
+  if (!existing) {
+    return null;
+  }
+
+  const name = changes.name !== undefined ? changes.name.substring(0, NAME_MAX_LENGTH) : existing.name;
+  const isAlert = changes.isAlert !== undefined ? changes.isAlert : existing.isAlert;
+
+  if (existing.isAlert && !isAlert) {
+    await executeQuery('DELETE FROM saved_search_snapshots WHERE saved_search_id = ?', [id]);
+    await executeQuery(
+      'UPDATE saved_searches SET last_checked_at = NULL, last_match_count = NULL WHERE id = ?',
+      [id]
+    );
+  }
+
+  await executeQuery(
+    'UPDATE saved_searches SET name = ?, is_alert = ? WHERE user_id = ? AND id = ?',
+    [name, isAlert, userId, id]
+  );
+  return getSavedSearch(userId, id);
+}
+
+export async function deleteSavedSearch(userId: number, id: number): Promise<boolean> {
+  const query = `
+    DELETE FROM saved_searches
+    WHERE user_id = ? AND id = ?
+  `;
+
+  const result = await executeQuery(query, [userId, id]) as unknown as { affectedRows: number };
+  return result.affectedRows > 0;
+}
+
+export async function listSearchAlerts(
+  userId: number,
+  options: { unreadOnly?: boolean } = {}
+): Promise<SearchAlert[]> {
+  const query = `
+    SELECT a.id, a.saved_search_id, s.name AS saved_search_name, a.entity_id, a.entity_name,
+           a.entity_full_name, a.entity_type, a.detected_at, a.read_at
+    FROM search_alerts a
+    JOIN saved_searches s ON s.id = a.saved_search_id
+    WHERE a.user_id = ? ${options.unreadOnly ? 'AND a.read_at IS NULL' : ''}
+    ORDER BY a.detected_at DESC, a.id DESC
+    LIMIT ${ALERTS_LIMIT}
+  `;
+
+  const rows = await executeQuery<SearchAlertRow>(query, [userId]);
+  return rows.map(mapAlert);
+}
+
+export async function countUnreadSearchAlerts(userId: number): Promise<number> {
+  const rows = await executeQuery<{ count: number }>(
+    'SELECT COUNT(*) AS count FROM search_alerts WHERE user_id = ? AND read_at IS NULL',
+    [userId]
+  );
+  return Number(rows[0]?.count || 0);
+}
+
+// Marks the given alerts read, or all of the user's unread alerts when ids is omitted
+export async function markSearchAlertsRead(userId: number, ids?: number[]): Promise<number> {
+  if (ids && ids.length === 0) {
+    return 0;
+  }
+
+  const query = ids
+    ? `UPDATE search_alerts SET read_at = CURRENT_TIMESTAMP
+       WHERE user_id = ? AND read_at IS NULL AND id IN (${ids.map(() => '?').join(', ')})`
+    : 'UPDATE search_alerts SET read_at = CURRENT_TIMESTAMP WHERE user_id = ? AND read_at IS NULL';
+
+  const result = await executeQuery(query, [userId, ...(ids || [])]) as unknown as { affectedRows: number };
+  return result.affectedRows;
+}
@@ -0,0 +1,237 @@
+import { executeQuery } from './mysql';
+
+export type SearchSource = 'api' | 'mcp';
+
+export interface SearchLogEntry {
+  userId: number | null;
+  source: SearchSource;
+  query: string;
+  filters: Record<string, unknown>;
+  page?: number;
+  hitCount: number | null;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface QueryStats {
+  query: string;
+  searches: number;
+  avgHits: number | null;
+  avgLatencyMs: number;
+  clickThroughRate: number;
+  lastSearchedAt: string;
+}
+
+export interface SlowSearch {
+  id: number;
+  source: SearchSource;
+  query: string;
+  filters: Record<string, unknown>;
+  hitCount: number | null;
+  latencyMs: number;
+  createdAt: string;
+}
+
+export interface SearchAnalytics {
+  days: number;
+  summary: {
+    searches: number;
+    distinctQueries: number;
+    zeroResultRate: number;
+    errorRate: number;
+    avgLatencyMs: number;
+    clickThroughRate: number;
+    avgClickPosition: number | null;
+  };
+  topQueries: QueryStats[];
+  zeroResultQueries: QueryStats[];
+  slowestSearches: SlowSearch[];
+}
+
+interface QueryStatsRow {
+  query: string;
+  searches: number;
+  avg_hits: number | string | null;
+  avg_latency_ms: number | string;
+  api_searches: number | string;
+  clicked: number;
+  last_searched_at: Date;
+}
+
+interface SlowSearchRow {
+  id: number;
+  source: SearchSource;
+  query: string;
+  filters: Record<string, unknown> | string | null;
+  hit_count: number | null;
+  latency_ms: number;
+  created_at: Date;
+}
+
+interface SummaryRow {
+  searches: number;
+  distinct_queries: number;
+  zero_results: number | string | null;
+  errors: number | string | null;
+  avg_latency_ms: number | string | null;
+  api_searches: number | string | null;
+  clicked: number;
+}
+
+const QUERY_MAX_LENGTH = 1000;
+const ERROR_MAX_LENGTH = 255;
+const REPORT_LIMIT = 20;
+
+// Later pages of a search aren't new searches; reports count a search once, at its first page.
+// The bare wildcard is the search page's initial load or a filter change without a query, so it's left
+// out of the reports: the summary as well as the rankings.
+const FIRST_PAGE = 's.page = 0';
+const REAL_QUERY = "TRIM(s.query) NOT IN ('', '*')";
+
+// Record a search; returns the log id so clicks can be attributed to it, or null if logging failed.
+// Analytics are best effort and never fail the search itself.
+export async function logSearch(entry: SearchLogEntry): Promise<number | null> {
+  try {
+    const result = await executeQuery(
+      `INSERT INTO search_queries (user_id, source, query, filters, page, hit_count, latency_ms, error)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.userId,
+        entry.source,
+        entry.query.substring(0, QUERY_MAX_LENGTH),
+        JSON.stringify(entry.filters),
+        entry.page || 0,
+        entry.hitCount,
+        Math.round(entry.latencyMs),
+        entry.error ? entry.error.substring(0, ERROR_MAX_LENGTH) : null
+      ]
+    ) as unknown as { insertId: number };
+    return result.insertId;
+  } catch (error) {
+    console.warn('Failed to log search:', error);
+    return null;
+  }
+}
+
+export async function logSearchClick(
+  searchQueryId: number,
+  userId: number | null,
+  entityId: string,
+  position: number | null
+): Promise<void> {
+  await executeQuery(
+    'INSERT INTO search_clicks (search_query_id, user_id, entity_id, position) VALUES (?, ?, ?, ?)',
+    [searchQueryId, userId, entityId, position]
+  );
+}
+
+// Keep only the filters that were actually set, so the log stays readable
+export function compactFilters(filters: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) =>
+      value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0))
+  );
+}
+
+function mapQueryStats(row: QueryStatsRow): QueryStats {
+  return {
+    query: row.query,
+    searches: Number(row.searches),
+    avgHits: row.avg_hits !== null ? Math.round(Number(row.avg_hits) * 10) / 10 : null,
+    avgLatencyMs: Math.round(Number(row.avg_latency_ms)),
+    clickThroughRate: Number(row.api_searches) > 0 ? Number(row.clicked) / Number(row.api_searches) : 0,
+    lastSearchedAt: new Date(row.last_searched_at).toISOString()
+  };
+}
+
+function mapSlowSearch(row: SlowSearchRow): SlowSearch {
+  // mysql2 parses JSON columns, but be tolerant of drivers returning strings
+  const filters = typeof row.filters === 'string' ? JSON.parse(row.filters) : row.filters;
+  return {
+    id: row.id,
+    source: row.source,
+    query: row.query,
+    filters: filters || {},
+    hitCount: row.hit_count,
+    latencyMs: row.latency_ms,
+    createdAt: new Date(row.created_at).toISOString()
+  };
+}
+
+// Queries are grouped case-insensitively; a search counts as clicked when any of its results was opened.
+// Only the search page reports clicks, so click-through rates are over /api/search requests alone.
+async function queryStats(days: number, condition: string, orderBy: string): Promise<QueryStats[]> {
+  const query = `
+    SELECT LOWER(TRIM(s.query)) AS query, COUNT(*) AS searches, AVG(s.hit_count) AS avg_hits,
+           AVG(s.latency_ms) AS avg_latency_ms, SUM(s.source = 'api') AS api_searches,
+           COUNT(c.search_query_id) AS clicked, MAX(s.created_at) AS last_searched_at
+    FROM search_queries s
+    LEFT JOIN (SELECT DISTINCT search_query_id FROM search_clicks) c ON c.search_query_id = s.id
+    WHERE s.created_at >= NOW() - INTERVAL ? DAY AND ${FIRST_PAGE} AND ${REAL_QUERY} AND ${condition}
+    GROUP BY LOWER(TRIM(s.query))
+    ORDER BY ${orderBy}
+    LIMIT ${REPORT_LIMIT}
+  `;
+
+  const rows = await executeQuery<QueryStatsRow>(query, [days]);
+  return rows.map(mapQueryStats);
+}
+
+export async function getSearchAnalytics(days: number): Promise<SearchAnalytics> {
+  const summaryQuery = `
+    SELECT COUNT(*) AS searches, COUNT(DISTINCT LOWER(TRIM(s.query))) AS distinct_queries,
+           SUM(s.hit_count = 0) AS zero_results, SUM(s.error IS NOT NULL) AS errors,
+           AVG(s.latency_ms) AS avg_latency_ms, SUM(s.source = 'api') AS api_searches,
+           COUNT(c.search_query_id) AS clicked
+    FROM search_queries s
+    LEFT JOIN (SELECT DISTINCT search_query_id FROM search_clicks) c ON c.search_query_id = s.id
+    WHERE s.created_at >= NOW() - INTERVAL ? DAY AND ${FIRST_PAGE} AND ${REAL_QUERY}
+  `;
+
+  const clickPositionQuery = `
+    SELECT AVG(c.position) AS avg_position
+    FROM search_clicks c
+    JOIN search_queries s ON s.id = c.search_query_id
+    WHERE c.created_at >= NOW() - INTERVAL ? DAY AND ${REAL_QUERY}
+  `;
+
+  const slowestQuery = `
+    SELECT id, source, query, filters, hit_count, latency_ms, created_at
+    FROM search_queries
+    WHERE created_at >= NOW() - INTERVAL ? DAY AND error IS NULL
+    ORDER BY latency_ms DESC
+    LIMIT ${REPORT_LIMIT}
+  `;
+
+  const [summaryRows, positionRows, topQueries, zeroResultQueries, slowestRows] = await Promise.all([
+    executeQuery<SummaryRow>(summaryQuery, [days]),
+    executeQuery<{ avg_position: number | string | null }>(clickPositionQuery, [days]),
+    queryStats(days, 's.error IS NULL', 'searches DESC, last_searched_at DESC'),
+    queryStats(days, 's.hit_count = 0', 'searches DESC, last_searched_at DESC'),
+    executeQuery<SlowSearchRow>(slowestQuery, [days])
+  ]);
+
+  const summary = summaryRows[0];
+  const searches = Number(summary?.searches || 0);
+  const avgPosition = positionRows[0]?.avg_position;
+
+  return {
+    days,
+    summary: {
+      searches,
+      distinctQueries: Number(summary?.distinct_queries || 0),
+      zeroResultRate: searches > 0 ? Number(summary.zero_results || 0) / searches : 0,
+      errorRate: searches > 0 ? Number(summary.errors || 0) / searches : 0,
+      avgLatencyMs: Math.round(Number(summary?.avg_latency_ms || 0)),
+      clickThroughRate: Number(summary?.api_searches || 0) > 0
+        ? Number(summary.clicked || 0) / Number(summary.api_searches)
+        : 0,
+      avgClickPosition: avgPosition !== null && avgPosition !== undefined
+        ? Math.round(Number(avgPosition) * 10) / 10
+        : null
+    },
+    topQueries,
+    zeroResultQueries,
+    slowestSearches: slowestRows.map(mapSlowSearch)
+  };
+}
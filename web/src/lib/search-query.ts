@@ -0,0 +1,372 @@
+// Query language for catalog search:
+//
+//   owner:alice type:table -tag:deprecated "plant height"
+//   (catalog:main OR catalog:dev) AND NOT format:csv
+//   updated:[2024-01-01 TO 2024-06-30]   updated:>=30d   owner:ali*   -tag:* (untagged)
+//
+// Known fields map to Solr fields. A query of nothing but bare words has no syntax
+// to apply and is handed whole to SolrClient.buildQuery, which matches the text as
+// one string (exact, prefix and substring matches across the name and other
+// fields) rather than word by word. Once fields, phrases, NOT or OR appear, terms
+// are ANDed unless joined with OR, and each bare word gets buildQuery's matching.
+
+interface FieldDefinition {
+  solrField: string;
+  kind: 'string' | 'date';
+  // Indexed values are upper case (Databricks type and format names)
+  upperCase?: boolean;
+  lowerCase?: boolean;
+}
+
+export const QUERY_FIELDS: Record<string, FieldDefinition> = {
+  type: { solrField: 'type', kind: 'string', lowerCase: true },
+  catalog: { solrField: 'catalog_name', kind: 'string' },
+  schema: { solrField: 'schema_name', kind: 'string' },
+  owner: { solrField: 'owner', kind: 'string' },
+  tag: { solrField: 'tags', kind: 'string' },
+  data_type: { solrField: 'data_type', kind: 'string', upperCase: true },
+  format: { solrField: 'storage_format', kind: 'string', upperCase: true },
+  updated: { solrField: 'updated_at', kind: 'date' }
+};
+
+export class QuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (at position ${position})`);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+export type QueryNode =
+  | { kind: 'term'; text: string }
+  | { kind: 'phrase'; text: string }
+  | { kind: 'field'; field: string; value: string; phrase: boolean }
+  | { kind: 'range'; field: string; from: string; to: string; includeFrom: boolean; includeTo: boolean }
+  | { kind: 'not'; child: QueryNode }
+  | { kind: 'and'; children: QueryNode[] }
+  | { kind: 'or'; children: QueryNode[] };
+
+export interface CompiledQuery {
+  query: string;
+  filters: string[];
+}
+
+type Token =
+  | { type: 'word'; text: string; position: number }
+  | { type: 'phrase'; text: string; position: number }
+  | { type: 'field'; field: string; value: string; valueType: 'word' | 'phrase' | 'range'; position: number }
+  | { type: 'lparen' | 'rparen' | 'and' | 'or' | 'not'; position: number };
+
+const FIELD_PATTERN = new RegExp(`(^|[\\s(-])(${Object.keys(QUERY_FIELDS).join('|')}):`, 'i');
+
+// Whether the input uses field syntax, so natural-language rewriting should leave it alone
+export function hasFieldSyntax(input: string): boolean {
+  return FIELD_PATTERN.test(input);
+}
+
+const isSpace = (char: string) => /\s/.test(char);
+const isWordBoundary = (char: string) => isSpace(char) || char === '(' || char === ')' || char === '"';
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readPhrase = (start: number): string => {
+    // `start` is the opening quote
+    let text = '';
+    let j = start + 1;
+    while (j < input.length && input[j] !== '"') {
+      if (input[j] === '\\' && j + 1 < input.length) j++;
+      text += input[j];
+      j++;
+    }
+    if (j >= input.length) {
+      throw new QuerySyntaxError('Unterminated phrase', start);
+    }
+    i = j + 1;
+    return text;
+  };
+
+  const readWord = (start: number): string => {
+    let j = start;
+    while (j < input.length && !isWordBoundary(input[j])) j++;
+    i = j;
+    return input.slice(start, j);
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+    if (isSpace(char)) {
+      i++;
+    } else if (char === '(') {
+      tokens.push({ type: 'lparen', position: i++ });
+    } else if (char === ')') {
+      tokens.push({ type: 'rparen', position: i++ });
+    } else if (char === '"') {
+      const position = i;
+      tokens.push({ type: 'phrase', text: readPhrase(i), position });
+    } else if (char === '-' && i + 1 < input.length && !isSpace(input[i + 1])) {
+      tokens.push({ type: 'not', position: i++ });
+    } else {
+      const position = i;
+      const fieldMatch = input.slice(i).match(/^([A-Za-z_]+):/);
+      const field = fieldMatch?.[1].toLowerCase();
+
+      if (field && QUERY_FIELDS[field]) {
+        i += fieldMatch![0].length;
+        const next = input[i];
+        if (next === '"') {
+          tokens.push({ type: 'field', field, value: readPhrase(i), valueType: 'phrase', position });
+        } else if (next === '[' || next === '{') {
+          const close = input.slice(i).search(/[\]}]/);
+          if (close < 0) {
+            throw new QuerySyntaxError(`Unterminated range for ${field}`, i);
+          }
+          tokens.push({ type: 'field', field, value: input.slice(i, i + close + 1), valueType: 'range', position });
+          i += close + 1;
+        } else {
+          const value = readWord(i);
+          if (!value) {
+            throw new QuerySyntaxError(`Missing value for ${field}`, position);
+          }
+          tokens.push({ type: 'field', field, value, valueType: 'word', position });
+        }
+        continue;
+      }
+
+      const word = readWord(i);
+      if (word === 'AND' || word === '&&') tokens.push({ type: 'and', position });
+      else if (word === 'OR' || word === '||') tokens.push({ type: 'or', position });
+      else if (word === 'NOT') tokens.push({ type: 'not', position });
+      else tokens.push({ type: 'word', text: word.replace(/^\+/, ''), position });
+    }
+  }
+
+  return tokens;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const RELATIVE_PATTERN = /^(\d+)([dwmy])$/i;
+const RELATIVE_UNITS: Record<string, string> = { d: 'DAYS', w: 'DAYS', m: 'MONTHS', y: 'YEARS' };
+
+// Convert a date bound to Solr date math: YYYY-MM-DD, a relative age like 30d/4w/6m/1y, today, or *
+function toSolrDate(value: string, position: number, endOfDay = false): string {
+  if (value === '*') return '*';
+  if (value.toLowerCase() === 'today' || value.toLowerCase() === 'now') {
+    return endOfDay ? 'NOW/DAY+1DAY' : 'NOW/DAY';
+  }
+
+  const relative = value.match(RELATIVE_PATTERN);
+  if (relative) {
+    const unit = relative[2].toLowerCase();
+    const amount = parseInt(relative[1]) * (unit === 'w' ? 7 : 1);
+    return `NOW/DAY-${amount}${RELATIVE_UNITS[unit]}`;
+  }
+
+  if (DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime())) {
+    return `${value}T00:00:00Z${endOfDay ? '+1DAY' : ''}`;
+  }
+
+  throw new QuerySyntaxError(`Invalid date "${value}"; use YYYY-MM-DD, 30d, 4w, 6m, 1y or today`, position);
+}
+
+function parseFieldToken(token: Extract<Token, { type: 'field' }>): QueryNode {
+  const { field, value, valueType, position } = token;
+  const definition = QUERY_FIELDS[field];
+
+  if (definition.kind === 'string') {
+    if (valueType === 'range') {
+      throw new QuerySyntaxError(`Field ${field} does not support ranges`, position);
+    }
+    return { kind: 'field', field, value, phrase: valueType === 'phrase' };
+  }
+
+  // Date fields: [a TO b], {a TO b}, >v, >=v, <v, <=v, a bare date (that day) or a relative age (since then)
+  if (valueType === 'range') {
+    const match = value.match(/^([[{])\s*(\S+)\s+TO\s+(\S+)\s*([\]}])$/);
+    if (!match) {
+      throw new QuerySyntaxError(`Invalid range for ${field}; expected [from TO to]`, position);
+    }
+    return {
+      kind: 'range',
+      field,
+      from: toSolrDate(match[2], position),
+      to: toSolrDate(match[3], position, match[4] === ']'),
+      includeFrom: match[1] === '[',
+      includeTo: false
+    };
+  }
+
+  const comparison = value.match(/^(>=|<=|>|<)(.+)$/);
+  if (comparison) {
+    const [, operator, bound] = comparison;
+    return operator.startsWith('>')
+      ? { kind: 'range', field, from: toSolrDate(bound, position, operator === '>'), to: '*', includeFrom: true, includeTo: true }
+      : { kind: 'range', field, from: '*', to: toSolrDate(bound, position, operator === '<='), includeFrom: true, includeTo: false };
+  }
+
+  if (RELATIVE_PATTERN.test(value)) {
+    return { kind: 'range', field, from: toSolrDate(value, position), to: '*', includeFrom: true, includeTo: true };
+  }
+  return { kind: 'range', field, from: toSolrDate(value, position), to: toSolrDate(value, position, true), includeFrom: true, includeTo: false };
+}
+
+// Recursive descent over: or := and (OR and)* ; and := unary ((AND)? unary)* ; unary := NOT unary | primary
+export function parseSearchQuery(input: string): QueryNode | null {
+  const tokens = tokenize(input);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const startsOperand = (token?: Token) =>
+    !!token && (token.type === 'word' || token.type === 'phrase' || token.type === 'field' || token.type === 'lparen' || token.type === 'not');
+
+  const parsePrimary = (): QueryNode => {
+    const token = peek();
+    if (!token) {
+      throw new QuerySyntaxError('Unexpected end of query', input.length);
+    }
+    index++;
+    switch (token.type) {
+      case 'word':
+        return { kind: 'term', text: token.text };
+      case 'phrase':
+        return { kind: 'phrase', text: token.text };
+      case 'field':
+        return parseFieldToken(token);
+      case 'lparen': {
+        if (peek()?.type === 'rparen') {
+          throw new QuerySyntaxError('Empty parentheses', token.position);
+        }
+        const node = parseOr();
+        if (peek()?.type !== 'rparen') {
+          throw new QuerySyntaxError('Missing closing parenthesis', token.position);
+        }
+        index++;
+        return node;
+      }
+      default:
+        throw new QuerySyntaxError(`Unexpected ${token.type === 'rparen' ? '")"' : token.type.toUpperCase()}`, token.position);
+    }
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (token?.type === 'not') {
+      index++;
+      if (!startsOperand(peek())) {
+        throw new QuerySyntaxError('Nothing to negate', token.position);
+      }
+      return { kind: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    while (peek() && peek().type !== 'or' && peek().type !== 'rparen') {
+      const token = peek();
+      if (token.type === 'and') {
+        index++;
+        if (!startsOperand(peek())) {
+          throw new QuerySyntaxError('AND must be followed by a term', token.position);
+        }
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.type === 'or') {
+      const token = peek();
+      index++;
+      if (!startsOperand(peek())) {
+        throw new QuerySyntaxError('OR must be followed by a term', token.position);
+      }
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  };
+
+  if (tokens.length === 0) return null;
+  const root = parseOr();
+  if (index < tokens.length) {
+    throw new QuerySyntaxError('Unexpected ")"', tokens[index].position);
+  }
+  return root;
+}
+
+// True when the query is only bare words, i.e. the classic free-text search
+export function isPlainTextQuery(node: QueryNode | null): boolean {
+  if (!node) return true;
+  if (node.kind === 'term') return true;
+  if (node.kind === 'and') return node.children.every(child => child.kind === 'term');
+  return false;
+}
+
+const hasTextClause = (node: QueryNode): boolean => {
+  switch (node.kind) {
+    case 'term':
+    case 'phrase':
+      return true;
+    case 'not':
+      return hasTextClause(node.child);
+    case 'and':
+    case 'or':
+      return node.children.some(hasTextClause);
+    default:
+      return false;
+  }
+};
+
+const quote = (value: string) => `"${value.replace(/[\\"]/g, '\\$&')}"`;
+const escapeTerm = (value: string) => value.replace(/[+\-&|!(){}\[\]^"~*?:\\\/\s]/g, '\\$&');
+
+function compileNode(node: QueryNode, bareTerm: (text: string) => string): string {
+  switch (node.kind) {
+    case 'term':
+      return `(${bareTerm(node.text)})`;
+    case 'phrase':
+      return `(name:${quote(node.text)}^10 OR text:${quote(node.text)})`;
+    case 'field': {
+      const definition = QUERY_FIELDS[node.field];
+      let value = node.value;
+      if (definition.upperCase) value = value.toUpperCase();
+      if (definition.lowerCase) value = value.toLowerCase();
+      // A bare * matches any value, so -tag:* finds untagged entities
+      if (!node.phrase && value === '*') {
+        return `${definition.solrField}:*`;
+      }
+      // A trailing * on a bare value is a prefix match
+      if (!node.phrase && value.length > 1 && value.endsWith('*')) {
+        return `${definition.solrField}:${escapeTerm(value.slice(0, -1))}*`;
+      }
+      return `${definition.solrField}:${quote(value)}`;
+    }
+    case 'range': {
+      const { solrField } = QUERY_FIELDS[node.field];
+      return `${solrField}:${node.includeFrom ? '[' : '{'}${node.from} TO ${node.to}${node.includeTo ? ']' : '}'}`;
+    }
+    case 'not':
+      return `(*:* -${compileNode(node.child, bareTerm)})`;
+    case 'and':
+      return `(${node.children.map(child => compileNode(child, bareTerm)).join(' AND ')})`;
+    case 'or':
+      return `(${node.children.map(child => compileNode(child, bareTerm)).join(' OR ')})`;
+  }
+}
+
+// Compile a parsed query to a Solr q plus filter queries. Top-level clauses that only
+// restrict fields become fq (cached, unscored); text clauses stay in q.
+export function compileSearchQuery(node: QueryNode | null, bareTerm: (text: string) => string): CompiledQuery {
+  if (!node) return { query: '*:*', filters: [] };
+
+  const clauses = node.kind === 'and' ? node.children : [node];
+  const filters = clauses.filter(clause => !hasTextClause(clause)).map(clause => compileNode(clause, bareTerm));
+  const scored = clauses.filter(hasTextClause).map(clause => compileNode(clause, bareTerm));
+
+  return {
+    query: scored.length > 0 ? scored.join(' AND ') : '*:*',
+    filters
+  };
+}
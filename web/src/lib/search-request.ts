@@ -0,0 +1,56 @@
+import { SearchParams, UPDATED_RANGES, FILE_SIZE_RANGES, SORT_OPTIONS } from './solr-client';
+
+export interface SearchRequestError {
+  error: string;
+  details: string;
+}
+
+// Read the query string shared by /api/search and /api/search/export into SearchParams.
+// Facet params may repeat (?type=table&type=volume); values are ORed within a facet.
+export function parseSearchRequest(
+  searchParams: URLSearchParams
+): { params: SearchParams; error?: undefined } | { params?: undefined; error: SearchRequestError } {
+  const values = (name: string) => searchParams.getAll(name).filter(Boolean);
+  const expected = (options: Record<string, string>) => `Expected one of: ${Object.keys(options).join(', ')}`;
+
+  const params: SearchParams = {
+    q: searchParams.get('q') || '*',
+    types: values('type'),
+    catalogs: values('catalog'),
+    schemas: values('schema'),
+    table: searchParams.get('table') || undefined,
+    volume: searchParams.get('volume') || undefined,
+    owners: values('owner'),
+    tags: values('tag'),
+    dataTypes: values('data_type'),
+    storageFormats: values('format'),
+    volumeTypes: values('volume_type'),
+    updated: searchParams.get('updated') || undefined,
+    fileSizes: values('file_size'),
+    sort: searchParams.get('sort') || undefined,
+    profile: searchParams.get('profile') || undefined,
+    group: searchParams.get('group') === 'parent' ? 'parent' : undefined,
+    cursor: searchParams.get('cursor') || undefined,
+    page: searchParams.get('page') || '0',
+    size: searchParams.get('size') || '20'
+  };
+
+  const group = searchParams.get('group');
+  if (group && group !== 'parent') {
+    return { error: { error: 'Invalid group', details: 'Expected: parent' } };
+  }
+  if (params.group && params.cursor) {
+    return { error: { error: 'Invalid paging', details: 'cursor cannot be combined with group=parent; use page' } };
+  }
+  if (params.sort && !SORT_OPTIONS[params.sort]) {
+    return { error: { error: 'Invalid sort', details: expected(SORT_OPTIONS) } };
+  }
+  if (params.updated && !UPDATED_RANGES[params.updated]) {
+    return { error: { error: 'Invalid updated range', details: expected(UPDATED_RANGES) } };
+  }
+  if (params.fileSizes?.some(key => !FILE_SIZE_RANGES[key])) {
+    return { error: { error: 'Invalid file size range', details: expected(FILE_SIZE_RANGES) } };
+  }
+
+  return { params };
+}
@@ -1,9 +1,37 @@
+import { HIGHLIGHT_FIELDS, HIGHLIGHT_PRE, HIGHLIGHT_POST, HighlightFragments } from './highlight';
+import { DEFAULT_BOOSTS, getRelevanceBoosts, RelevanceBoosts } from './relevance';
+import { compileSearchQuery, hasFieldSyntax, isPlainTextQuery, parseSearchQuery } from './search-query';
+
 export interface SearchParams {
   q?: string;
+  id?: string;
   type?: string;
+  types?: string[];
+  fullName?: string;
   catalog?: string;
+  catalogs?: string[];
   schema?: string;
+  schemas?: string[];
+  table?: string;
+  volume?: string;
   owner?: string;
+  owners?: string[];
+  tags?: string[];
+  dataTypes?: string[];
+  storageFormats?: string[];
+  volumeTypes?: string[];
+  // Key of UPDATED_RANGES
+  updated?: string;
+  // Keys of FILE_SIZE_RANGES
+  fileSizes?: string[];
+  // Key of SORT_OPTIONS; defaults to relevance
+  sort?: string;
+  // Relevance profile name; defaults to the profile marked default
+  profile?: string;
+  // 'parent' collapses column and file hits under their table or volume
+  group?: 'parent';
+  // Solr cursorMark for deep paging ('*' for the first page); replaces page when set
+  cursor?: string;
   page?: string;
   size?: string;
 }
@@ -18,6 +46,7 @@ export interface SolrDocument {
   table_name?: string;
   volume_name?: string;
   file_name?: string;
+  file_path?: string;
   column_name?: string;
   description?: string;
   owner?: string;
@@ -28,9 +57,16 @@ export interface SolrDocument {
   is_directory?: boolean;
   data_type?: string;
   storage_location?: string;
+  storage_format?: string;
+  location?: string;
+  volume_type?: string;
+  is_nullable?: boolean;
+  properties?: string;
 }
 
 export interface SolrResponse {
+  nextCursorMark?: string;
+  // Absent for grouped searches
   response: {
     numFound: number;
     start: number;
@@ -38,7 +74,39 @@ export interface SolrResponse {
   };
   facet_counts?: {
     facet_fields: Record<string, (string | number)[]>;
+    facet_queries?: Record<string, number>;
   };
+  // Present instead of response for grouped searches, keyed by group field
+  grouped?: Record<string, {
+    matches: number;
+    ngroups?: number;
+    groups: {
+      groupValue: string | null;
+      doclist: { numFound: number; start: number; docs: SolrDocument[] };
+    }[];
+  }>;
+  highlighting?: Record<string, Record<string, string[]>>;
+  spellcheck?: {
+    // Flat list of alternating 'collation' keys and corrected query strings
+    collations?: unknown[];
+  };
+}
+
+// A corrected query offered when a search finds nothing
+export interface SpellingSuggestion {
+  query: string;
+  hits: number;
+}
+
+// A table or volume with the columns or files that matched under it. Entities that
+// aren't children of anything (catalogs, schemas, ...) form a group with no matches.
+export interface SearchGroup {
+  // Null when the parent isn't indexed
+  parent: SolrDocument | null;
+  // Best matching children, up to GROUP_LIMIT; excludes the parent itself
+  matches: SolrDocument[];
+  // All matching children
+  matchCount: number;
 }
 
 export interface SearchResponse {
@@ -52,9 +120,73 @@ export interface SearchResponse {
     catalogs: Record<string, number>;
     schemas: Record<string, number>;
     owners: Record<string, number>;
+    tags: Record<string, number>;
+    dataTypes: Record<string, number>;
+    storageFormats: Record<string, number>;
+    volumeTypes: Record<string, number>;
+    // Keyed by UPDATED_RANGES and FILE_SIZE_RANGES keys, including empty buckets
+    updated: Record<string, number>;
+    fileSizes: Record<string, number>;
   };
+  // Keyed by document id; only documents with at least one fragment are present
+  highlights?: Record<string, HighlightFragments>;
+  // Only for searches with no results: spell-corrected queries that do match, best first
+  suggestions?: SpellingSuggestion[];
+  // Only for group=parent; total, pages and results (the group parents) then count groups
+  groups?: SearchGroup[];
+  // Only for cursor paging: pass as cursor to get the next page; absent on the last page
+  nextCursor?: string;
 }
 
+export interface Suggestion {
+  id: string;
+  name: string;
+  fullName: string;
+  type: string;
+}
+
+const MAX_SPELLING_SUGGESTIONS = 3;
+const GROUP_LIMIT = 5;
+const GROUP_FIELD = 'group_key';
+
+export const RESULT_FIELDS = 'id,name,full_name,type,catalog_name,schema_name,table_name,volume_name,file_name,file_path,column_name,description,owner,created_at,updated_at,tags,file_size,is_directory,data_type,storage_location,storage_format,location,volume_type,is_nullable,properties';
+
+// Sort orders for /api/search?sort=; name breaks ties so paging is stable
+export const SORT_OPTIONS: Record<string, string> = {
+  relevance: 'score desc, name asc',
+  name: 'name asc',
+  updated: 'updated_at desc, name asc',
+  created: 'created_at desc, name asc',
+  size: 'file_size desc, name asc'
+};
+
+// Field facets: SearchResponse.facets key -> Solr field
+const FIELD_FACETS = {
+  types: 'type',
+  catalogs: 'catalog_name',
+  schemas: 'schema_name',
+  owners: 'owner',
+  tags: 'tags',
+  dataTypes: 'data_type',
+  storageFormats: 'storage_format',
+  volumeTypes: 'volume_type'
+} as const;
+
+// Range buckets for the updated and file size facets, keyed by the value used in filters
+export const UPDATED_RANGES: Record<string, string> = {
+  '7d': '[NOW/DAY-7DAYS TO *]',
+  '30d': '[NOW/DAY-30DAYS TO *]',
+  '90d': '[NOW/DAY-90DAYS TO *]'
+};
+
+const MB = 1024 * 1024;
+export const FILE_SIZE_RANGES: Record<string, string> = {
+  'under-1mb': `[0 TO ${MB}}`,
+  '1mb-100mb': `[${MB} TO ${100 * MB}}`,
+  '100mb-1gb': `[${100 * MB} TO ${1024 * MB}}`,
+  'over-1gb': `[${1024 * MB} TO *]`
+};
+
 export class SolrClient {
   private solrUrl: string;
 
@@ -62,35 +194,85 @@ export class SolrClient {
     this.solrUrl = `http://${process.env.SOLR_HOST}:${process.env.SOLR_PORT}/solr/${process.env.SOLR_CORE}/select`;
   }
 
-  private buildQuery(searchTerm: string): string {
+  private buildQuery(searchTerm: string, boosts: RelevanceBoosts = DEFAULT_BOOSTS): string {
     if (searchTerm === '*' || !searchTerm || searchTerm.trim() === '') {
       return '*:*';
     }
 
     const escapedTerm = searchTerm.trim().replace(/[+\-&|!(){}\[\]^"~*?:\\]/g, '\\$&');
+    const boost = (value: number) => (value === 1 ? '' : `^${value}`);
     
-    // Search across multiple fields with different strategies and boost factors
+    // Search across multiple fields with different strategies; boost factors come from the relevance profile
     return [
-      `name:"${escapedTerm}"^10`,       // Exact match in name (highest boost)
-      `name:${escapedTerm}*^5`,         // Prefix match in name
-      `name:*${escapedTerm}*^3`,        // Substring match in name
-      `text:${escapedTerm}*^2`,         // Prefix match in full-text field
-      `description:*${escapedTerm}*`,   // Substring match in description
-      `full_name:*${escapedTerm}*`,     // Substring match in full name
-      `file_name:*${escapedTerm}*`,     // Substring match in file name
-      `volume_name:*${escapedTerm}*`,   // Substring match in volume name
-      `table_name:*${escapedTerm}*`,    // Substring match in table name
-      `column_name:*${escapedTerm}*`    // Substring match in column name
+      `name:"${escapedTerm}"${boost(boosts.nameExact)}`,          // Exact match in name
+      `name:${escapedTerm}*${boost(boosts.namePrefix)}`,          // Prefix match in name
+      `name:*${escapedTerm}*${boost(boosts.nameSubstring)}`,      // Substring match in name
+      `text:${escapedTerm}*${boost(boosts.text)}`,                // Prefix match in full-text field
+      `description:*${escapedTerm}*${boost(boosts.description)}`, // Substring match in description
+      `full_name:*${escapedTerm}*${boost(boosts.fullName)}`,      // Substring match in full name
+      `file_name:*${escapedTerm}*${boost(boosts.fileName)}`,      // Substring match in file name
+      `volume_name:*${escapedTerm}*${boost(boosts.volumeName)}`,  // Substring match in volume name
+      `table_name:*${escapedTerm}*${boost(boosts.tableName)}`,    // Substring match in table name
+      `column_name:*${escapedTerm}*${boost(boosts.columnName)}`   // Substring match in column name
     ].join(' OR ');
   }
 
+  // Parse the query syntax (see search-query.ts) into a scored query and filters. Plain text keeps
+  // the fuzzy buildQuery behaviour as a whole; throws QuerySyntaxError on malformed input.
+  private compileQuery(
+    searchTerm?: string,
+    boosts: RelevanceBoosts = DEFAULT_BOOSTS
+  ): { query: string; filters: string[]; plainText: boolean } {
+    const term = (searchTerm || '').trim();
+    if (!term || term === '*') {
+      return { query: '*:*', filters: [], plainText: true };
+    }
+
+    // Parse the untrimmed input so error positions line up with what the user typed
+    const parsed = parseSearchQuery(searchTerm!);
+    if (isPlainTextQuery(parsed)) {
+      return { query: this.buildQuery(term, boosts), filters: [], plainText: true };
+    }
+    return { ...compileSearchQuery(parsed, text => this.buildQuery(text, boosts)), plainText: false };
+  }
+
+  // Quote a value for use in a field query, escaping embedded quotes and backslashes
+  private quote(value: string): string {
+    return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+  }
+
+  // A multi-select facet filter: OR within the field, tagged with the field name so the
+  // facet's own counts can exclude it ({!ex}) and keep listing the alternatives
+  private facetFilter(field: string, values: (string | undefined)[]): string | null {
+    const selected = [...new Set(values.filter((value): value is string => !!value))];
+    if (selected.length === 0) return null;
+    return `{!tag=${field}}${field}:(${selected.map(value => this.quote(value)).join(' OR ')})`;
+  }
+
+  // One fq per filter; separate filters are ANDed by Solr
   private buildFilters(params: SearchParams): string[] {
-    const filters: string[] = [];
-    if (params.type) filters.push(`type:"${params.type}"`);
-    if (params.catalog) filters.push(`catalog_name:"${params.catalog}"`);
-    if (params.schema) filters.push(`schema_name:"${params.schema}"`);
-    if (params.owner) filters.push(`owner:"${params.owner}"`);
-    return filters;
+    const filters: (string | null)[] = [
+      this.facetFilter('type', [params.type, ...(params.types || [])]),
+      this.facetFilter('catalog_name', [params.catalog, ...(params.catalogs || [])]),
+      this.facetFilter('schema_name', [params.schema, ...(params.schemas || [])]),
+      this.facetFilter('owner', [params.owner, ...(params.owners || [])]),
+      this.facetFilter('tags', params.tags || []),
+      this.facetFilter('data_type', params.dataTypes || []),
+      this.facetFilter('storage_format', params.storageFormats || []),
+      this.facetFilter('volume_type', params.volumeTypes || [])
+    ];
+    if (params.updated && UPDATED_RANGES[params.updated]) {
+      filters.push(`{!tag=updated_at}updated_at:${UPDATED_RANGES[params.updated]}`);
+    }
+    const sizeRanges = (params.fileSizes || []).filter(key => FILE_SIZE_RANGES[key]);
+    if (sizeRanges.length > 0) {
+      filters.push(`{!tag=file_size}(${sizeRanges.map(key => `file_size:${FILE_SIZE_RANGES[key]}`).join(' OR ')})`);
+    }
+    if (params.id) filters.push(`id:${this.quote(params.id)}`);
+    if (params.fullName) filters.push(`full_name:${this.quote(params.fullName)}`);
+    if (params.table) filters.push(`table_name:${this.quote(params.table)}`);
+    if (params.volume) filters.push(`volume_name:${this.quote(params.volume)}`);
+    return filters.filter((filter): filter is string => !!filter);
   }
 
   private parseFacetField(facetArray: (string | number)[]): Record<string, number> {
@@ -103,14 +285,59 @@ export class SolrClient {
     return result;
   }
 
+  private parseFacets(facetCounts: NonNullable<SolrResponse['facet_counts']>): NonNullable<SearchResponse['facets']> {
+    const fields = Object.fromEntries(
+      Object.entries(FIELD_FACETS).map(([key, field]) => [key, this.parseFacetField(facetCounts.facet_fields[field] || [])])
+    ) as Record<keyof typeof FIELD_FACETS, Record<string, number>>;
+    const queries = facetCounts.facet_queries || {};
+    const buckets = (prefix: string, ranges: Record<string, string>) =>
+      Object.fromEntries(Object.keys(ranges).map(key => [key, queries[`${prefix}_${key}`] || 0]));
+
+    return {
+      ...fields,
+      updated: buckets('updated', UPDATED_RANGES),
+      fileSizes: buckets('size', FILE_SIZE_RANGES)
+    };
+  }
+
+  // Drop documents and fields without fragments
+  private parseHighlighting(highlighting: Record<string, Record<string, string[]>>): Record<string, HighlightFragments> {
+    const result: Record<string, HighlightFragments> = {};
+    for (const [id, fields] of Object.entries(highlighting)) {
+      const fragments = Object.fromEntries(
+        Object.entries(fields).filter(([, snippets]) => snippets && snippets.length > 0)
+      );
+      if (Object.keys(fragments).length > 0) {
+        result[id] = fragments;
+      }
+    }
+    return result;
+  }
+
+  private async select(solrParams: URLSearchParams): Promise<SolrResponse> {
+    const response = await fetch(`${this.solrUrl}?${solrParams.toString()}`, {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Solr request failed: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
   async search(params: SearchParams): Promise<SearchResponse> {
-    const query = this.buildQuery(params.q || '*');
-    const filters = this.buildFilters(params);
-    
-    // Calculate pagination
+    const boosts = params.q && params.q.trim() !== '*' ? await getRelevanceBoosts(params.profile) : DEFAULT_BOOSTS;
+    const { query, filters: queryFilters, plainText } = this.compileQuery(params.q, boosts);
+    const filters = [...this.buildFilters(params), ...queryFilters];
+    const sort = SORT_OPTIONS[params.sort || 'relevance'] || SORT_OPTIONS.relevance;
+
+    // Calculate pagination; a cursor replaces the offset
     const page = parseInt(params.page || '0');
     const size = parseInt(params.size || '20');
-    const start = page * size;
+    const start = params.cursor ? 0 : page * size;
     
     // Build Solr request parameters
     const solrParams = new URLSearchParams({
@@ -118,55 +345,243 @@ export class SolrClient {
       start: start.toString(),
       rows: size.toString(),
       wt: 'json',
-      fl: 'id,name,full_name,type,catalog_name,schema_name,table_name,volume_name,file_name,column_name,description,owner,created_at,updated_at,tags,file_size,is_directory,data_type,storage_location',
+      fl: RESULT_FIELDS,
       facet: 'true',
       'facet.mincount': '1',
-      sort: params.q === '*' || !params.q || params.q.trim() === '' ? 'name asc' : 'score desc, name asc'
+      // Without a search term every score is equal, so relevance falls back to name order
+      sort: query === '*:*' && sort === SORT_OPTIONS.relevance ? SORT_OPTIONS.name : sort
     });
 
+    // Cursor paging needs the unique key as the final tie-breaker
+    if (params.cursor) {
+      solrParams.set('sort', `${solrParams.get('sort')}, id asc`);
+      solrParams.append('cursorMark', params.cursor);
+    }
+
     // Add filters if they exist
-    if (filters.length > 0) {
-      solrParams.append('fq', filters.join(' AND '));
+    filters.forEach(filter => solrParams.append('fq', filter));
+
+    // Page through groups rather than documents; facets still count documents
+    if (params.group === 'parent') {
+      solrParams.append('group', 'true');
+      solrParams.append('group.field', GROUP_FIELD);
+      solrParams.append('group.limit', String(GROUP_LIMIT + 1));
+      solrParams.append('group.ngroups', 'true');
+      solrParams.append('group.sort', SORT_OPTIONS.relevance);
     }
 
-    // Add facet fields
-    ['type', 'catalog_name', 'schema_name', 'owner'].forEach(field => {
-      solrParams.append('facet.field', field);
+    // Add facet fields, each ignoring its own selection so unselected values keep their counts
+    Object.values(FIELD_FACETS).forEach(field => {
+      solrParams.append('facet.field', `{!ex=${field}}${field}`);
     });
-
-    const response = await fetch(`${this.solrUrl}?${solrParams.toString()}`, {
-      headers: {
-        'Content-Type': 'application/json',
-      },
+    Object.entries(UPDATED_RANGES).forEach(([key, range]) => {
+      solrParams.append('facet.query', `{!ex=updated_at key=updated_${key}}updated_at:${range}`);
+    });
+    Object.entries(FILE_SIZE_RANGES).forEach(([key, range]) => {
+      solrParams.append('facet.query', `{!ex=file_size key=size_${key}}file_size:${range}`);
     });
 
-    if (!response.ok) {
-      throw new Error(`Solr request failed: ${response.status} ${response.statusText}`);
+    // Highlight matches in the long text fields so results show why they matched
+    if (query !== '*:*') {
+      solrParams.append('hl', 'true');
+      solrParams.append('hl.method', 'unified');
+      solrParams.append('hl.fl', HIGHLIGHT_FIELDS.join(','));
+      solrParams.append('hl.snippets', '2');
+      solrParams.append('hl.fragsize', '160');
+      solrParams.append('hl.tag.pre', HIGHLIGHT_PRE);
+      solrParams.append('hl.tag.post', HIGHLIGHT_POST);
+    }
+
+    // Collate spelling corrections of a plain-text search term, used if nothing matches
+    if (query !== '*:*' && plainText) {
+      solrParams.append('spellcheck', 'true');
+      solrParams.append('spellcheck.q', params.q!.trim());
+      solrParams.append('spellcheck.count', '5');
+      solrParams.append('spellcheck.collate', 'true');
+      solrParams.append('spellcheck.maxCollations', String(MAX_SPELLING_SUGGESTIONS));
     }
 
-    const data: SolrResponse = await response.json();
+    const data = await this.select(solrParams);
+    const grouped = data.grouped?.[GROUP_FIELD];
+    const groups = grouped ? await this.buildGroups(grouped.groups) : undefined;
+    const total = grouped ? grouped.ngroups ?? grouped.groups.length : data.response.numFound;
+    // Solr returns a new cursor even on the last page with results, so that page is recognised by
+    // coming up short or reaching the total
+    const lastPage = !grouped && (data.response.docs.length < size || (page + 1) * size >= total);
 
     // Format response
     return {
-      results: data.response.docs,
-      total: data.response.numFound,
+      results: groups
+        ? groups.map(group => group.parent).filter((parent): parent is SolrDocument => parent !== null)
+        : data.response.docs,
+      groups,
+      nextCursor: data.nextCursorMark && data.nextCursorMark !== params.cursor && !lastPage ? data.nextCursorMark : undefined,
+      total,
       page: page,
       size: size,
-      totalPages: Math.ceil(data.response.numFound / size),
-      facets: data.facet_counts ? {
-        types: this.parseFacetField(data.facet_counts.facet_fields.type || []),
-        catalogs: this.parseFacetField(data.facet_counts.facet_fields.catalog_name || []),
-        schemas: this.parseFacetField(data.facet_counts.facet_fields.schema_name || []),
-        owners: this.parseFacetField(data.facet_counts.facet_fields.owner || [])
-      } : undefined
+      totalPages: Math.ceil(total / size),
+      facets: data.facet_counts ? this.parseFacets(data.facet_counts) : undefined,
+      highlights: data.highlighting ? this.parseHighlighting(data.highlighting) : undefined,
+      suggestions: total === 0 && data.spellcheck
+        ? await this.countCollations(params, this.parseCollations(data.spellcheck.collations || []))
+        : undefined
     };
   }
 
+  // Attach each group's parent document, fetching the parents that didn't match themselves
+  private async buildGroups(groups: NonNullable<SolrResponse['grouped']>[string]['groups']): Promise<SearchGroup[]> {
+    const missing = groups
+      .filter(group => group.groupValue && !group.doclist.docs.some(doc => doc.id === group.groupValue))
+      .map(group => group.groupValue!);
+    const parents = new Map((await this.getDocuments(missing)).map(doc => [doc.id, doc]));
+
+    return groups.flatMap(group => {
+      const { groupValue, doclist } = group;
+      // Documents indexed before group_key existed share a null group; keep them separate
+      if (!groupValue) {
+        return doclist.docs.map(doc => ({ parent: doc, matches: [], matchCount: 0 }));
+      }
+
+      const parentMatched = doclist.docs.some(doc => doc.id === groupValue);
+      return [{
+        parent: parentMatched ? doclist.docs.find(doc => doc.id === groupValue)! : parents.get(groupValue) || null,
+        matches: doclist.docs.filter(doc => doc.id !== groupValue).slice(0, GROUP_LIMIT),
+        matchCount: doclist.numFound - (parentMatched ? 1 : 0)
+      }];
+    });
+  }
+
+  private async getDocuments(ids: string[]): Promise<SolrDocument[]> {
+    if (ids.length === 0) return [];
+    const solrParams = new URLSearchParams({
+      q: '*:*',
+      fq: `id:(${ids.map(id => this.quote(id)).join(' OR ')})`,
+      rows: ids.length.toString(),
+      wt: 'json',
+      fl: RESULT_FIELDS
+    });
+    const data = await this.select(solrParams);
+    return data.response.docs;
+  }
+
+  private parseCollations(collations: unknown[]): string[] {
+    const queries: string[] = [];
+    for (let i = 0; i < collations.length; i += 2) {
+      const value = collations[i + 1];
+      if (collations[i] === 'collation' && typeof value === 'string') {
+        queries.push(value);
+      }
+    }
+    return queries;
+  }
+
+  // Hit counts for corrected queries under the same filters; drops the ones that still match nothing
+  private async countCollations(params: SearchParams, collations: string[]): Promise<SpellingSuggestion[]> {
+    const original = (params.q || '').trim().toLowerCase();
+    const candidates = [...new Set(collations)].filter(query => query.toLowerCase() !== original);
+
+    const suggestions = await Promise.all(candidates.map(async query => {
+      const solrParams = new URLSearchParams({ q: this.buildQuery(query), rows: '0', wt: 'json' });
+      const filters = this.buildFilters(params);
+      filters.forEach(filter => solrParams.append('fq', filter));
+      const data = await this.select(solrParams);
+      return { query, hits: data.response.numFound };
+    }));
+
+    return suggestions.filter(suggestion => suggestion.hits > 0).sort((a, b) => b.hits - a.hits);
+  }
+
+  // Every document matching the search, a page at a time, using cursorMark so depth stays cheap
+  async *scan(params: SearchParams, fields: string[], pageSize: number = 1000): AsyncGenerator<SolrDocument[]> {
+    const boosts = params.q && params.q.trim() !== '*' ? await getRelevanceBoosts(params.profile) : DEFAULT_BOOSTS;
+    const { query, filters: queryFilters } = this.compileQuery(params.q, boosts);
+    const filters = [...this.buildFilters(params), ...queryFilters];
+    const sort = SORT_OPTIONS[params.sort || 'relevance'] || SORT_OPTIONS.relevance;
+    let cursor = '*';
+
+    while (true) {
+      const solrParams = new URLSearchParams({
+        q: query,
+        rows: pageSize.toString(),
+        wt: 'json',
+        fl: fields.join(','),
+        sort: `${query === '*:*' && sort === SORT_OPTIONS.relevance ? SORT_OPTIONS.name : sort}, id asc`,
+        cursorMark: cursor
+      });
+      filters.forEach(filter => solrParams.append('fq', filter));
+
+      const data = await this.select(solrParams);
+      if (data.response.docs.length > 0) {
+        yield data.response.docs;
+      }
+      if (!data.nextCursorMark || data.nextCursorMark === cursor) return;
+      cursor = data.nextCursorMark;
+    }
+  }
+
+  async getDocument(id: string): Promise<SolrDocument | null> {
+    const results = await this.search({ q: '*', id, size: '1' });
+    return results.results[0] || null;
+  }
+
+  // Search-as-you-type on the edge n-gram fields of name and full_name
+  async suggest(prefix: string, options: { limit?: number; types?: string[] } = {}): Promise<Suggestion[]> {
+    const term = prefix.trim();
+    if (!term) return [];
+
+    const quoted = this.quote(term);
+    const solrParams = new URLSearchParams({
+      q: [
+        `name_prefix:${quoted}^10`,       // Name starts with the input
+        `full_name_prefix:${quoted}^6`,   // Full path starts with the input
+        `suggest_text:${quoted}^2`        // Words of the name or path start with the input words
+      ].join(' OR '),
+      rows: (options.limit || 8).toString(),
+      wt: 'json',
+      fl: 'id,name,full_name,type',
+      sort: 'score desc, name asc'
+    });
+
+    const filters = this.buildFilters({ types: options.types });
+    filters.forEach(filter => solrParams.append('fq', filter));
+
+    const data = await this.select(solrParams);
+    return data.response.docs.map(doc => ({
+      id: doc.id,
+      name: doc.name,
+      fullName: doc.full_name,
+      type: doc.type
+    }));
+  }
+
+  // Count the documents matching the filters for each value of a field, without fetching any
+  async facetCounts(params: SearchParams, field: string, limit: number = -1): Promise<Record<string, number>> {
+    const { query, filters: queryFilters } = this.compileQuery(params.q);
+    const filters = [...this.buildFilters(params), ...queryFilters];
+    const solrParams = new URLSearchParams({
+      q: query,
+      rows: '0',
+      wt: 'json',
+      facet: 'true',
+      'facet.field': field,
+      'facet.mincount': '1',
+      'facet.limit': limit.toString()
+    });
+
+    filters.forEach(filter => solrParams.append('fq', filter));
+
+    const data = await this.select(solrParams);
+    return this.parseFacetField(data.facet_counts?.facet_fields[field] || []);
+  }
+
   // Intelligent query interpretation for natural language
   interpretNaturalLanguage(query: string): SearchParams {
     const lowerQuery = query.toLowerCase();
     const params: SearchParams = { q: query };
 
+    // Explicit field syntax already says what to look for
+    if (hasFieldSyntax(query)) return params;
+
     // Type detection
     if (lowerQuery.includes('table')) params.type = 'table';
     else if (lowerQuery.includes('schema')) params.type = 'schema';
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { ToolError } from './types';
+import { QuerySyntaxError } from '@/lib/search-query';
+import { BrAPIUnsupportedCallError } from '@/lib/brapi-client';
+
+// Normalize a thrown error into the error object carried by structured tool results
+export function toToolError(error: unknown): ToolError {
+  if (error instanceof z.ZodError) {
+    return {
+      code: 'invalid_arguments',
+      message: 'Invalid parameters',
+      details: error.errors.map(e => (e.path.length > 0 ? `${e.path.join('.')}: ${e.message}` : e.message))
+    };
+  }
+  if (error instanceof QuerySyntaxError) {
+    return { code: 'invalid_arguments', message: 'Invalid query', details: [`query: ${error.message}`] };
+  }
+  if (error instanceof BrAPIUnsupportedCallError) {
+    return { code: 'unsupported', message: error.message };
+  }
+  return {
+    code: 'upstream_error',
+    message: error instanceof Error ? error.message : 'Unknown error occurred'
+  };
+}
+
+// JSON Schema for ToolError, shared by the tools' output schemas
+export const toolErrorOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    code: { type: 'string' as const, enum: ['invalid_arguments', 'not_configured', 'unsupported', 'upstream_error'] },
+    message: { type: 'string' as const },
+    details: { type: 'array' as const, items: { type: 'string' as const } }
+  },
+  required: ['code', 'message']
+};
+
+export const paginationOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    limit: { type: 'number' as const },
+    returned: { type: 'number' as const },
+    total: { type: 'number' as const },
+    hasMore: { type: 'boolean' as const }
+  },
+  required: ['limit', 'returned', 'total', 'hasMore']
+};
@@ -0,0 +1,52 @@
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  JSONRPCMessage,
+  RequestId
+} from '@modelcontextprotocol/sdk/types.js';
+
+// Stateless Streamable HTTP transport for Next.js route handlers.
+// The SDK's StreamableHTTPServerTransport needs Node request/response objects,
+// so this one handles a single POST body and resolves with the JSON-RPC
+// responses to return as `application/json`.
+export class RequestResponseTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private pending = new Map<RequestId, (message: JSONRPCMessage) => void>();
+
+  async start(): Promise<void> {}
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      const resolve = this.pending.get(message.id);
+      if (resolve) {
+        this.pending.delete(message.id);
+        resolve(message);
+      }
+    }
+    // Server-initiated requests and notifications need a standalone SSE
+    // stream, which this stateless transport does not offer; drop them.
+  }
+
+  async close(): Promise<void> {
+    this.pending.clear();
+    this.onclose?.();
+  }
+
+  // Deliver the messages of one POST body and wait for a response to every request in it
+  async handleMessages(messages: JSONRPCMessage[]): Promise<JSONRPCMessage[]> {
+    const responses = messages
+      .filter(isJSONRPCRequest)
+      .map(request => new Promise<JSONRPCMessage>(resolve => this.pending.set(request.id, resolve)));
+
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+
+    return await Promise.all(responses);
+  }
+}
@@ -0,0 +1,243 @@
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { solrClient, SolrDocument } from '@/lib/solr-client';
+
+// Unity Catalog entities indexed in Solr, published as MCP resources:
+//   uc://{catalog}
+//   uc://{catalog}/{schema}
+//   uc://{catalog}/{schema}/{table or volume}
+
+const URI_SCHEME = 'uc://';
+const RESOURCE_TYPES = ['catalog', 'schema', 'table', 'volume'];
+const LIST_PAGE_SIZE = 100;
+const CHILD_LIMIT = 200;
+
+export const unityCatalogResourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: 'uc://{catalog}',
+    name: 'Unity Catalog catalog',
+    description: 'A catalog with its owner, tags, description and schemas',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'uc://{catalog}/{schema}',
+    name: 'Unity Catalog schema',
+    description: 'A schema with its owner, tags, description, tables and volumes',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'uc://{catalog}/{schema}/{table}',
+    name: 'Unity Catalog table or volume',
+    description: 'A table with its columns, or a volume with its top-level files',
+    mimeType: 'application/json'
+  }
+];
+
+export interface UnityCatalogResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export interface UnityCatalogResourceChild {
+  name: string;
+  type: string;
+  uri?: string;
+  dataType?: string;
+  nullable?: boolean;
+  description?: string;
+}
+
+export interface UnityCatalogResource {
+  uri: string;
+  id: string;
+  type: string;
+  name: string;
+  fullName: string;
+  description?: string;
+  owner?: string;
+  tags: string[];
+  createdAt?: string;
+  updatedAt?: string;
+  storageFormat?: string;
+  storageLocation?: string;
+  volumeType?: string;
+  columns?: UnityCatalogResourceChild[];
+  children?: UnityCatalogResourceChild[];
+}
+
+export function toResourceUri(doc: Pick<SolrDocument, 'catalog_name' | 'schema_name' | 'name' | 'type'>): string | null {
+  const parts: (string | undefined)[] = [];
+  switch (doc.type) {
+    case 'catalog':
+      parts.push(doc.name);
+      break;
+    case 'schema':
+      parts.push(doc.catalog_name, doc.name);
+      break;
+    case 'table':
+    case 'volume':
+      parts.push(doc.catalog_name, doc.schema_name, doc.name);
+      break;
+    default:
+      return null;
+  }
+  if (parts.some(part => !part)) return null;
+  return URI_SCHEME + parts.map(part => encodeURIComponent(part!)).join('/');
+}
+
+// Returns the catalog/schema/name path segments, or null if the URI is not ours
+export function parseResourceUri(uri: string): string[] | null {
+  if (!uri.startsWith(URI_SCHEME)) return null;
+  const parts = uri.slice(URI_SCHEME.length).replace(/\/+$/, '').split('/');
+  if (parts.length < 1 || parts.length > 3 || parts.some(part => !part)) return null;
+  try {
+    return parts.map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+}
+
+export async function listUnityCatalogResources(cursor?: string): Promise<{ resources: Resource[]; nextCursor?: string }> {
+  const page = cursor ? parseInt(cursor, 10) : 0;
+  if (isNaN(page) || page < 0) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+
+  const results = await solrClient.search({
+    q: '*',
+    types: RESOURCE_TYPES,
+    page: page.toString(),
+    size: LIST_PAGE_SIZE.toString()
+  });
+
+  const resources: Resource[] = [];
+  for (const doc of results.results) {
+    const uri = toResourceUri(doc);
+    if (!uri) continue;
+    resources.push({
+      uri,
+      name: doc.full_name,
+      title: `${doc.full_name} (${doc.type})`,
+      description: doc.description || undefined,
+      mimeType: 'application/json'
+    });
+  }
+
+  return {
+    resources,
+    nextCursor: page + 1 < results.totalPages ? String(page + 1) : undefined
+  };
+}
+
+const toChild = (doc: SolrDocument): UnityCatalogResourceChild => ({
+  name: doc.name,
+  type: doc.type,
+  uri: toResourceUri(doc) || undefined,
+  description: doc.description || undefined
+});
+
+async function findEntity(parts: string[]): Promise<SolrDocument | null> {
+  const types = parts.length === 1 ? ['catalog'] : parts.length === 2 ? ['schema'] : ['table', 'volume'];
+  const results = await solrClient.search({
+    q: '*',
+    types,
+    fullName: parts.join('.'),
+    size: '1'
+  });
+  return results.results[0] || null;
+}
+
+// Load the entity at a uc:// URI along with its immediate children, or null if not indexed
+export async function readUnityCatalogResource(uri: string): Promise<UnityCatalogResource | null> {
+  const parts = parseResourceUri(uri);
+  if (!parts) return null;
+
+  const doc = await findEntity(parts);
+  if (!doc) return null;
+
+  const resource: UnityCatalogResource = {
+    uri,
+    id: doc.id,
+    type: doc.type,
+    name: doc.name,
+    fullName: doc.full_name,
+    description: doc.description || undefined,
+    owner: doc.owner || undefined,
+    tags: doc.tags || [],
+    createdAt: doc.created_at,
+    updatedAt: doc.updated_at,
+    storageFormat: doc.storage_format || undefined,
+    storageLocation: doc.location || doc.storage_location || undefined,
+    volumeType: doc.volume_type || undefined
+  };
+
+  const [catalog, schema] = parts;
+  if (doc.type === 'catalog') {
+    const children = await solrClient.search({ q: '*', type: 'schema', catalog, size: CHILD_LIMIT.toString() });
+    resource.children = children.results.map(toChild);
+  } else if (doc.type === 'schema') {
+    const children = await solrClient.search({ q: '*', types: ['table', 'volume'], catalog, schema, size: CHILD_LIMIT.toString() });
+    resource.children = children.results.map(toChild);
+  } else if (doc.type === 'table') {
+    const columns = await solrClient.search({ q: '*', type: 'column', catalog, schema, table: doc.name, size: CHILD_LIMIT.toString() });
+    resource.columns = columns.results.map(column => ({
+      name: column.name,
+      type: 'column',
+      dataType: column.data_type || undefined,
+      nullable: column.is_nullable,
+      description: column.description || undefined
+    }));
+  } else if (doc.type === 'volume') {
+    const files = await solrClient.search({ q: '*', types: ['file', 'directory'], catalog, schema, volume: doc.name, size: CHILD_LIMIT.toString() });
+    resource.children = files.results.map(toChild);
+  }
+
+  return resource;
+}
+
+export function renderUnityCatalogResourceMarkdown(resource: UnityCatalogResource): string {
+  let markdown = `# ${resource.fullName} (${resource.type})\n\n`;
+
+  if (resource.description) markdown += `${resource.description}\n\n`;
+
+  if (resource.owner) markdown += `- **Owner:** ${resource.owner}\n`;
+  if (resource.tags.length > 0) markdown += `- **Tags:** ${resource.tags.map(tag => `\`${tag}\``).join(', ')}\n`;
+  if (resource.storageFormat) markdown += `- **Storage format:** ${resource.storageFormat}\n`;
+  if (resource.volumeType) markdown += `- **Volume type:** ${resource.volumeType}\n`;
+  if (resource.storageLocation) markdown += `- **Location:** ${resource.storageLocation}\n`;
+  if (resource.createdAt) markdown += `- **Created:** ${resource.createdAt}\n`;
+  if (resource.updatedAt) markdown += `- **Updated:** ${resource.updatedAt}\n`;
+
+  if (resource.columns) {
+    markdown += `\n## Columns (${resource.columns.length})\n\n`;
+    if (resource.columns.length === 0) {
+      markdown += 'No column information available.\n';
+    } else {
+      markdown += '| Name | Type | Nullable | Description |\n';
+      markdown += '|------|------|----------|-------------|\n';
+      resource.columns.forEach(column => {
+        const nullable = column.nullable === undefined ? '' : column.nullable ? 'yes' : 'no';
+        markdown += `| ${column.name} | ${column.dataType || ''} | ${nullable} | ${column.description || ''} |\n`;
+      });
+    }
+  }
+
+  if (resource.children) {
+    markdown += `\n## Contents (${resource.children.length})\n\n`;
+    resource.children.forEach(child => {
+      markdown += `- ${child.name} (${child.type})${child.uri ? ` — ${child.uri}` : ''}\n`;
+    });
+  }
+
+  return markdown;
+}
+
+export async function readUnityCatalogResourceContents(uri: string): Promise<UnityCatalogResourceContents[] | null> {
+  const resource = await readUnityCatalogResource(uri);
+  if (!resource) return null;
+
+  return [
+    { uri, mimeType: 'application/json', text: JSON.stringify(resource, null, 2) },
+    { uri, mimeType: 'text/markdown', text: renderUnityCatalogResourceMarkdown(resource) }
+  ];
+}
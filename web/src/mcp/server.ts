@@ -9,23 +9,90 @@ import {
 
 import {
   searchGermplasmByNameTool,
+  federatedSearchGermplasmTool,
   getGermplasmDetailsTool,
   testBrAPIConnectionTool,
   handleSearchGermplasmByName,
+  handleFederatedSearchGermplasm,
   handleGetGermplasmDetails,
   handleTestBrAPIConnection
 } from './tools/brapi-germplasm';
 
+import {
+  listProgramsTool,
+  listTrialsTool,
+  listStudiesTool,
+  getStudyDetailsTool,
+  listLocationsTool,
+  handleListPrograms,
+  handleListTrials,
+  handleListStudies,
+  handleGetStudyDetails,
+  handleListLocations
+} from './tools/brapi-core';
+
+import {
+  listObservationUnitsTool,
+  listObservationVariablesTool,
+  listObservationsTool,
+  handleListObservationUnits,
+  handleListObservationVariables,
+  handleListObservations
+} from './tools/brapi-phenotyping';
+
+import { isBrAPIToolAvailable } from './tools/brapi-common';
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  Tool,
+  CallToolRequestSchema,
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { ToolResult } from './types';
+import {
+  unityCatalogResourceTemplates,
+  listUnityCatalogResources,
+  readUnityCatalogResourceContents
+} from './resources/unity-catalog';
+
+// JSON-RPC error code the MCP spec assigns to unknown resources
+const RESOURCE_NOT_FOUND = -32002;
+
+export const MCP_SERVER_INFO = {
+  name: 'fairgrounds',
+  version: '0.1.0'
+};
+
 export const MCP_TOOLS = [
   searchCatalogTool,
   getTableDetailsTool,
   listCatalogsTool,
   searchGermplasmByNameTool,
+  federatedSearchGermplasmTool,
   getGermplasmDetailsTool,
-  testBrAPIConnectionTool
+  testBrAPIConnectionTool,
+  listProgramsTool,
+  listTrialsTool,
+  listStudiesTool,
+  getStudyDetailsTool,
+  listLocationsTool,
+  listObservationUnitsTool,
+  listObservationVariablesTool,
+  listObservationsTool
 ];
 
-export async function executeMCPTool(toolName: string, args: unknown): Promise<string> {
+// The tools to offer right now: BrAPI tools the active endpoint doesn't support are left out
+export async function listMCPTools(): Promise<Tool[]> {
+  const available = await Promise.all(MCP_TOOLS.map(tool => isBrAPIToolAvailable(tool.name)));
+  return MCP_TOOLS.filter((_, index) => available[index]);
+}
+
+export async function executeMCPTool(toolName: string, args: unknown): Promise<ToolResult> {
   switch (toolName) {
     case 'search_catalog':
       return await handleSearchCatalog(args);
@@ -35,18 +102,36 @@ export async function executeMCPTool(toolName: string, args: unknown): Promise<s
       return await handleListCatalogs(args);
     case 'search_germplasm_by_name':
       return await handleSearchGermplasmByName(args);
+    case 'federated_search_germplasm':
+      return await handleFederatedSearchGermplasm(args);
     case 'get_germplasm_details':
       return await handleGetGermplasmDetails(args);
     case 'test_brapi_connection':
       return await handleTestBrAPIConnection(args);
+    case 'list_programs':
+      return await handleListPrograms(args);
+    case 'list_trials':
+      return await handleListTrials(args);
+    case 'list_studies':
+      return await handleListStudies(args);
+    case 'get_study_details':
+      return await handleGetStudyDetails(args);
+    case 'list_locations':
+      return await handleListLocations(args);
+    case 'list_observation_units':
+      return await handleListObservationUnits(args);
+    case 'list_observation_variables':
+      return await handleListObservationVariables(args);
+    case 'list_observations':
+      return await handleListObservations(args);
     default:
       throw new Error(`Unknown tool: ${toolName}`);
   }
 }
 
 // Convert MCP tools to OpenAI function definitions
-export function getOpenAIFunctions() {
-  return MCP_TOOLS.map(tool => ({
+export async function getOpenAIFunctions() {
+  return (await listMCPTools()).map(tool => ({
     type: 'function' as const,
     function: {
       name: tool.name,
@@ -54,4 +139,59 @@ export function getOpenAIFunctions() {
       parameters: tool.inputSchema
     }
   }));
-}
\ No newline at end of file
+}
+
+// Build an MCP server exposing the chat assistant's tools and the indexed catalog as resources.
+// A new instance is created per transport connection.
+export function createMCPServer(): Server {
+  const server = new Server(MCP_SERVER_INFO, {
+    capabilities: {
+      tools: {},
+      resources: {}
+    }
+  });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: await listMCPTools()
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    if (!MCP_TOOLS.some(tool => tool.name === name)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+
+    const result = await executeMCPTool(name, args || {});
+    return {
+      content: [{ type: 'text' as const, text: result.content }],
+      structuredContent: result.structured as Record<string, unknown> | undefined,
+      isError: result.isError || false
+    };
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    try {
+      return await listUnityCatalogResources(request.params?.cursor);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Invalid cursor')) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: unityCatalogResourceTemplates
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const contents = await readUnityCatalogResourceContents(uri);
+    if (!contents) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+    }
+    return { contents };
+  });
+
+  return server;
+}
@@ -0,0 +1,22 @@
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { createMCPServer } from './server';
+
+// Standalone MCP server over stdio for IDE agents and other MCP clients.
+// Run with `npm run mcp:stdio`; configuration comes from the same environment
+// variables as the web app (SOLR_*, MYSQL_*).
+
+// stdout carries the JSON-RPC stream, so route tool logging to stderr
+console.log = console.error;
+console.info = console.error;
+
+async function main() {
+  const server = createMCPServer();
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error('Fairgrounds MCP server running on stdio');
+}
+
+main().catch((error) => {
+  console.error('Fatal error starting MCP server:', error);
+  process.exit(1);
+});
@@ -0,0 +1,259 @@
+import { z } from 'zod';
+import { brapiClient, BrAPIEndpoint, BrAPIResponse, BrAPIPage, collectPages } from '@/lib/brapi-client';
+import { Pagination, ToolError, ToolResult } from '../types';
+import { toToolError, toolErrorOutputSchema, paginationOutputSchema } from '../errors';
+
+// Helpers shared by the BrAPI germplasm, core and phenotyping tools
+
+export interface BrAPIEndpointInfo {
+  id: string;
+  name: string;
+  url: string;
+}
+
+export const endpointOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'string' as const },
+    name: { type: 'string' as const },
+    url: { type: 'string' as const }
+  },
+  required: ['id', 'name', 'url']
+};
+
+// Type of an entry field passed through from an endpoint; BrAPI servers send null for fields they don't have
+export const nullable = <T extends string>(type: T) => ({ type: [type, 'null'] as [T, 'null'] });
+
+// BrAPI calls each tool needs from the active endpoint; the tool is offered when the endpoint may support
+// any of them. Federated search spans several endpoints and reports unsupported ones per endpoint instead.
+const BRAPI_TOOL_CALLS: Record<string, { service: string; method: string }[]> = {
+  search_germplasm_by_name: [
+    { service: 'search/germplasm', method: 'POST' },
+    { service: 'germplasm', method: 'GET' }
+  ],
+  get_germplasm_details: [
+    { service: 'germplasm/{germplasmDbId}', method: 'GET' }
+  ],
+  list_programs: [{ service: 'programs', method: 'GET' }],
+  list_trials: [{ service: 'trials', method: 'GET' }],
+  list_studies: [{ service: 'studies', method: 'GET' }],
+  get_study_details: [{ service: 'studies/{studyDbId}', method: 'GET' }],
+  list_locations: [{ service: 'locations', method: 'GET' }],
+  list_observation_units: [{ service: 'observationunits', method: 'GET' }],
+  list_observation_variables: [{ service: 'variables', method: 'GET' }],
+  list_observations: [{ service: 'observations', method: 'GET' }]
+};
+
+// Whether to offer a tool given the active endpoint's /serverinfo. Tools are still offered when there is
+// no active endpoint or its support is unknown, so calling them explains what's wrong.
+export async function isBrAPIToolAvailable(toolName: string): Promise<boolean> {
+  const calls = BRAPI_TOOL_CALLS[toolName];
+  if (!calls) {
+    return true;
+  }
+  const endpoint = await brapiClient.getActiveEndpoint();
+  if (!endpoint) {
+    return true;
+  }
+  const support = await Promise.all(calls.map(call => brapiClient.getCallSupport(call.service, call.method, endpoint)));
+  return support.some(supported => supported !== false);
+}
+
+interface BrAPIListFields {
+  filters: Record<string, unknown>;
+  page: number;
+  endpoint?: BrAPIEndpointInfo;
+  pagination: Pagination;
+  error?: ToolError;
+}
+
+// Structured result of a list tool; the entries are under a key named for what was listed, e.g. `trials`
+export type BrAPIListResult<K extends string, T> = BrAPIListFields & { [P in K]: T[] };
+
+// Paging inputs shared by the list tools; `page` counts in units of `limit`
+export const pagingSchema = (maxLimit: number) => ({
+  limit: z.number().min(1).max(maxLimit).default(20).describe('Maximum number of results to return'),
+  page: z.number().int().min(0).default(0).describe('Page of results to return, starting at 0')
+});
+
+export const pagingInputProperties = (maxLimit: number) => ({
+  limit: {
+    type: 'number' as const,
+    minimum: 1,
+    maximum: maxLimit,
+    default: 20,
+    description: 'Maximum number of results to return'
+  },
+  page: {
+    type: 'number' as const,
+    minimum: 0,
+    default: 0,
+    description: 'Page of results to return, starting at 0'
+  }
+});
+
+export const listOutputSchema = (key: string, itemSchema: object) => ({
+  type: 'object' as const,
+  properties: {
+    filters: { type: 'object' as const },
+    page: { type: 'number' as const },
+    endpoint: endpointOutputSchema,
+    [key]: { type: 'array' as const, items: itemSchema },
+    pagination: paginationOutputSchema,
+    error: toolErrorOutputSchema
+  },
+  required: ['filters', 'page', key, 'pagination']
+});
+
+export const toEndpointInfo = ({ id, name, url }: BrAPIEndpoint): BrAPIEndpointInfo => ({ id, name, url });
+
+export const notConfiguredError = (): ToolError => ({
+  code: 'not_configured',
+  message: 'No active BrAPI endpoint configured'
+});
+
+// Read a string argument from unvalidated tool input, for error results
+export const stringArg = (args: unknown, key: string): string => {
+  const value = args && typeof args === 'object' ? (args as Record<string, unknown>)[key] : undefined;
+  return typeof value === 'string' ? value : '';
+};
+
+export const emptyPagination = (limit: number = 0): Pagination => ({ limit, returned: 0, total: 0, hasMore: false });
+
+// Fetch one tool page of a BrAPI list call and describe it as tool pagination
+export async function fetchToolPage<T>(
+  fetchPage: (page: number, pageSize: number) => Promise<BrAPIResponse<T>>,
+  limit: number,
+  page: number
+): Promise<{ data: T[]; pagination: Pagination }> {
+  const result: BrAPIPage<T> = await collectPages(fetchPage, limit, page);
+  return {
+    data: result.data,
+    pagination: { limit, returned: result.data.length, total: result.totalCount, hasMore: result.hasMore }
+  };
+}
+
+// Handle a list tool call: validate the input, fetch the requested page from the active endpoint, and
+// return the entries under `key` along with their markdown rendering. `fetchPage` gets the input's filters.
+export async function handleBrAPIListTool<S extends z.ZodType<{ limit: number; page: number }, z.ZodTypeDef, unknown>, K extends string, T>(
+  args: unknown,
+  schema: S,
+  key: K,
+  fetchPage: (filters: Omit<z.infer<S>, 'limit' | 'page'>, endpoint: BrAPIEndpoint, page: number, pageSize: number) => Promise<BrAPIResponse<T>>,
+  render: (result: BrAPIListResult<K, T>) => string
+): Promise<ToolResult<BrAPIListResult<K, T>>> {
+  const build = (fields: BrAPIListFields, entries: T[]) =>
+    ({ ...fields, [key]: entries }) as BrAPIListResult<K, T>;
+
+  let result: BrAPIListResult<K, T> = build({ filters: {}, page: 0, pagination: emptyPagination() }, []);
+  try {
+    const input = schema.parse(args);
+    const { limit, page, ...filters } = input;
+    result = build({
+      filters: Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined)),
+      page,
+      pagination: emptyPagination(limit)
+    }, []);
+
+    const endpoint = await brapiClient.getActiveEndpoint();
+    if (!endpoint) {
+      result.error = notConfiguredError();
+      return { content: render(result), structured: result, isError: true };
+    }
+    result.endpoint = toEndpointInfo(endpoint);
+
+    const { data, pagination } = await fetchToolPage(
+      (serverPage, pageSize) => fetchPage(filters as Omit<z.infer<S>, 'limit' | 'page'>, endpoint, serverPage, pageSize),
+      limit,
+      page
+    );
+    result = build({ ...result, pagination }, data);
+    return { content: render(result), structured: result };
+  } catch (error) {
+    console.error(`BrAPI ${key} list error:`, error);
+    result.error = toToolError(error);
+    return { content: render(result), structured: result, isError: true };
+  }
+}
+
+// Utility functions for formatting
+export const createSeparator = (char: string = '─', length: number = 50): string => {
+  return char.repeat(length);
+};
+
+export const formatEndpointPreamble = (endpointName: string, endpointUrl: string, searchType: string, query?: string): string => {
+  let preamble = `🧬 **${searchType} from ${endpointName}**\n`;
+  preamble += `${createSeparator('═', 60)}\n`;
+  preamble += `📡 **Source:** ${endpointUrl}\n`;
+  if (query) {
+    preamble += `🔍 **Query:** "${query}"\n`;
+  }
+  preamble += `${createSeparator('─', 40)}\n`;
+  return preamble;
+};
+
+export const renderInvalidArguments = (error: ToolError, label: string): string =>
+  `❌ **${label}:**\n${(error.details || [error.message]).map(d => `• ${d}`).join('\n')}`;
+
+// Markdown table from rows of cell values; cells are trimmed to keep the table narrow
+export const formatTable = (headers: string[], rows: (string | number | undefined)[][], maxCellLength: number = 24): string => {
+  const cell = (value: string | number | undefined) =>
+    String(value ?? '').replace(/\|/g, '/').replace(/\s+/g, ' ').substring(0, maxCellLength);
+  let table = '\n';
+  table += `| # | ${headers.join(' | ')} |\n`;
+  table += `|---|${headers.map(() => '---').join('|')}|\n`;
+  rows.forEach((row, index) => {
+    table += `| ${index + 1} | ${row.map(cell).join(' | ')} |\n`;
+  });
+  return table;
+};
+
+// Markdown for a list tool result: endpoint preamble, a table of the entries, paging and follow-up actions
+export function renderBrAPIList<K extends string, T>(
+  result: BrAPIListResult<K, T>,
+  key: K,
+  title: string,
+  table: { headers: string[]; row: (entry: T) => (string | number | undefined)[] },
+  quickActions?: (entries: T[]) => string[]
+): string {
+  const { error, endpoint, pagination, filters, page } = result;
+  const what = title.toLowerCase();
+  if (error?.code === 'not_configured') {
+    return `❌ **No BrAPI Endpoint Configured**\n\nPlease configure a BrAPI endpoint in Settings to list ${what}.`;
+  }
+  if (error?.code === 'invalid_arguments') {
+    return renderInvalidArguments(error, 'Invalid parameters');
+  }
+  if (error) {
+    return `❌ **Error listing ${what}:** ${error.message}`;
+  }
+
+  const entries = result[key] as T[];
+  const filterSummary = Object.entries(filters).map(([name, value]) => `${name}=${value}`).join(', ');
+  let content = formatEndpointPreamble(endpoint?.name || 'BrAPI', endpoint?.url || '', title, filterSummary || undefined);
+
+  if (entries.length === 0) {
+    content += `\n❌ **No ${what} found${page > 0 ? ` on page ${page}` : ''}**\n`;
+    if (filterSummary) {
+      content += `💡 Try removing or loosening the filters\n`;
+    }
+    return content;
+  }
+
+  content += `\n📊 **Found ${pagination.total} ${what} • Showing ${pagination.returned}**\n`;
+  content += formatTable(table.headers, entries.map(table.row));
+
+  if (pagination.hasMore) {
+    content += `\n📄 **Pagination:** Showing page ${page} • ask for page ${page + 1} for more\n`;
+  }
+
+  const actions = quickActions ? quickActions(entries) : [];
+  if (actions.length > 0) {
+    content += `\n🚀 **Quick Actions:**\n`;
+    actions.forEach(action => {
+      content += `• ${action}\n`;
+    });
+  }
+
+  return content;
+}
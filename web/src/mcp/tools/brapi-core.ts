@@ -0,0 +1,415 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { brapiClient, BrAPIProgram, BrAPITrial, BrAPIStudy, BrAPILocation } from '@/lib/brapi-client';
+import { ToolError, ToolResult } from '../types';
+import { toToolError, toolErrorOutputSchema } from '../errors';
+import {
+  BrAPIEndpointInfo,
+  BrAPIListResult,
+  endpointOutputSchema,
+  pagingSchema,
+  pagingInputProperties,
+  listOutputSchema,
+  nullable,
+  handleBrAPIListTool,
+  renderBrAPIList,
+  toEndpointInfo,
+  notConfiguredError,
+  stringArg,
+  createSeparator,
+  formatEndpointPreamble,
+  renderInvalidArguments
+} from './brapi-common';
+
+// BrAPI Core tools: programs, trials, studies and locations on the active endpoint
+
+const MAX_LIMIT = 100;
+
+// Input schemas
+const ListProgramsSchema = z.object({
+  programName: z.string().optional().describe('Program name to match'),
+  commonCropName: z.string().optional().describe('Filter by crop name (e.g., wheat, barley, rice)'),
+  ...pagingSchema(MAX_LIMIT)
+});
+
+const ListTrialsSchema = z.object({
+  programDbId: z.string().optional().describe('Only trials in this program'),
+  trialName: z.string().optional().describe('Trial name to match'),
+  commonCropName: z.string().optional().describe('Filter by crop name'),
+  locationDbId: z.string().optional().describe('Only trials with a study at this location'),
+  active: z.boolean().optional().describe('Only active (true) or finished (false) trials'),
+  ...pagingSchema(MAX_LIMIT)
+});
+
+const ListStudiesSchema = z.object({
+  trialDbId: z.string().optional().describe('Only studies in this trial'),
+  programDbId: z.string().optional().describe('Only studies in this program'),
+  locationDbId: z.string().optional().describe('Only studies at this location'),
+  studyName: z.string().optional().describe('Study name to match'),
+  studyType: z.string().optional().describe('Filter by study type (e.g., Yield Trial, Phenotyping)'),
+  commonCropName: z.string().optional().describe('Filter by crop name'),
+  germplasmDbId: z.string().optional().describe('Only studies that include this germplasm'),
+  active: z.boolean().optional().describe('Only active (true) or finished (false) studies'),
+  ...pagingSchema(MAX_LIMIT)
+});
+
+const ListLocationsSchema = z.object({
+  locationName: z.string().optional().describe('Location name to match'),
+  locationType: z.string().optional().describe('Filter by location type (e.g., Field, Greenhouse, Storage)'),
+  countryCode: z.string().optional().describe('Filter by ISO 3166-1 alpha-3 country code (e.g., MEX)'),
+  ...pagingSchema(MAX_LIMIT)
+});
+
+const GetStudyDetailsSchema = z.object({
+  studyDbId: z.string().describe('Unique identifier of the study'),
+  endpoint: z.string().optional().describe('Name or id of the endpoint holding the study; defaults to the active endpoint')
+});
+
+// Output schemas describing each tool's structured result; entries are passed through as returned by the
+// endpoint, so fields other than their ids may be null
+const programOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    programDbId: { type: 'string' as const },
+    programName: nullable('string'),
+    abbreviation: nullable('string'),
+    commonCropName: nullable('string'),
+    objective: nullable('string'),
+    leadPersonName: nullable('string')
+  },
+  required: ['programDbId', 'programName']
+};
+
+const trialOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    trialDbId: { type: 'string' as const },
+    trialName: nullable('string'),
+    programDbId: nullable('string'),
+    programName: nullable('string'),
+    commonCropName: nullable('string'),
+    startDate: nullable('string'),
+    endDate: nullable('string'),
+    active: nullable('boolean')
+  },
+  required: ['trialDbId', 'trialName']
+};
+
+const studyOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    studyDbId: { type: 'string' as const },
+    studyName: nullable('string'),
+    studyType: nullable('string'),
+    trialDbId: nullable('string'),
+    trialName: nullable('string'),
+    locationDbId: nullable('string'),
+    locationName: nullable('string'),
+    commonCropName: nullable('string'),
+    seasons: { ...nullable('array'), items: { type: 'string' as const } },
+    startDate: nullable('string'),
+    endDate: nullable('string'),
+    active: nullable('boolean')
+  },
+  required: ['studyDbId', 'studyName']
+};
+
+const locationOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    locationDbId: { type: 'string' as const },
+    locationName: nullable('string'),
+    locationType: nullable('string'),
+    abbreviation: nullable('string'),
+    countryCode: nullable('string'),
+    countryName: nullable('string'),
+    instituteName: nullable('string')
+  },
+  required: ['locationDbId', 'locationName']
+};
+
+const studyDetailsOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    studyDbId: { type: 'string' as const },
+    endpoint: endpointOutputSchema,
+    study: studyOutputSchema,
+    error: toolErrorOutputSchema
+  },
+  required: ['studyDbId']
+};
+
+// Tool definitions
+export const listProgramsTool: Tool = {
+  name: 'list_programs',
+  description: 'List breeding programs on the active BrAPI endpoint, optionally filtered by name or crop. Programs group trials.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      programName: { type: 'string' as const, description: 'Program name to match' },
+      commonCropName: { type: 'string' as const, description: 'Filter by crop name (e.g., wheat, barley, rice)' },
+      ...pagingInputProperties(MAX_LIMIT)
+    },
+    required: []
+  },
+  outputSchema: listOutputSchema('programs', programOutputSchema)
+};
+
+export const listTrialsTool: Tool = {
+  name: 'list_trials',
+  description: 'List trials on the active BrAPI endpoint, e.g. the trials of a program or those run at a location. Trials group studies.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      programDbId: { type: 'string' as const, description: 'Only trials in this program' },
+      trialName: { type: 'string' as const, description: 'Trial name to match' },
+      commonCropName: { type: 'string' as const, description: 'Filter by crop name' },
+      locationDbId: { type: 'string' as const, description: 'Only trials with a study at this location' },
+      active: { type: 'boolean' as const, description: 'Only active (true) or finished (false) trials' },
+      ...pagingInputProperties(MAX_LIMIT)
+    },
+    required: []
+  },
+  outputSchema: listOutputSchema('trials', trialOutputSchema)
+};
+
+export const listStudiesTool: Tool = {
+  name: 'list_studies',
+  description: 'List studies (one trial at one location in one season) on the active BrAPI endpoint, filtered by trial, program, location, type, crop or germplasm.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      trialDbId: { type: 'string' as const, description: 'Only studies in this trial' },
+      programDbId: { type: 'string' as const, description: 'Only studies in this program' },
+      locationDbId: { type: 'string' as const, description: 'Only studies at this location' },
+      studyName: { type: 'string' as const, description: 'Study name to match' },
+      studyType: { type: 'string' as const, description: 'Filter by study type (e.g., Yield Trial, Phenotyping)' },
+      commonCropName: { type: 'string' as const, description: 'Filter by crop name' },
+      germplasmDbId: { type: 'string' as const, description: 'Only studies that include this germplasm' },
+      active: { type: 'boolean' as const, description: 'Only active (true) or finished (false) studies' },
+      ...pagingInputProperties(MAX_LIMIT)
+    },
+    required: []
+  },
+  outputSchema: listOutputSchema('studies', studyOutputSchema)
+};
+
+export const listLocationsTool: Tool = {
+  name: 'list_locations',
+  description: 'List locations (fields, greenhouses, stations) on the active BrAPI endpoint, optionally filtered by name, type or country.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      locationName: { type: 'string' as const, description: 'Location name to match' },
+      locationType: { type: 'string' as const, description: 'Filter by location type (e.g., Field, Greenhouse, Storage)' },
+      countryCode: { type: 'string' as const, description: 'Filter by ISO 3166-1 alpha-3 country code (e.g., MEX)' },
+      ...pagingInputProperties(MAX_LIMIT)
+    },
+    required: []
+  },
+  outputSchema: listOutputSchema('locations', locationOutputSchema)
+};
+
+export const getStudyDetailsTool: Tool = {
+  name: 'get_study_details',
+  description: 'Get detailed information about a study (trial, location, seasons, design, dates) using its unique identifier from the BrAPI endpoint',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      studyDbId: { type: 'string' as const, description: 'Unique identifier of the study' },
+      endpoint: {
+        type: 'string' as const,
+        description: 'Name or id of the endpoint holding the study; defaults to the active endpoint'
+      }
+    },
+    required: ['studyDbId']
+  },
+  outputSchema: studyDetailsOutputSchema
+};
+
+// Structured results
+export type ProgramListResult = BrAPIListResult<'programs', BrAPIProgram>;
+export type TrialListResult = BrAPIListResult<'trials', BrAPITrial>;
+export type StudyListResult = BrAPIListResult<'studies', BrAPIStudy>;
+export type LocationListResult = BrAPIListResult<'locations', BrAPILocation>;
+
+export interface StudyDetailsResult {
+  studyDbId: string;
+  endpoint?: BrAPIEndpointInfo;
+  study?: BrAPIStudy;
+  error?: ToolError;
+}
+
+const formatDates = (startDate?: string, endDate?: string): string =>
+  [startDate, endDate].map(date => date?.substring(0, 10)).filter(Boolean).join(' → ');
+
+// Tool implementations
+export function renderProgramList(result: ProgramListResult): string {
+  return renderBrAPIList(result, 'programs', 'Programs', {
+    headers: ['Name', 'ID', 'Abbreviation', 'Crop', 'Lead'],
+    row: program => [program.programName, program.programDbId, program.abbreviation, program.commonCropName, program.leadPersonName]
+  }, programs => [
+    `List trials: "list trials in program ${programs[0].programDbId}"`
+  ]);
+}
+
+export async function handleListPrograms(args: unknown): Promise<ToolResult<ProgramListResult>> {
+  return handleBrAPIListTool(args, ListProgramsSchema, 'programs',
+    (filters, endpoint, page, pageSize) =>
+      brapiClient.listPrograms({ ...filters, page, pageSize }, endpoint),
+    renderProgramList);
+}
+
+export function renderTrialList(result: TrialListResult): string {
+  return renderBrAPIList(result, 'trials', 'Trials', {
+    headers: ['Name', 'ID', 'Program', 'Crop', 'Dates', 'Active'],
+    row: trial => [
+      trial.trialName,
+      trial.trialDbId,
+      trial.programName || trial.programDbId,
+      trial.commonCropName,
+      formatDates(trial.startDate, trial.endDate),
+      trial.active === undefined ? '' : trial.active ? 'yes' : 'no'
+    ]
+  }, trials => [
+    `List studies: "list studies in trial ${trials[0].trialDbId}"`
+  ]);
+}
+
+export async function handleListTrials(args: unknown): Promise<ToolResult<TrialListResult>> {
+  return handleBrAPIListTool(args, ListTrialsSchema, 'trials',
+    (filters, endpoint, page, pageSize) =>
+      brapiClient.listTrials({ ...filters, page, pageSize }, endpoint),
+    renderTrialList);
+}
+
+export function renderStudyList(result: StudyListResult): string {
+  return renderBrAPIList(result, 'studies', 'Studies', {
+    headers: ['Name', 'ID', 'Type', 'Trial', 'Location', 'Seasons', 'Dates'],
+    row: study => [
+      study.studyName,
+      study.studyDbId,
+      study.studyType,
+      study.trialName || study.trialDbId,
+      study.locationName || study.locationDbId,
+      study.seasons?.join(', '),
+      formatDates(study.startDate, study.endDate)
+    ]
+  }, studies => [
+    `Get details: "show me details for study ${studies[0].studyDbId}"`,
+    `List traits: "list observation variables in study ${studies[0].studyDbId}"`,
+    `List observations: "list observations in study ${studies[0].studyDbId}"`
+  ]);
+}
+
+export async function handleListStudies(args: unknown): Promise<ToolResult<StudyListResult>> {
+  return handleBrAPIListTool(args, ListStudiesSchema, 'studies',
+    (filters, endpoint, page, pageSize) =>
+      brapiClient.listStudies({ ...filters, page, pageSize }, endpoint),
+    renderStudyList);
+}
+
+export function renderLocationList(result: LocationListResult): string {
+  return renderBrAPIList(result, 'locations', 'Locations', {
+    headers: ['Name', 'ID', 'Type', 'Country', 'Institute'],
+    row: location => [
+      location.locationName,
+      location.locationDbId,
+      location.locationType,
+      location.countryName || location.countryCode,
+      location.instituteName
+    ]
+  }, locations => [
+    `List studies: "list studies at location ${locations[0].locationDbId}"`
+  ]);
+}
+
+export async function handleListLocations(args: unknown): Promise<ToolResult<LocationListResult>> {
+  return handleBrAPIListTool(args, ListLocationsSchema, 'locations',
+    (filters, endpoint, page, pageSize) =>
+      brapiClient.listLocations({ ...filters, page, pageSize }, endpoint),
+    renderLocationList);
+}
+
+export function renderStudyDetails(details: StudyDetailsResult): string {
+  const { error, endpoint, study } = details;
+  if (error?.code === 'not_configured') {
+    return `❌ **No BrAPI Endpoint Configured**\n\nPlease configure a BrAPI endpoint in Settings to access study details.`;
+  }
+  if (error?.code === 'invalid_arguments') {
+    return renderInvalidArguments(error, 'Invalid parameters');
+  }
+  if (error || !study) {
+    const endpointInfo = endpoint ? `\n📡 **Endpoint:** ${endpoint.name} (${endpoint.url})` : '';
+    return `❌ **Error getting study details:** ${error?.message || 'Unknown error occurred'}${endpointInfo}`;
+  }
+
+  let result = formatEndpointPreamble(endpoint?.name || 'BrAPI', endpoint?.url || '', 'Study Details', study.studyName);
+
+  result += `\n🧪 **${study.studyName}**\n`;
+  result += `${createSeparator('═', 60)}\n\n`;
+
+  result += `📋 **Basic Information**\n`;
+  result += `${createSeparator('─', 30)}\n`;
+  result += `• **Database ID:** ${study.studyDbId}\n`;
+  if (study.studyType) result += `• **Type:** ${study.studyType}\n`;
+  if (study.commonCropName) result += `• **Crop:** ${study.commonCropName}\n`;
+  if (study.trialName || study.trialDbId) result += `• **Trial:** ${study.trialName || ''} ${study.trialDbId ? `(${study.trialDbId})` : ''}\n`;
+  if (study.locationName || study.locationDbId) result += `• **Location:** ${study.locationName || ''} ${study.locationDbId ? `(${study.locationDbId})` : ''}\n`;
+  if (study.seasons && study.seasons.length > 0) result += `• **Seasons:** ${study.seasons.join(', ')}\n`;
+  if (study.startDate || study.endDate) result += `• **Dates:** ${formatDates(study.startDate, study.endDate)}\n`;
+  if (study.active !== undefined) result += `• **Active:** ${study.active ? 'yes' : 'no'}\n`;
+
+  if (study.studyDescription) {
+    result += `\n📝 **Description**\n`;
+    result += `${createSeparator('─', 30)}\n`;
+    result += `${study.studyDescription}\n`;
+  }
+
+  if (study.experimentalDesign?.description || study.observationUnitsDescription || study.culturalPractices) {
+    result += `\n🌱 **Design & Practices**\n`;
+    result += `${createSeparator('─', 30)}\n`;
+    if (study.experimentalDesign?.description) result += `• **Experimental Design:** ${study.experimentalDesign.description}\n`;
+    if (study.observationUnitsDescription) result += `• **Observation Units:** ${study.observationUnitsDescription}\n`;
+    if (study.culturalPractices) result += `• **Cultural Practices:** ${study.culturalPractices}\n`;
+  }
+
+  if (study.documentationURL) {
+    result += `\n📄 **Documentation**\n`;
+    result += `${createSeparator('─', 30)}\n`;
+    result += `• **URL:** ${study.documentationURL}\n`;
+  }
+
+  result += `\n🚀 **Quick Actions:**\n`;
+  result += `${createSeparator('─', 30)}\n`;
+  result += `• List traits: "list observation variables in study ${study.studyDbId}"\n`;
+  result += `• List plots: "list observation units in study ${study.studyDbId}"\n`;
+  result += `• List observations: "list observations in study ${study.studyDbId}"\n`;
+
+  return result;
+}
+
+export async function handleGetStudyDetails(args: unknown): Promise<ToolResult<StudyDetailsResult>> {
+  const result: StudyDetailsResult = { studyDbId: stringArg(args, 'studyDbId') };
+  try {
+    const input = GetStudyDetailsSchema.parse(args);
+
+    const endpoint = input.endpoint
+      ? await brapiClient.findEndpoint(input.endpoint)
+      : await brapiClient.getActiveEndpoint();
+    if (!endpoint) {
+      result.error = input.endpoint
+        ? { code: 'invalid_arguments', message: 'Unknown endpoint', details: [`endpoint: ${input.endpoint} is not configured`] }
+        : notConfiguredError();
+      return { content: renderStudyDetails(result), structured: result, isError: true };
+    }
+    result.endpoint = toEndpointInfo(endpoint);
+
+    result.study = await brapiClient.getStudy(input.studyDbId, endpoint);
+    return { content: renderStudyDetails(result), structured: result };
+  } catch (error) {
+    console.error('Get study details error:', error);
+    result.error = toToolError(error);
+    return { content: renderStudyDetails(result), structured: result, isError: true };
+  }
+}
@@ -1,27 +1,165 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { brapiClient, GermplasmEntry } from '@/lib/brapi-client';
+import { brapiClient, BrAPIEndpoint, GermplasmEntry } from '@/lib/brapi-client';
+import {
+  federatedSearchGermplasm,
+  DEFAULT_FEDERATED_TIMEOUT_MS,
+  FederatedEndpointOutcome,
+  FederatedGermplasmEntry
+} from '@/lib/brapi-federation';
+import { Pagination, ToolError, ToolResult } from '../types';
+import { toToolError, toolErrorOutputSchema, paginationOutputSchema } from '../errors';
+import {
+  BrAPIEndpointInfo,
+  endpointOutputSchema,
+  nullable,
+  toEndpointInfo,
+  notConfiguredError,
+  stringArg,
+  createSeparator,
+  formatEndpointPreamble,
+  renderInvalidArguments
+} from './brapi-common';
 
 // Input schemas for BrAPI germplasm tools
 const SearchGermplasmByNameSchema = z.object({
-  germplasmName: z.string().describe('Name or partial name of germplasm to search for'),
+  germplasmName: z.string().optional().describe('Name or partial name of germplasm to search for'),
+  germplasmNames: z.array(z.string()).optional().describe('Several germplasm names to search for at once; matches any of them'),
   includeSynonyms: z.boolean().optional().default(true).describe('Include synonym matches in search'),
   commonCropName: z.string().optional().describe('Filter by crop name (e.g., wheat, barley, rice)'),
+  commonCropNames: z.array(z.string()).optional().describe('Filter by any of several crop names'),
   limit: z.number().min(1).max(100).default(20).describe('Maximum number of results to return')
+}).refine(input => !!input.germplasmName || (input.germplasmNames?.length ?? 0) > 0, {
+  message: 'germplasmName or germplasmNames is required',
+  path: ['germplasmName']
+});
+
+const FederatedSearchGermplasmSchema = z.object({
+  germplasmName: z.string().describe('Name or partial name of germplasm to search for'),
+  includeSynonyms: z.boolean().optional().default(true).describe('Include synonym matches in search'),
+  commonCropName: z.string().optional().describe('Filter by crop name (e.g., wheat, barley, rice)'),
+  endpoints: z.array(z.string()).optional().describe('Names or ids of the endpoints to search; defaults to every endpoint enabled for federated search'),
+  limit: z.number().min(1).max(100).default(20).describe('Maximum number of results to request from each endpoint'),
+  timeoutMs: z.number().min(1000).max(60000).default(DEFAULT_FEDERATED_TIMEOUT_MS).describe('Per-endpoint timeout in milliseconds')
 });
 
 const GetGermplasmDetailsSchema = z.object({
-  germplasmDbId: z.string().describe('Unique identifier for the germplasm entry')
+  germplasmDbId: z.string().describe('Unique identifier for the germplasm entry'),
+  endpoint: z.string().optional().describe('Name or id of the endpoint holding the entry; defaults to the active endpoint')
 });
 
 const TestBrAPIConnectionSchema = z.object({
   // No parameters needed for connection test
 });
 
+// Output schemas describing each tool's structured result
+
+// Germplasm entries are passed through as returned by the BrAPI endpoint, so fields other than the id may be null
+const germplasmOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    germplasmDbId: { type: 'string' as const },
+    germplasmName: nullable('string'),
+    defaultDisplayName: nullable('string'),
+    accessionNumber: nullable('string'),
+    commonCropName: nullable('string'),
+    genus: nullable('string'),
+    species: nullable('string'),
+    instituteName: nullable('string'),
+    countryOfOriginCode: nullable('string'),
+    synonyms: { ...nullable('array'), items: { type: 'string' as const } }
+  },
+  required: ['germplasmDbId', 'germplasmName']
+};
+
+const searchGermplasmOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    query: { type: 'string' as const },
+    commonCropName: { type: 'string' as const },
+    endpoint: endpointOutputSchema,
+    germplasm: { type: 'array' as const, items: germplasmOutputSchema },
+    pagination: paginationOutputSchema,
+    error: toolErrorOutputSchema
+  },
+  required: ['query', 'germplasm', 'pagination']
+};
+
+const federatedGermplasmOutputSchema = {
+  ...germplasmOutputSchema,
+  properties: {
+    ...germplasmOutputSchema.properties,
+    germplasmPUI: nullable('string'),
+    sources: {
+      type: 'array' as const,
+      items: {
+        type: 'object' as const,
+        properties: {
+          endpointId: { type: 'string' as const },
+          endpointName: { type: 'string' as const },
+          germplasmDbId: { type: 'string' as const }
+        },
+        required: ['endpointId', 'endpointName', 'germplasmDbId']
+      }
+    }
+  },
+  required: [...germplasmOutputSchema.required, 'sources']
+};
+
+const endpointOutcomeOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    endpointId: { type: 'string' as const },
+    endpointName: { type: 'string' as const },
+    url: { type: 'string' as const },
+    status: { type: 'string' as const, enum: ['ok', 'timeout', 'error'] },
+    returned: { type: 'number' as const },
+    total: { type: 'number' as const },
+    latencyMs: { type: 'number' as const },
+    error: { type: 'string' as const }
+  },
+  required: ['endpointId', 'endpointName', 'url', 'status', 'returned', 'latencyMs']
+};
+
+const federatedSearchOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    query: { type: 'string' as const },
+    commonCropName: { type: 'string' as const },
+    endpoints: { type: 'array' as const, items: endpointOutcomeOutputSchema },
+    germplasm: { type: 'array' as const, items: federatedGermplasmOutputSchema },
+    pagination: paginationOutputSchema,
+    error: toolErrorOutputSchema
+  },
+  required: ['query', 'endpoints', 'germplasm', 'pagination']
+};
+
+const germplasmDetailsOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    germplasmDbId: { type: 'string' as const },
+    endpoint: endpointOutputSchema,
+    germplasm: germplasmOutputSchema,
+    error: toolErrorOutputSchema
+  },
+  required: ['germplasmDbId']
+};
+
+const connectionTestOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    success: { type: 'boolean' as const },
+    endpointName: { type: 'string' as const },
+    url: { type: 'string' as const },
+    error: toolErrorOutputSchema
+  },
+  required: ['success']
+};
+
 // Tool definitions
 export const searchGermplasmByNameTool: Tool = {
   name: 'search_germplasm_by_name',
-  description: 'Search for germplasm (plant genetic resources) by name using the configured BrAPI endpoint. Supports partial name matching and synonym searches.',
+  description: 'Search for germplasm (plant genetic resources) by name using the configured BrAPI endpoint. Supports partial name matching and synonym searches. Give germplasmName, or germplasmNames to look up several names at once; lists of names or crops and synonym matching need an endpoint that supports BrAPI search requests.',
   inputSchema: {
     type: 'object' as const,
     properties: {
@@ -29,6 +167,11 @@ export const searchGermplasmByNameTool: Tool = {
         type: 'string' as const,
         description: 'Name or partial name of germplasm to search for'
       },
+      germplasmNames: {
+        type: 'array' as const,
+        items: { type: 'string' as const },
+        description: 'Several germplasm names to search for at once; matches any of them'
+      },
       includeSynonyms: {
         type: 'boolean' as const,
         description: 'Include synonym matches in search',
@@ -38,6 +181,11 @@ export const searchGermplasmByNameTool: Tool = {
         type: 'string' as const,
         description: 'Filter by crop name (e.g., wheat, barley, rice)'
       },
+      commonCropNames: {
+        type: 'array' as const,
+        items: { type: 'string' as const },
+        description: 'Filter by any of several crop names'
+      },
       limit: {
         type: 'number' as const,
         minimum: 1,
@@ -46,8 +194,53 @@ export const searchGermplasmByNameTool: Tool = {
         description: 'Maximum number of results to return'
       }
     },
+    required: []
+  },
+  outputSchema: searchGermplasmOutputSchema
+};
+
+export const federatedSearchGermplasmTool: Tool = {
+  name: 'federated_search_germplasm',
+  description: 'Search for germplasm by name across several BrAPI endpoints (partner genebanks) at once. Results are de-duplicated by PUI, accession number and external references, and each hit lists the endpoints that hold it. Endpoints that fail or time out are reported without failing the search.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      germplasmName: {
+        type: 'string' as const,
+        description: 'Name or partial name of germplasm to search for'
+      },
+      includeSynonyms: {
+        type: 'boolean' as const,
+        description: 'Include synonym matches in search',
+        default: true
+      },
+      commonCropName: {
+        type: 'string' as const,
+        description: 'Filter by crop name (e.g., wheat, barley, rice)'
+      },
+      endpoints: {
+        type: 'array' as const,
+        items: { type: 'string' as const },
+        description: 'Names or ids of the endpoints to search; defaults to every endpoint enabled for federated search'
+      },
+      limit: {
+        type: 'number' as const,
+        minimum: 1,
+        maximum: 100,
+        default: 20,
+        description: 'Maximum number of results to request from each endpoint'
+      },
+      timeoutMs: {
+        type: 'number' as const,
+        minimum: 1000,
+        maximum: 60000,
+        default: DEFAULT_FEDERATED_TIMEOUT_MS,
+        description: 'Per-endpoint timeout in milliseconds'
+      }
+    },
     required: ['germplasmName']
-  }
+  },
+  outputSchema: federatedSearchOutputSchema
 };
 
 export const getGermplasmDetailsTool: Tool = {
@@ -59,10 +252,15 @@ export const getGermplasmDetailsTool: Tool = {
       germplasmDbId: {
         type: 'string' as const,
         description: 'Unique identifier for the germplasm entry'
+      },
+      endpoint: {
+        type: 'string' as const,
+        description: 'Name or id of the endpoint holding the entry (e.g. a source from federated_search_germplasm); defaults to the active endpoint'
       }
     },
     required: ['germplasmDbId']
-  }
+  },
+  outputSchema: germplasmDetailsOutputSchema
 };
 
 export const testBrAPIConnectionTool: Tool = {
@@ -72,14 +270,11 @@ export const testBrAPIConnectionTool: Tool = {
     type: 'object' as const,
     properties: {},
     required: []
-  }
+  },
+  outputSchema: connectionTestOutputSchema
 };
 
 // Utility functions for formatting
-const createSeparator = (char: string = '─', length: number = 50): string => {
-  return char.repeat(length);
-};
-
 const formatGermplasmTable = (germplasmList: GermplasmEntry[]): string => {
   if (germplasmList.length === 0) {
     return '';
@@ -105,269 +300,500 @@ const formatGermplasmTable = (germplasmList: GermplasmEntry[]): string => {
   return table;
 };
 
+// Structured results
+export interface GermplasmSearchResult {
+  query: string;
+  commonCropName?: string;
+  includeSynonyms: boolean;
+  endpoint?: BrAPIEndpointInfo;
+  germplasm: GermplasmEntry[];
+  pagination: Pagination;
+  error?: ToolError;
+}
 
-const formatEndpointPreamble = (endpointName: string, endpointUrl: string, searchType: string, query?: string): string => {
-  let preamble = `🧬 **${searchType} from ${endpointName}**\n`;
-  preamble += `${createSeparator('═', 60)}\n`;
-  preamble += `📡 **Source:** ${endpointUrl}\n`;
-  if (query) {
-    preamble += `🔍 **Query:** "${query}"\n`;
-  }
-  preamble += `${createSeparator('─', 40)}\n`;
-  return preamble;
-};
+export interface FederatedGermplasmSearchResult {
+  query: string;
+  commonCropName?: string;
+  includeSynonyms: boolean;
+  endpoints: FederatedEndpointOutcome[];
+  germplasm: FederatedGermplasmEntry[];
+  pagination: Pagination;
+  error?: ToolError;
+}
+
+export interface GermplasmDetailsResult {
+  germplasmDbId: string;
+  endpoint?: BrAPIEndpointInfo;
+  germplasm?: GermplasmEntry;
+  error?: ToolError;
+}
+
+export interface BrAPIConnectionResult {
+  success: boolean;
+  endpointName?: string;
+  url?: string;
+  error?: ToolError;
+}
 
 // Tool implementations
-export async function handleSearchGermplasmByName(args: unknown): Promise<string> {
-  try {
-    const input = SearchGermplasmByNameSchema.parse(args);
-    
-    // Get active endpoint info for preamble
-    const activeEndpoint = await brapiClient.getActiveEndpoint();
-    if (!activeEndpoint) {
-      return `❌ **No BrAPI Endpoint Configured**\n\n${createSeparator('─', 40)}\nPlease configure a BrAPI endpoint in Settings to search for germplasm data.\n\n💡 **To configure:**\n• Go to Settings page\n• Add a BrAPI endpoint URL\n• Set it as active`;
-    }
+async function searchGermplasmByName(input: z.infer<typeof SearchGermplasmByNameSchema>): Promise<GermplasmSearchResult> {
+  const names = [...(input.germplasmName ? [input.germplasmName] : []), ...(input.germplasmNames || [])];
+  const crops = [...(input.commonCropName ? [input.commonCropName] : []), ...(input.commonCropNames || [])];
+  const result: GermplasmSearchResult = {
+    query: names.join(', '),
+    commonCropName: crops.length > 0 ? crops.join(', ') : undefined,
+    includeSynonyms: input.includeSynonyms,
+    germplasm: [],
+    pagination: { limit: input.limit, returned: 0, total: 0, hasMore: false }
+  };
+
+  const activeEndpoint = await brapiClient.getActiveEndpoint();
+  if (!activeEndpoint) {
+    return { ...result, error: notConfiguredError() };
+  }
+  result.endpoint = toEndpointInfo(activeEndpoint);
+
+  const response = await brapiClient.searchGermplasm({
+    germplasmNames: names,
+    synonyms: input.includeSynonyms,
+    commonCropNames: crops,
+    pageSize: input.limit
+  }, activeEndpoint);
+
+  const germplasm = response.result.data.slice(0, input.limit);
+  const total = response.metadata.pagination.totalCount;
+  return {
+    ...result,
+    germplasm,
+    pagination: { limit: input.limit, returned: germplasm.length, total, hasMore: total > germplasm.length }
+  };
+}
 
-    // Perform the search
-    const response = await brapiClient.searchGermplasm({
-      germplasmName: input.germplasmName,
-      synonyms: input.includeSynonyms,
-      commonCropName: input.commonCropName,
-      pageSize: input.limit
-    });
+export function renderGermplasmSearch(search: GermplasmSearchResult): string {
+  const { error } = search;
+  if (error?.code === 'not_configured') {
+    return `❌ **No BrAPI Endpoint Configured**\n\n${createSeparator('─', 40)}\nPlease configure a BrAPI endpoint in Settings to search for germplasm data.\n\n💡 **To configure:**\n• Go to Settings page\n• Add a BrAPI endpoint URL\n• Set it as active`;
+  }
+  if (error?.code === 'invalid_arguments') {
+    return renderInvalidArguments(error, 'Invalid search parameters');
+  }
+  if (error) {
+    return `❌ **Error searching germplasm:** ${error.message}`;
+  }
 
-    // Format response with endpoint attribution
-    let result = formatEndpointPreamble(
-      activeEndpoint.name, 
-      activeEndpoint.url, 
-      'Germplasm Search Results',
-      input.germplasmName
-    );
-
-    if (response.result.data.length === 0) {
-      result += `\n❌ **No germplasm found matching "${input.germplasmName}"**\n\n`;
-      result += `💡 **Suggestions:**\n`;
-      result += `• Try a shorter or partial name\n`;
-      result += `• Check spelling variations\n`;
-      result += `• Remove crop filters if applied\n`;
-      if (!input.includeSynonyms) {
-        result += `• Try including synonyms in search\n`;
-      }
-      return result;
+  const { endpoint, germplasm, pagination } = search;
+
+  // Format response with endpoint attribution
+  let result = formatEndpointPreamble(
+    endpoint?.name || 'BrAPI',
+    endpoint?.url || '',
+    'Germplasm Search Results',
+    search.query
+  );
+
+  if (germplasm.length === 0) {
+    result += `\n❌ **No germplasm found matching "${search.query}"**\n\n`;
+    result += `💡 **Suggestions:**\n`;
+    result += `• Try a shorter or partial name\n`;
+    result += `• Check spelling variations\n`;
+    result += `• Remove crop filters if applied\n`;
+    if (!search.includeSynonyms) {
+      result += `• Try including synonyms in search\n`;
     }
+    return result;
+  }
 
-    // Add search summary
-    const totalResults = response.metadata.pagination.totalCount;
-    const showing = Math.min(input.limit, response.result.data.length);
-    result += `\n📊 **Found ${totalResults} result(s) • Showing ${showing}**\n`;
-
-    // Add results in table format
-    result += formatGermplasmTable(response.result.data);
-
-    // Add table legend
-    result += `\n💡 **Column Guide:**\n`;
-    result += `• **Name**: Germplasm display name\n`;
-    result += `• **ID**: Database identifier for detailed queries\n`;
-    result += `• **Accession**: Accession number\n`;
-    result += `• **Crop**: Common crop name\n`;
-    result += `• **Taxonomy**: Genus and species\n`;
-    result += `• **Institute**: Managing institution\n`;
-    result += `• **Origin**: Country of origin\n`;
-
-    // Add pagination info if needed
-    if (totalResults > input.limit) {
-      result += `\n${createSeparator('═', 50)}\n`;
-      result += `📄 **Pagination:** Showing ${showing} of ${totalResults} results\n`;
-      result += `💡 *Increase limit parameter or use more specific search terms*\n`;
-    }
+  // Add search summary
+  result += `\n📊 **Found ${pagination.total} result(s) • Showing ${pagination.returned}**\n`;
+
+  // Add results in table format
+  result += formatGermplasmTable(germplasm);
+
+  // Add table legend
+  result += `\n💡 **Column Guide:**\n`;
+  result += `• **Name**: Germplasm display name\n`;
+  result += `• **ID**: Database identifier for detailed queries\n`;
+  result += `• **Accession**: Accession number\n`;
+  result += `• **Crop**: Common crop name\n`;
+  result += `• **Taxonomy**: Genus and species\n`;
+  result += `• **Institute**: Managing institution\n`;
+  result += `• **Origin**: Country of origin\n`;
+
+  // Add pagination info if needed
+  if (pagination.total > pagination.limit) {
+    result += `\n${createSeparator('═', 50)}\n`;
+    result += `📄 **Pagination:** Showing ${pagination.returned} of ${pagination.total} results\n`;
+    result += `💡 *Increase limit parameter or use more specific search terms*\n`;
+  }
 
-    // Add quick actions
-    result += `\n🚀 **Quick Actions:**\n`;
-    if (response.result.data.length > 0) {
-      const firstId = response.result.data[0].germplasmDbId;
-      result += `• Get details: "show me details for germplasm ${firstId}"\n`;
-    }
-    result += `• Refine search: "search for ${input.commonCropName || 'crop'} germplasm named '${input.germplasmName}'"\n`;
-    result += `• Test connection: "test BrAPI connection"\n`;
+  // Add quick actions
+  result += `\n🚀 **Quick Actions:**\n`;
+  result += `• Get details: "show me details for germplasm ${germplasm[0].germplasmDbId}"\n`;
+  result += `• Refine search: "search for ${search.commonCropName || 'crop'} germplasm named '${search.query}'"\n`;
+  result += `• Test connection: "test BrAPI connection"\n`;
 
-    return result;
+  return result;
+}
+
+export async function handleSearchGermplasmByName(args: unknown): Promise<ToolResult<GermplasmSearchResult>> {
+  try {
+    const input = SearchGermplasmByNameSchema.parse(args);
+    const result = await searchGermplasmByName(input);
+    return { content: renderGermplasmSearch(result), structured: result, isError: !!result.error };
   } catch (error) {
     console.error('Search germplasm by name error:', error);
-    if (error instanceof z.ZodError) {
-      return `❌ **Invalid search parameters:**\n${error.errors.map(e => `• ${e.message}`).join('\n')}`;
+    const result: GermplasmSearchResult = {
+      query: stringArg(args, 'germplasmName'),
+      includeSynonyms: true,
+      germplasm: [],
+      pagination: { limit: 0, returned: 0, total: 0, hasMore: false },
+      error: toToolError(error)
+    };
+    return { content: renderGermplasmSearch(result), structured: result, isError: true };
+  }
+}
+
+async function federatedSearchGermplasmByName(
+  input: z.infer<typeof FederatedSearchGermplasmSchema>
+): Promise<FederatedGermplasmSearchResult> {
+  const result: FederatedGermplasmSearchResult = {
+    query: input.germplasmName,
+    commonCropName: input.commonCropName,
+    includeSynonyms: input.includeSynonyms,
+    endpoints: [],
+    germplasm: [],
+    pagination: { limit: input.limit, returned: 0, total: 0, hasMore: false }
+  };
+
+  let endpoints: BrAPIEndpoint[];
+  if (input.endpoints && input.endpoints.length > 0) {
+    const configured = await brapiClient.getEndpoints();
+    const found = await Promise.all(input.endpoints.map(ref => brapiClient.findEndpoint(ref)));
+    const unknown = input.endpoints.filter((_, index) => !found[index]);
+    if (unknown.length > 0) {
+      return {
+        ...result,
+        error: {
+          code: 'invalid_arguments',
+          message: 'Unknown endpoints',
+          details: [`endpoints: ${unknown.join(', ')} not configured; available: ${configured.map(ep => ep.name).join(', ') || 'none'}`]
+        }
+      };
     }
-    return `❌ **Error searching germplasm:** ${error instanceof Error ? error.message : 'Unknown error occurred'}`;
+    endpoints = found as BrAPIEndpoint[];
+  } else {
+    endpoints = await brapiClient.getFederatedEndpoints();
   }
+
+  if (endpoints.length === 0) {
+    return { ...result, error: { code: 'not_configured', message: 'No BrAPI endpoints configured for federated search' } };
+  }
+
+  const search = await federatedSearchGermplasm({
+    germplasmName: input.germplasmName,
+    synonyms: input.includeSynonyms,
+    commonCropName: input.commonCropName,
+    pageSize: input.limit
+  }, endpoints, input.timeoutMs);
+
+  // Totals can't be de-duplicated without fetching everything, so hasMore reflects any endpoint having more
+  const hasMore = search.endpoints.some(ep => ep.total !== undefined && ep.total > ep.returned);
+  return {
+    ...result,
+    endpoints: search.endpoints,
+    germplasm: search.germplasm,
+    pagination: { limit: input.limit, returned: search.germplasm.length, total: search.germplasm.length, hasMore }
+  };
 }
 
-export async function handleGetGermplasmDetails(args: unknown): Promise<string> {
+const formatEndpointOutcome = (outcome: FederatedEndpointOutcome): string => {
+  if (outcome.status === 'ok') {
+    const total = outcome.total !== undefined && outcome.total > outcome.returned ? ` of ${outcome.total}` : '';
+    return `✅ **${outcome.endpointName}:** ${outcome.returned}${total} result(s) in ${outcome.latencyMs} ms\n`;
+  }
+  if (outcome.status === 'timeout') {
+    return `⏱️ **${outcome.endpointName}:** timed out after ${outcome.latencyMs} ms\n`;
+  }
+  return `❌ **${outcome.endpointName}:** ${outcome.error}\n`;
+};
+
+export function renderFederatedGermplasmSearch(search: FederatedGermplasmSearchResult): string {
+  const { error } = search;
+  if (error?.code === 'not_configured') {
+    return `❌ **No BrAPI Endpoints Configured**\n\n${createSeparator('─', 40)}\nAdd BrAPI endpoints in Settings and enable them for federated search.`;
+  }
+  if (error?.code === 'invalid_arguments') {
+    return renderInvalidArguments(error, 'Invalid search parameters');
+  }
+  if (error) {
+    return `❌ **Error searching germplasm:** ${error.message}`;
+  }
+
+  const { endpoints, germplasm, pagination } = search;
+  const failed = endpoints.filter(ep => ep.status !== 'ok');
+
+  let result = `🧬 **Federated Germplasm Search across ${endpoints.length} endpoint(s)**\n`;
+  result += `${createSeparator('═', 60)}\n`;
+  result += `🔍 **Query:** "${search.query}"\n`;
+  result += `${createSeparator('─', 40)}\n`;
+  endpoints.forEach(outcome => {
+    result += formatEndpointOutcome(outcome);
+  });
+
+  if (germplasm.length === 0) {
+    result += `\n❌ **No germplasm found matching "${search.query}"**`;
+    result += failed.length > 0 ? ` on the endpoints that responded\n` : `\n`;
+    return result;
+  }
+
+  result += `\n📊 **${germplasm.length} distinct accession(s)**`;
+  const duplicates = germplasm.filter(entry => entry.sources.length > 1).length;
+  if (duplicates > 0) {
+    result += ` • ${duplicates} held by more than one endpoint`;
+  }
+  result += `\n\n`;
+
+  result += '| # | Name | Accession | Crop | Taxonomy | Institute | Sources |\n';
+  result += '|---|------|-----------|------|----------|-----------|---------|\n';
+  germplasm.forEach((entry, index) => {
+    const name = (entry.defaultDisplayName || entry.germplasmName || '').substring(0, 20);
+    const accession = (entry.accessionNumber || entry.germplasmPUI || '').substring(0, 16);
+    const crop = (entry.commonCropName || '').substring(0, 10);
+    const taxonomy = [entry.genus, entry.species].filter(Boolean).join(' ').substring(0, 15);
+    const institute = (entry.instituteName || entry.instituteCode || '').substring(0, 12);
+    const sources = entry.sources.map(source => `${source.endpointName} (${source.germplasmDbId})`).join(', ');
+    result += `| ${index + 1} | ${name} | ${accession} | ${crop} | ${taxonomy} | ${institute} | ${sources} |\n`;
+  });
+
+  if (pagination.hasMore) {
+    result += `\n📄 Some endpoints have more matches than the ${pagination.limit} requested from each\n`;
+  }
+  if (failed.length > 0) {
+    result += `\n⚠️ Results are incomplete: ${failed.map(ep => ep.endpointName).join(', ')} did not respond successfully\n`;
+  }
+
+  result += `\n🚀 **Quick Actions:**\n`;
+  result += `• Get details: "show me details for germplasm ${germplasm[0].sources[0].germplasmDbId} from ${germplasm[0].sources[0].endpointName}"\n`;
+
+  return result;
+}
+
+export async function handleFederatedSearchGermplasm(args: unknown): Promise<ToolResult<FederatedGermplasmSearchResult>> {
   try {
-    const input = GetGermplasmDetailsSchema.parse(args);
-    
-    // Get active endpoint info for preamble
-    const activeEndpoint = await brapiClient.getActiveEndpoint();
-    if (!activeEndpoint) {
-      return `❌ **No BrAPI Endpoint Configured**\n\nPlease configure a BrAPI endpoint in Settings to access germplasm details.`;
+    const input = FederatedSearchGermplasmSchema.parse(args);
+    const result = await federatedSearchGermplasmByName(input);
+    return { content: renderFederatedGermplasmSearch(result), structured: result, isError: !!result.error };
+  } catch (error) {
+    console.error('Federated germplasm search error:', error);
+    const result: FederatedGermplasmSearchResult = {
+      query: stringArg(args, 'germplasmName'),
+      includeSynonyms: true,
+      endpoints: [],
+      germplasm: [],
+      pagination: { limit: 0, returned: 0, total: 0, hasMore: false },
+      error: toToolError(error)
+    };
+    return { content: renderFederatedGermplasmSearch(result), structured: result, isError: true };
+  }
+}
+
+export function renderGermplasmDetails(details: GermplasmDetailsResult): string {
+  const { error, endpoint, germplasm } = details;
+  if (error?.code === 'not_configured') {
+    return `❌ **No BrAPI Endpoint Configured**\n\nPlease configure a BrAPI endpoint in Settings to access germplasm details.`;
+  }
+  if (error?.code === 'invalid_arguments') {
+    return renderInvalidArguments(error, 'Invalid parameters');
+  }
+  if (error || !germplasm) {
+    const message = error?.message || 'Unknown error occurred';
+    const endpointInfo = endpoint ? `\n📡 **Endpoint:** ${endpoint.name} (${endpoint.url})` : '';
+    let response = `❌ **Error getting germplasm details:** ${message}${endpointInfo}\n\n`;
+
+    if (message.includes('404') || message.includes('not found') || message.includes('does not exist')) {
+      response += `💡 **Troubleshooting:**\n`;
+      response += `• Verify the germplasm ID exists in the database\n`;
+      response += `• Check if the BrAPI endpoint supports germplasm details\n`;
+      response += `• Try searching for germplasm first to get valid IDs\n`;
+      response += `• Test the BrAPI connection: "test BrAPI connection"\n`;
+    } else if (message.includes('No active BrAPI endpoint')) {
+      response += `💡 **Solution:** Configure a BrAPI endpoint in Settings\n`;
     }
 
-    // Get germplasm details
-    const germplasm = await brapiClient.getGermplasmDetails(input.germplasmDbId);
+    return response;
+  }
 
-    // Format response with endpoint attribution
-    let result = formatEndpointPreamble(
-      activeEndpoint.name, 
-      activeEndpoint.url, 
-      'Germplasm Details',
-      germplasm.germplasmName
-    );
+  // Format response with endpoint attribution
+  let result = formatEndpointPreamble(
+    endpoint?.name || 'BrAPI',
+    endpoint?.url || '',
+    'Germplasm Details',
+    germplasm.germplasmName
+  );
+
+  // Detailed information card
+  result += `\n🧬 **${germplasm.defaultDisplayName || germplasm.germplasmName}**\n`;
+  result += `${createSeparator('═', 60)}\n\n`;
+
+  // Basic Information
+  result += `📋 **Basic Information**\n`;
+  result += `${createSeparator('─', 30)}\n`;
+  result += `• **Database ID:** ${germplasm.germplasmDbId}\n`;
+  if (germplasm.accessionNumber) result += `• **Accession Number:** ${germplasm.accessionNumber}\n`;
+  if (germplasm.commonCropName) result += `• **Crop:** ${germplasm.commonCropName}\n`;
+
+  // Taxonomy
+  if (germplasm.genus || germplasm.species || germplasm.subtaxa) {
+    result += `\n🧬 **Taxonomy**\n`;
+    result += `${createSeparator('─', 30)}\n`;
+    if (germplasm.genus) result += `• **Genus:** ${germplasm.genus}\n`;
+    if (germplasm.species) result += `• **Species:** ${germplasm.species}\n`;
+    if (germplasm.subtaxa) result += `• **Subtaxa:** ${germplasm.subtaxa}\n`;
+  }
 
-    // Detailed information card
-    result += `\n🧬 **${germplasm.defaultDisplayName || germplasm.germplasmName}**\n`;
-    result += `${createSeparator('═', 60)}\n\n`;
+  // Institution & Origin
+  if (germplasm.instituteName || germplasm.instituteCode || germplasm.countryOfOriginCode) {
+    result += `\n🏛️ **Institution & Origin**\n`;
+    result += `${createSeparator('─', 30)}\n`;
+    if (germplasm.instituteName) result += `• **Institution:** ${germplasm.instituteName}\n`;
+    if (germplasm.instituteCode) result += `• **Institute Code:** ${germplasm.instituteCode}\n`;
+    if (germplasm.countryOfOriginCode) result += `• **Country of Origin:** ${germplasm.countryOfOriginCode}\n`;
+  }
 
-    // Basic Information
-    result += `📋 **Basic Information**\n`;
+  // Breeding Information
+  if (germplasm.pedigree || germplasm.seedSource || germplasm.biologicalStatusOfAccessionCode) {
+    result += `\n🌱 **Breeding Information**\n`;
     result += `${createSeparator('─', 30)}\n`;
-    result += `• **Database ID:** ${germplasm.germplasmDbId}\n`;
-    if (germplasm.accessionNumber) result += `• **Accession Number:** ${germplasm.accessionNumber}\n`;
-    if (germplasm.commonCropName) result += `• **Crop:** ${germplasm.commonCropName}\n`;
-    
-    // Taxonomy
-    if (germplasm.genus || germplasm.species || germplasm.subtaxa) {
-      result += `\n🧬 **Taxonomy**\n`;
-      result += `${createSeparator('─', 30)}\n`;
-      if (germplasm.genus) result += `• **Genus:** ${germplasm.genus}\n`;
-      if (germplasm.species) result += `• **Species:** ${germplasm.species}\n`;
-      if (germplasm.subtaxa) result += `• **Subtaxa:** ${germplasm.subtaxa}\n`;
-    }
+    if (germplasm.pedigree) result += `• **Pedigree:** ${germplasm.pedigree}\n`;
+    if (germplasm.seedSource) result += `• **Seed Source:** ${germplasm.seedSource}\n`;
+    if (germplasm.biologicalStatusOfAccessionCode) result += `• **Biological Status:** ${germplasm.biologicalStatusOfAccessionCode}\n`;
+  }
 
-    // Institution & Origin
-    if (germplasm.instituteName || germplasm.instituteCode || germplasm.countryOfOriginCode) {
-      result += `\n🏛️ **Institution & Origin**\n`;
-      result += `${createSeparator('─', 30)}\n`;
-      if (germplasm.instituteName) result += `• **Institution:** ${germplasm.instituteName}\n`;
-      if (germplasm.instituteCode) result += `• **Institute Code:** ${germplasm.instituteCode}\n`;
-      if (germplasm.countryOfOriginCode) result += `• **Country of Origin:** ${germplasm.countryOfOriginCode}\n`;
-    }
+  // Synonyms
+  if (germplasm.synonyms && germplasm.synonyms.length > 0) {
+    result += `\n📝 **Synonyms**\n`;
+    result += `${createSeparator('─', 30)}\n`;
+    germplasm.synonyms.forEach(synonym => {
+      result += `• ${synonym}\n`;
+    });
+  }
 
-    // Breeding Information
-    if (germplasm.pedigree || germplasm.seedSource || germplasm.biologicalStatusOfAccessionCode) {
-      result += `\n🌱 **Breeding Information**\n`;
-      result += `${createSeparator('─', 30)}\n`;
-      if (germplasm.pedigree) result += `• **Pedigree:** ${germplasm.pedigree}\n`;
-      if (germplasm.seedSource) result += `• **Seed Source:** ${germplasm.seedSource}\n`;
-      if (germplasm.biologicalStatusOfAccessionCode) result += `• **Biological Status:** ${germplasm.biologicalStatusOfAccessionCode}\n`;
+  // Storage & Management
+  if (germplasm.typeOfGermplasmStorageCode || germplasm.acquisitionDate) {
+    result += `\n💾 **Storage & Management**\n`;
+    result += `${createSeparator('─', 30)}\n`;
+    if (germplasm.typeOfGermplasmStorageCode) {
+      result += `• **Storage Type:** ${germplasm.typeOfGermplasmStorageCode.join(', ')}\n`;
     }
+    if (germplasm.acquisitionDate) result += `• **Acquisition Date:** ${germplasm.acquisitionDate}\n`;
+  }
 
-    // Synonyms
-    if (germplasm.synonyms && germplasm.synonyms.length > 0) {
-      result += `\n📝 **Synonyms**\n`;
-      result += `${createSeparator('─', 30)}\n`;
-      germplasm.synonyms.forEach(synonym => {
-        result += `• ${synonym}\n`;
-      });
-    }
+  // External References
+  if (germplasm.externalReferences && germplasm.externalReferences.length > 0) {
+    result += `\n🔗 **External References**\n`;
+    result += `${createSeparator('─', 30)}\n`;
+    germplasm.externalReferences.forEach(ref => {
+      result += `• **${ref.referenceSource}:** ${ref.referenceId}\n`;
+    });
+  }
 
-    // Storage & Management
-    if (germplasm.typeOfGermplasmStorageCode || germplasm.acquisitionDate) {
-      result += `\n💾 **Storage & Management**\n`;
-      result += `${createSeparator('─', 30)}\n`;
-      if (germplasm.typeOfGermplasmStorageCode) {
-        result += `• **Storage Type:** ${germplasm.typeOfGermplasmStorageCode.join(', ')}\n`;
-      }
-      if (germplasm.acquisitionDate) result += `• **Acquisition Date:** ${germplasm.acquisitionDate}\n`;
-    }
+  // Documentation
+  if (germplasm.documentationURL) {
+    result += `\n📄 **Documentation**\n`;
+    result += `${createSeparator('─', 30)}\n`;
+    result += `• **URL:** ${germplasm.documentationURL}\n`;
+  }
 
-    // External References
-    if (germplasm.externalReferences && germplasm.externalReferences.length > 0) {
-      result += `\n🔗 **External References**\n`;
-      result += `${createSeparator('─', 30)}\n`;
-      germplasm.externalReferences.forEach(ref => {
-        result += `• **${ref.referenceSource}:** ${ref.referenceId}\n`;
-      });
-    }
+  // Quick Actions
+  result += `\n🚀 **Quick Actions:**\n`;
+  result += `${createSeparator('─', 30)}\n`;
+  if (germplasm.commonCropName) {
+    result += `• Search similar: "find ${germplasm.commonCropName} germplasm like ${germplasm.germplasmName}"\n`;
+  }
+  if (germplasm.genus) {
+    result += `• Search genus: "find ${germplasm.genus} germplasm"\n`;
+  }
+  result += `• Search by name: "search for germplasm named [name]"\n`;
 
-    // Documentation
-    if (germplasm.documentationURL) {
-      result += `\n📄 **Documentation**\n`;
-      result += `${createSeparator('─', 30)}\n`;
-      result += `• **URL:** ${germplasm.documentationURL}\n`;
-    }
+  return result;
+}
 
-    // Quick Actions
-    result += `\n🚀 **Quick Actions:**\n`;
-    result += `${createSeparator('─', 30)}\n`;
-    if (germplasm.commonCropName) {
-      result += `• Search similar: "find ${germplasm.commonCropName} germplasm like ${germplasm.germplasmName}"\n`;
-    }
-    if (germplasm.genus) {
-      result += `• Search genus: "find ${germplasm.genus} germplasm"\n`;
+export async function handleGetGermplasmDetails(args: unknown): Promise<ToolResult<GermplasmDetailsResult>> {
+  const result: GermplasmDetailsResult = { germplasmDbId: stringArg(args, 'germplasmDbId') };
+  try {
+    const input = GetGermplasmDetailsSchema.parse(args);
+
+    const endpoint = input.endpoint
+      ? await brapiClient.findEndpoint(input.endpoint)
+      : await brapiClient.getActiveEndpoint();
+    if (!endpoint) {
+      result.error = input.endpoint
+        ? { code: 'invalid_arguments', message: 'Unknown endpoint', details: [`endpoint: ${input.endpoint} is not configured`] }
+        : notConfiguredError();
+      return { content: renderGermplasmDetails(result), structured: result, isError: true };
     }
-    result += `• Search by name: "search for germplasm named [name]"\n`;
+    result.endpoint = toEndpointInfo(endpoint);
 
-    return result;
+    result.germplasm = await brapiClient.getGermplasmDetails(input.germplasmDbId, endpoint);
+    return { content: renderGermplasmDetails(result), structured: result };
   } catch (error) {
     console.error('Get germplasm details error:', error);
-    
-    const activeEndpoint = await brapiClient.getActiveEndpoint();
-    const endpointInfo = activeEndpoint ? `\n📡 **Endpoint:** ${activeEndpoint.name} (${activeEndpoint.url})` : '';
-    
-    if (error instanceof z.ZodError) {
-      return `❌ **Invalid parameters:**\n${error.errors.map(e => `• ${e.message}`).join('\n')}`;
-    }
-    
-    if (error instanceof Error) {
-      let response = `❌ **Error getting germplasm details:** ${error.message}${endpointInfo}\n\n`;
-      
-      if (error.message.includes('404') || error.message.includes('not found')) {
-        response += `💡 **Troubleshooting:**\n`;
-        response += `• Verify the germplasm ID exists in the database\n`;
-        response += `• Check if the BrAPI endpoint supports germplasm details\n`;
-        response += `• Try searching for germplasm first to get valid IDs\n`;
-        response += `• Test the BrAPI connection: "test BrAPI connection"\n`;
-      } else if (error.message.includes('No active BrAPI endpoint')) {
-        response += `💡 **Solution:** Configure a BrAPI endpoint in Settings\n`;
-      }
-      
-      return response;
-    }
-    
-    return `❌ **Error getting germplasm details:** Unknown error occurred${endpointInfo}`;
+    result.error = toToolError(error);
+    return { content: renderGermplasmDetails(result), structured: result, isError: true };
+  }
+}
+
+export function renderBrAPIConnection(connection: BrAPIConnectionResult): string {
+  if (connection.success) {
+    let response = `✅ **BrAPI Connection Successful**\n`;
+    response += `${createSeparator('═', 50)}\n`;
+    if (connection.endpointName) response += `📡 **Endpoint:** ${connection.endpointName}\n`;
+    if (connection.url) response += `🔗 **URL:** ${connection.url}\n`;
+    response += `✨ **Status:** Connected and ready for germplasm queries\n\n`;
+    response += `🚀 **Try these commands:**\n`;
+    response += `• "search for wheat germplasm named BR1502"\n`;
+    response += `• "find barley germplasm with golden in the name"\n`;
+    response += `• "show me details for germplasm ID [ID]"\n`;
+    return response;
   }
+
+  let response = `❌ **BrAPI Connection Failed**\n`;
+  response += `${createSeparator('═', 50)}\n`;
+  if (connection.endpointName) response += `📡 **Endpoint:** ${connection.endpointName}\n`;
+  if (connection.url) response += `🔗 **URL:** ${connection.url}\n`;
+  if (connection.error) response += `💥 **Error:** ${connection.error.message}\n\n`;
+  response += `💡 **Troubleshooting:**\n`;
+  response += `• Check if the BrAPI endpoint URL is correct\n`;
+  response += `• Verify the endpoint is accessible and running\n`;
+  response += `• Ensure the endpoint supports BrAPI v2 specification\n`;
+  response += `• Check Settings to configure a different endpoint\n`;
+  return response;
 }
 
-export async function handleTestBrAPIConnection(args: unknown): Promise<string> {
+export async function handleTestBrAPIConnection(args: unknown): Promise<ToolResult<BrAPIConnectionResult>> {
   try {
     TestBrAPIConnectionSchema.parse(args);
-    
-    const result = await brapiClient.testConnection();
-    
-    if (result.success) {
-      let response = `✅ **BrAPI Connection Successful**\n`;
-      response += `${createSeparator('═', 50)}\n`;
-      if (result.endpointName) response += `📡 **Endpoint:** ${result.endpointName}\n`;
-      if (result.url) response += `🔗 **URL:** ${result.url}\n`;
-      response += `✨ **Status:** Connected and ready for germplasm queries\n\n`;
-      response += `🚀 **Try these commands:**\n`;
-      response += `• "search for wheat germplasm named BR1502"\n`;
-      response += `• "find barley germplasm with golden in the name"\n`;
-      response += `• "show me details for germplasm ID [ID]"\n`;
-      return response;
-    } else {
-      let response = `❌ **BrAPI Connection Failed**\n`;
-      response += `${createSeparator('═', 50)}\n`;
-      if (result.endpointName) response += `📡 **Endpoint:** ${result.endpointName}\n`;
-      if (result.url) response += `🔗 **URL:** ${result.url}\n`;
-      if (result.error) response += `💥 **Error:** ${result.error}\n\n`;
-      response += `💡 **Troubleshooting:**\n`;
-      response += `• Check if the BrAPI endpoint URL is correct\n`;
-      response += `• Verify the endpoint is accessible and running\n`;
-      response += `• Ensure the endpoint supports BrAPI v2 specification\n`;
-      response += `• Check Settings to configure a different endpoint\n`;
-      return response;
+
+    const test = await brapiClient.testConnection();
+    const result: BrAPIConnectionResult = {
+      success: test.success,
+      endpointName: test.endpointName,
+      url: test.url
+    };
+    if (!test.success) {
+      result.error = test.url
+        ? { code: 'upstream_error', message: test.error || 'Unknown error' }
+        : notConfiguredError();
     }
+
+    return { content: renderBrAPIConnection(result), structured: result };
   } catch (error) {
     console.error('Test BrAPI connection error:', error);
-    return `❌ **Error testing connection:** ${error instanceof Error ? error.message : 'Unknown error occurred'}`;
+    const result: BrAPIConnectionResult = { success: false, error: toToolError(error) };
+    return {
+      content: `❌ **Error testing connection:** ${result.error!.message}`,
+      structured: result,
+      isError: true
+    };
   }
-}
\ No newline at end of file
+}
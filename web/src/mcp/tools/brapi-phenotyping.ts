@@ -0,0 +1,265 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { brapiClient, BrAPIObservationUnit, BrAPIObservationVariable, BrAPIObservation } from '@/lib/brapi-client';
+import { ToolResult } from '../types';
+import {
+  BrAPIListResult,
+  pagingSchema,
+  pagingInputProperties,
+  listOutputSchema,
+  nullable,
+  handleBrAPIListTool,
+  renderBrAPIList
+} from './brapi-common';
+
+// BrAPI Phenotyping tools: observation units, observation variables and observations on the active endpoint
+
+// Studies often have thousands of plots and observations, so these lists span several server pages
+const MAX_UNITS_LIMIT = 1000;
+const MAX_VARIABLES_LIMIT = 100;
+const MAX_OBSERVATIONS_LIMIT = 1000;
+
+// Input schemas
+const ListObservationUnitsSchema = z.object({
+  studyDbId: z.string().optional().describe('Only units in this study'),
+  trialDbId: z.string().optional().describe('Only units in this trial'),
+  locationDbId: z.string().optional().describe('Only units at this location'),
+  germplasmDbId: z.string().optional().describe('Only units of this germplasm'),
+  observationLevel: z.string().optional().describe('Only units at this level (e.g., plot, plant, block)'),
+  ...pagingSchema(MAX_UNITS_LIMIT)
+});
+
+const ListObservationVariablesSchema = z.object({
+  studyDbId: z.string().optional().describe('Only variables measured in this study'),
+  observationVariableName: z.string().optional().describe('Variable name to match'),
+  traitClass: z.string().optional().describe('Filter by trait class (e.g., morphological, agronomic, phenological)'),
+  commonCropName: z.string().optional().describe('Filter by crop name'),
+  ...pagingSchema(MAX_VARIABLES_LIMIT)
+});
+
+const ListObservationsSchema = z.object({
+  studyDbId: z.string().optional().describe('Only observations in this study'),
+  observationUnitDbId: z.string().optional().describe('Only observations of this unit'),
+  germplasmDbId: z.string().optional().describe('Only observations of this germplasm'),
+  observationVariableDbId: z.string().optional().describe('Only observations of this variable'),
+  seasonDbId: z.string().optional().describe('Only observations in this season'),
+  ...pagingSchema(MAX_OBSERVATIONS_LIMIT)
+});
+
+// Output schemas describing each tool's structured result; entries are passed through as returned by the
+// endpoint, so fields other than their ids may be null
+const observationUnitOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    observationUnitDbId: { type: 'string' as const },
+    observationUnitName: nullable('string'),
+    germplasmDbId: nullable('string'),
+    germplasmName: nullable('string'),
+    studyDbId: nullable('string'),
+    studyName: nullable('string'),
+    observationUnitPosition: nullable('object')
+  },
+  required: ['observationUnitDbId']
+};
+
+const observationVariableOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    observationVariableDbId: { type: 'string' as const },
+    observationVariableName: nullable('string'),
+    commonCropName: nullable('string'),
+    trait: {
+      ...nullable('object'),
+      properties: {
+        traitDbId: nullable('string'),
+        traitName: nullable('string'),
+        traitClass: nullable('string'),
+        traitDescription: nullable('string')
+      }
+    },
+    method: {
+      ...nullable('object'),
+      properties: {
+        methodDbId: nullable('string'),
+        methodName: nullable('string'),
+        methodClass: nullable('string'),
+        description: nullable('string')
+      }
+    },
+    scale: {
+      ...nullable('object'),
+      properties: {
+        scaleDbId: nullable('string'),
+        scaleName: nullable('string'),
+        dataType: nullable('string'),
+        validValues: nullable('object')
+      }
+    }
+  },
+  required: ['observationVariableDbId', 'observationVariableName']
+};
+
+const observationOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    observationDbId: { type: 'string' as const },
+    observationUnitDbId: { type: 'string' as const },
+    observationUnitName: nullable('string'),
+    observationVariableDbId: { type: 'string' as const },
+    observationVariableName: nullable('string'),
+    germplasmDbId: nullable('string'),
+    germplasmName: nullable('string'),
+    value: nullable('string'),
+    observationTimeStamp: nullable('string')
+  },
+  required: ['observationDbId', 'observationUnitDbId', 'observationVariableDbId']
+};
+
+// Tool definitions
+export const listObservationUnitsTool: Tool = {
+  name: 'list_observation_units',
+  description: 'List observation units (plots, plants, blocks) on the active BrAPI endpoint, e.g. the plots of a study, with the germplasm planted in each and its position.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      studyDbId: { type: 'string' as const, description: 'Only units in this study' },
+      trialDbId: { type: 'string' as const, description: 'Only units in this trial' },
+      locationDbId: { type: 'string' as const, description: 'Only units at this location' },
+      germplasmDbId: { type: 'string' as const, description: 'Only units of this germplasm' },
+      observationLevel: { type: 'string' as const, description: 'Only units at this level (e.g., plot, plant, block)' },
+      ...pagingInputProperties(MAX_UNITS_LIMIT)
+    },
+    required: []
+  },
+  outputSchema: listOutputSchema('observationUnits', observationUnitOutputSchema)
+};
+
+export const listObservationVariablesTool: Tool = {
+  name: 'list_observation_variables',
+  description: 'List observation variables (traits) on the active BrAPI endpoint, e.g. those measured in a study. Each variable is a trait measured by a method on a scale, with its data type and valid values.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      studyDbId: { type: 'string' as const, description: 'Only variables measured in this study' },
+      observationVariableName: { type: 'string' as const, description: 'Variable name to match' },
+      traitClass: { type: 'string' as const, description: 'Filter by trait class (e.g., morphological, agronomic, phenological)' },
+      commonCropName: { type: 'string' as const, description: 'Filter by crop name' },
+      ...pagingInputProperties(MAX_VARIABLES_LIMIT)
+    },
+    required: []
+  },
+  outputSchema: listOutputSchema('observationVariables', observationVariableOutputSchema)
+};
+
+export const listObservationsTool: Tool = {
+  name: 'list_observations',
+  description: 'List phenotypic observations (measured values) on the active BrAPI endpoint, filtered by study, observation unit, germplasm, variable or season.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      studyDbId: { type: 'string' as const, description: 'Only observations in this study' },
+      observationUnitDbId: { type: 'string' as const, description: 'Only observations of this unit' },
+      germplasmDbId: { type: 'string' as const, description: 'Only observations of this germplasm' },
+      observationVariableDbId: { type: 'string' as const, description: 'Only observations of this variable' },
+      seasonDbId: { type: 'string' as const, description: 'Only observations in this season' },
+      ...pagingInputProperties(MAX_OBSERVATIONS_LIMIT)
+    },
+    required: []
+  },
+  outputSchema: listOutputSchema('observations', observationOutputSchema)
+};
+
+// Structured results
+export type ObservationUnitListResult = BrAPIListResult<'observationUnits', BrAPIObservationUnit>;
+export type ObservationVariableListResult = BrAPIListResult<'observationVariables', BrAPIObservationVariable>;
+export type ObservationListResult = BrAPIListResult<'observations', BrAPIObservation>;
+
+// Valid values of a scale: a numeric range or a list of categories
+const formatValidValues = (scale: BrAPIObservationVariable['scale']): string => {
+  const valid = scale?.validValues;
+  if (!valid) {
+    return '';
+  }
+  if (valid.categories && valid.categories.length > 0) {
+    return valid.categories.map(category => category.label ? `${category.value}=${category.label}` : category.value).join(', ');
+  }
+  if (valid.min !== undefined || valid.max !== undefined) {
+    return `${valid.min ?? ''}–${valid.max ?? ''}`;
+  }
+  return '';
+};
+
+// Tool implementations
+export function renderObservationUnitList(result: ObservationUnitListResult): string {
+  return renderBrAPIList(result, 'observationUnits', 'Observation Units', {
+    headers: ['Name', 'ID', 'Level', 'Germplasm', 'Study', 'Position'],
+    row: unit => {
+      const position = unit.observationUnitPosition;
+      return [
+        unit.observationUnitName,
+        unit.observationUnitDbId,
+        position?.observationLevel?.levelName
+          ? `${position.observationLevel.levelName} ${position.observationLevel.levelCode || ''}`
+          : '',
+        unit.germplasmName || unit.germplasmDbId,
+        unit.studyName || unit.studyDbId,
+        position?.positionCoordinateX || position?.positionCoordinateY
+          ? `${position.positionCoordinateX ?? ''},${position.positionCoordinateY ?? ''}`
+          : ''
+      ];
+    }
+  }, units => [
+    `List observations: "list observations of unit ${units[0].observationUnitDbId}"`
+  ]);
+}
+
+export async function handleListObservationUnits(args: unknown): Promise<ToolResult<ObservationUnitListResult>> {
+  return handleBrAPIListTool(args, ListObservationUnitsSchema, 'observationUnits',
+    (filters, endpoint, page, pageSize) =>
+      brapiClient.listObservationUnits({ ...filters, page, pageSize }, endpoint),
+    renderObservationUnitList);
+}
+
+export function renderObservationVariableList(result: ObservationVariableListResult): string {
+  return renderBrAPIList(result, 'observationVariables', 'Observation Variables', {
+    headers: ['Name', 'ID', 'Trait', 'Method', 'Scale', 'Type', 'Valid values'],
+    row: variable => [
+      variable.observationVariableName,
+      variable.observationVariableDbId,
+      variable.trait?.traitName,
+      variable.method?.methodName,
+      variable.scale?.scaleName,
+      variable.scale?.dataType,
+      formatValidValues(variable.scale)
+    ]
+  }, variables => [
+    `List values: "list observations of variable ${variables[0].observationVariableDbId}"`
+  ]);
+}
+
+export async function handleListObservationVariables(args: unknown): Promise<ToolResult<ObservationVariableListResult>> {
+  return handleBrAPIListTool(args, ListObservationVariablesSchema, 'observationVariables',
+    (filters, endpoint, page, pageSize) =>
+      brapiClient.listObservationVariables({ ...filters, page, pageSize }, endpoint),
+    renderObservationVariableList);
+}
+
+export function renderObservationList(result: ObservationListResult): string {
+  return renderBrAPIList(result, 'observations', 'Observations', {
+    headers: ['Unit', 'Germplasm', 'Variable', 'Value', 'Collected'],
+    row: observation => [
+      observation.observationUnitName || observation.observationUnitDbId,
+      observation.germplasmName || observation.germplasmDbId,
+      observation.observationVariableName || observation.observationVariableDbId,
+      observation.value,
+      observation.observationTimeStamp?.substring(0, 10)
+    ]
+  });
+}
+
+export async function handleListObservations(args: unknown): Promise<ToolResult<ObservationListResult>> {
+  return handleBrAPIListTool(args, ListObservationsSchema, 'observations',
+    (filters, endpoint, page, pageSize) =>
+      brapiClient.listObservations({ ...filters, page, pageSize }, endpoint),
+    renderObservationList);
+}
@@ -1,6 +1,10 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { solrClient, SolrDocument } from '@/lib/solr-client';
+import { bestSnippet, highlightsToMarkdown, HighlightFragments } from '@/lib/highlight';
+import { logSearch, compactFilters } from '@/lib/search-analytics';
+import { CatalogEntity, EntityReference, Pagination, ToolError, ToolResult } from '../types';
+import { toToolError, toolErrorOutputSchema, paginationOutputSchema } from '../errors';
 
 // Formatting utilities
 const getTypeIcon = (type: string): string => {
@@ -52,14 +56,14 @@ const formatMetadataField = (label: string, value: string, icon?: string): strin
   return `${prefix}**${label}:** ${value}`;
 };
 
-const createResultCard = (item: SolrDocument): string => {
+const createResultCard = (item: CatalogEntity): string => {
   const icon = getTypeIcon(item.type);
   let card = `\n${createSeparator('═', 50)}\n`;
   card += `${icon} **${item.name}** (${item.type.toUpperCase()})\n`;
   card += `${createSeparator('─', 30)}\n`;
   
   // Core information
-  card += formatMetadataField('Full Path', item.full_name, '🔗') + '\n';
+  card += formatMetadataField('Full Path', item.fullName, '🔗') + '\n';
   
   if (item.description) {
     const truncatedDesc = item.description.length > 100 
@@ -67,44 +71,79 @@ const createResultCard = (item: SolrDocument): string => {
       : item.description;
     card += formatMetadataField('Description', truncatedDesc, '📄') + '\n';
   }
+
+  if (item.snippet) {
+    card += formatMetadataField(`Match in ${item.snippet.field}`, `…${item.snippet.text}…`, '🔎') + '\n';
+  }
   
   // Context information
-  if (item.catalog_name) card += formatMetadataField('Catalog', item.catalog_name, '🗃️') + '\n';
-  if (item.schema_name) card += formatMetadataField('Schema', item.schema_name, '📁') + '\n';
+  if (item.catalog) card += formatMetadataField('Catalog', item.catalog, '🗃️') + '\n';
+  if (item.schema) card += formatMetadataField('Schema', item.schema, '📁') + '\n';
   if (item.owner) card += formatMetadataField('Owner', item.owner, '👤') + '\n';
   
   // Temporal information
-  if (item.created_at) {
-    card += formatMetadataField('Created', formatRelativeDate(item.created_at), '📅') + '\n';
+  if (item.createdAt) {
+    card += formatMetadataField('Created', formatRelativeDate(item.createdAt), '📅') + '\n';
   }
-  if (item.updated_at) {
-    card += formatMetadataField('Last Updated', formatRelativeDate(item.updated_at), '⏰') + '\n';
+  if (item.updatedAt) {
+    card += formatMetadataField('Last Updated', formatRelativeDate(item.updatedAt), '⏰') + '\n';
   }
   
   // File-specific information
-  if (item.file_size) {
-    card += formatMetadataField('Size', formatFileSize(item.file_size), '📏') + '\n';
+  if (item.fileSize) {
+    card += formatMetadataField('Size', formatFileSize(item.fileSize), '📏') + '\n';
   }
   
   // Tags and metadata
-  if (item.tags && item.tags.length > 0) {
+  if (item.tags.length > 0) {
     card += formatMetadataField('Tags', item.tags.map((t: string) => `\`${t}\``).join(' '), '🏷️') + '\n';
   }
   
-  if (item.data_type) {
-    card += formatMetadataField('Data Type', item.data_type, '🔤') + '\n';
+  if (item.dataType) {
+    card += formatMetadataField('Data Type', item.dataType, '🔤') + '\n';
   }
   
   return card;
 };
 
+const toSnippet = (fragments?: HighlightFragments): CatalogEntity['snippet'] => {
+  const snippet = bestSnippet(fragments);
+  return snippet ? { field: snippet.field, text: highlightsToMarkdown(snippet.text) } : undefined;
+};
+
+const toCatalogEntity = (item: SolrDocument, fragments?: HighlightFragments): CatalogEntity => ({
+  id: item.id,
+  name: item.name,
+  fullName: item.full_name,
+  type: item.type,
+  catalog: item.catalog_name || undefined,
+  schema: item.schema_name || undefined,
+  table: item.table_name || undefined,
+  volume: item.volume_name || undefined,
+  description: item.description || undefined,
+  owner: item.owner || undefined,
+  tags: item.tags || [],
+  dataType: item.data_type || undefined,
+  fileSize: item.file_size || undefined,
+  createdAt: item.created_at,
+  updatedAt: item.updated_at,
+  snippet: toSnippet(fragments)
+});
+
+const toEntityReference = ({ id, name, fullName, type }: CatalogEntity): EntityReference => ({
+  id,
+  name,
+  fullName,
+  type
+});
+
 // Input schema for the search_catalog tool  
 const searchCatalogSchema = {
   type: 'object' as const,
   properties: {
     query: {
       type: 'string' as const,
-      description: 'Natural language search query for Unity Catalog data'
+      description: 'Natural language search query for Unity Catalog data. Also accepts field syntax: type:, catalog:, schema:, owner:, tag:, data_type:, format:, updated: (e.g. updated:>=30d or updated:[2024-01-01 TO 2024-06-30]), "quoted phrases", -negation, AND/OR and parentheses'
     },
     type: {
       type: 'string' as const,
@@ -124,6 +163,11 @@ const searchCatalogSchema = {
       maximum: 100,
       default: 10,
       description: 'Maximum number of results to return'
+    },
+    group: {
+      type: 'string' as const,
+      enum: ['parent'],
+      description: 'Set to "parent" to collapse matching columns and files under their table or volume'
     }
   },
   required: ['query']
@@ -134,7 +178,8 @@ const SearchCatalogInputSchema = z.object({
   type: z.string().optional().describe('Filter by data type: table, schema, catalog, column, file, volume'),
   catalog: z.string().optional().describe('Filter by specific catalog name'),
   schema: z.string().optional().describe('Filter by specific schema name'),
-  limit: z.number().min(1).max(100).default(10).describe('Maximum number of results to return')
+  limit: z.number().min(1).max(100).default(10).describe('Maximum number of results to return'),
+  group: z.enum(['parent']).optional().describe('Collapse matching columns and files under their table or volume')
 });
 
 const getTableDetailsSchema = {
@@ -180,335 +225,705 @@ const ListCatalogsInputSchema = z.object({
   limit: z.number().min(1).max(50).default(20).describe('Maximum number of catalogs to return')
 });
 
+// Output schemas describing each tool's structured result
+const catalogEntityOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'string' as const },
+    name: { type: 'string' as const },
+    fullName: { type: 'string' as const },
+    type: { type: 'string' as const },
+    catalog: { type: 'string' as const },
+    schema: { type: 'string' as const },
+    table: { type: 'string' as const },
+    volume: { type: 'string' as const },
+    description: { type: 'string' as const },
+    owner: { type: 'string' as const },
+    tags: { type: 'array' as const, items: { type: 'string' as const } },
+    dataType: { type: 'string' as const },
+    fileSize: { type: 'number' as const },
+    createdAt: { type: 'string' as const },
+    updatedAt: { type: 'string' as const },
+    snippet: {
+      type: 'object' as const,
+      properties: {
+        field: { type: 'string' as const },
+        text: { type: 'string' as const }
+      },
+      required: ['field', 'text']
+    }
+  },
+  required: ['id', 'name', 'fullName', 'type', 'tags']
+};
+
+const facetCountsOutputSchema = {
+  type: 'object' as const,
+  additionalProperties: { type: 'number' as const }
+};
+
+const searchCatalogOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    query: { type: 'string' as const },
+    filters: {
+      type: 'object' as const,
+      properties: {
+        type: { type: 'string' as const },
+        catalog: { type: 'string' as const },
+        schema: { type: 'string' as const }
+      }
+    },
+    correction: {
+      type: 'object' as const,
+      properties: {
+        originalQuery: { type: 'string' as const },
+        correctedQuery: { type: 'string' as const }
+      },
+      required: ['originalQuery', 'correctedQuery']
+    },
+    suggestions: {
+      type: 'array' as const,
+      items: {
+        type: 'object' as const,
+        properties: {
+          query: { type: 'string' as const },
+          hits: { type: 'number' as const }
+        },
+        required: ['query', 'hits']
+      }
+    },
+    entities: { type: 'array' as const, items: catalogEntityOutputSchema },
+    groups: {
+      type: 'array' as const,
+      items: {
+        type: 'object' as const,
+        properties: {
+          parent: catalogEntityOutputSchema,
+          matches: { type: 'array' as const, items: catalogEntityOutputSchema },
+          matchCount: { type: 'number' as const }
+        },
+        required: ['parent', 'matches', 'matchCount']
+      }
+    },
+    facets: {
+      type: 'object' as const,
+      properties: {
+        types: facetCountsOutputSchema,
+        catalogs: facetCountsOutputSchema,
+        schemas: facetCountsOutputSchema,
+        owners: facetCountsOutputSchema
+      }
+    },
+    pagination: paginationOutputSchema,
+    error: toolErrorOutputSchema
+  },
+  required: ['query', 'filters', 'entities', 'facets', 'pagination']
+};
+
+const getTableDetailsOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    tableName: { type: 'string' as const },
+    table: catalogEntityOutputSchema,
+    columns: {
+      type: 'array' as const,
+      items: {
+        type: 'object' as const,
+        properties: {
+          name: { type: 'string' as const },
+          dataType: { type: 'string' as const },
+          description: { type: 'string' as const },
+          nullable: { type: 'boolean' as const }
+        },
+        required: ['name']
+      }
+    },
+    error: toolErrorOutputSchema
+  },
+  required: ['tableName', 'columns']
+};
+
+const listCatalogsOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    catalogs: { type: 'array' as const, items: catalogEntityOutputSchema },
+    schemaCounts: facetCountsOutputSchema,
+    pagination: paginationOutputSchema,
+    error: toolErrorOutputSchema
+  },
+  required: ['catalogs', 'schemaCounts', 'pagination']
+};
+
 export const searchCatalogTool: Tool = {
   name: 'search_catalog',
   description: 'Search Unity Catalog for tables, schemas, catalogs, columns, files, and volumes using natural language queries',
-  inputSchema: searchCatalogSchema
+  inputSchema: searchCatalogSchema,
+  outputSchema: searchCatalogOutputSchema
 };
 
 export const getTableDetailsTool: Tool = {
   name: 'get_table_details',
   description: 'Get detailed information about a specific table including schema, columns, and metadata',
-  inputSchema: getTableDetailsSchema
+  inputSchema: getTableDetailsSchema,
+  outputSchema: getTableDetailsOutputSchema
 };
 
 export const listCatalogsTool: Tool = {
   name: 'list_catalogs',
   description: 'List available catalogs in Unity Catalog with basic information',
-  inputSchema: listCatalogsSchema
+  inputSchema: listCatalogsSchema,
+  outputSchema: listCatalogsOutputSchema
+};
+
+// Structured results
+export interface SearchCatalogResult {
+  query: string;
+  filters: {
+    type?: string;
+    catalog?: string;
+    schema?: string;
+  };
+  // Set when the query matched nothing and the search was rerun with a spelling correction
+  correction?: {
+    originalQuery: string;
+    correctedQuery: string;
+  };
+  // Spell-corrected queries with their hit counts
+  suggestions?: { query: string; hits: number }[];
+  entities: CatalogEntity[];
+  // Only for group=parent; entities are then the group parents
+  groups?: CatalogEntityGroup[];
+  facets: {
+    types?: Record<string, number>;
+    catalogs?: Record<string, number>;
+    schemas?: Record<string, number>;
+    owners?: Record<string, number>;
+  };
+  pagination: Pagination;
+  error?: ToolError;
+}
+
+// A table or volume with its matching columns or files
+export interface CatalogEntityGroup {
+  parent: CatalogEntity;
+  matches: CatalogEntity[];
+  matchCount: number;
+}
+
+export interface ColumnInfo {
+  name: string;
+  dataType?: string;
+  description?: string;
+  nullable?: boolean;
+}
+
+export interface TableDetailsResult {
+  tableName: string;
+  table?: CatalogEntity;
+  columns: ColumnInfo[];
+  error?: ToolError;
+}
+
+export interface ListCatalogsResult {
+  catalogs: CatalogEntity[];
+  schemaCounts: Record<string, number>;
+  pagination: Pagination;
+  error?: ToolError;
+}
+
+const emptyPagination = (limit: number): Pagination => ({ limit, returned: 0, total: 0, hasMore: false });
+
+// Read a string argument from unvalidated tool input, for error results
+const stringArg = (args: unknown, key: string): string => {
+  const value = args && typeof args === 'object' ? (args as Record<string, unknown>)[key] : undefined;
+  return typeof value === 'string' ? value : '';
+};
+
+const renderToolError = (error: ToolError, title: string, invalidLabel = 'Invalid parameters'): string => {
+  if (error.code === 'invalid_arguments') {
+    return `❌ **${invalidLabel}:**\n${(error.details || [error.message]).map(d => `• ${d}`).join('\n')}`;
+  }
+  return `❌ **${title}:** ${error.message}`;
 };
 
 // Tool implementations
-export async function handleSearchCatalog(args: unknown): Promise<string> {
-  try {
-    const input = SearchCatalogInputSchema.parse(args);
-    
-    // Use natural language interpretation
-    const searchParams = solrClient.interpretNaturalLanguage(input.query);
-    
-    // Override with explicit parameters if provided
-    if (input.type) searchParams.type = input.type;
-    if (input.catalog) searchParams.catalog = input.catalog;
-    if (input.schema) searchParams.schema = input.schema;
-    searchParams.size = input.limit.toString();
-
-    const results = await solrClient.search(searchParams);
-    
-    if (results.total === 0) {
-      let noResultsResponse = `🔍 **No results found for "${input.query}"**\n\n`;
-      noResultsResponse += `${createSeparator('─', 40)}\n`;
-      noResultsResponse += `💡 **Suggestions:**\n`;
-      noResultsResponse += `• Check spelling and try different keywords\n`;
-      noResultsResponse += `• Use broader search terms (e.g., "user" instead of "user_profile")\n`;
-      noResultsResponse += `• Try searching for table types: "show me all tables"\n`;
-      noResultsResponse += `• Browse catalogs: "list catalogs"\n`;
-      return noResultsResponse;
+async function searchCatalog(input: z.infer<typeof SearchCatalogInputSchema>): Promise<SearchCatalogResult> {
+  // Use natural language interpretation
+  const searchParams = solrClient.interpretNaturalLanguage(input.query);
+
+  // Override with explicit parameters if provided
+  if (input.type) searchParams.type = input.type;
+  if (input.catalog) searchParams.catalog = input.catalog;
+  if (input.schema) searchParams.schema = input.schema;
+  searchParams.size = input.limit.toString();
+  searchParams.group = input.group;
+
+  let results = await solrClient.search(searchParams);
+  const suggestions = results.suggestions || [];
+  let correction: SearchCatalogResult['correction'];
+
+  // Nothing matched: retry once with the best spelling correction
+  if (results.total === 0 && suggestions.length > 0) {
+    correction = { originalQuery: searchParams.q || input.query, correctedQuery: suggestions[0].query };
+    results = await solrClient.search({ ...searchParams, q: suggestions[0].query });
+  }
+
+  const highlights = results.highlights || {};
+  const entities = results.results.slice(0, input.limit).map(doc => toCatalogEntity(doc, highlights[doc.id]));
+  // Groups whose parent isn't indexed are left out, matching entities
+  const groups = results.groups
+    ?.filter(group => group.parent)
+    .slice(0, input.limit)
+    .map(group => ({
+      parent: toCatalogEntity(group.parent!, highlights[group.parent!.id]),
+      matches: group.matches.map(doc => toCatalogEntity(doc, highlights[doc.id])),
+      matchCount: group.matchCount
+    }));
+
+  return {
+    query: input.query,
+    filters: { type: searchParams.type, catalog: searchParams.catalog, schema: searchParams.schema },
+    correction,
+    suggestions: suggestions.length > 0 ? suggestions : undefined,
+    entities,
+    groups,
+    facets: results.facets || {},
+    pagination: {
+      limit: input.limit,
+      returned: entities.length,
+      total: results.total,
+      hasMore: results.total > entities.length
     }
+  };
+}
 
-    // Header with search summary
-    let response = `🔍 **Search Results for "${input.query}"**\n`;
-    response += `${createSeparator('═', 50)}\n`;
-    response += `📊 Found **${results.total}** result(s) • Showing **${Math.min(input.limit, results.total)}**\n`;
+export function renderSearchCatalog(result: SearchCatalogResult): string {
+  if (result.error) {
+    return renderToolError(result.error, 'Search Error', 'Invalid search parameters');
+  }
+
+  const { query, entities, facets, pagination, correction } = result;
 
-    // Results cards
-    results.results.slice(0, input.limit).forEach((item) => {
+  if (pagination.total === 0) {
+    let noResultsResponse = `🔍 **No results found for "${query}"**\n\n`;
+    noResultsResponse += `${createSeparator('─', 40)}\n`;
+    if (result.suggestions && result.suggestions.length > 0) {
+      noResultsResponse += `🔤 **Did you mean:** ${result.suggestions.map(s => `"${s.query}" (${s.hits})`).join(', ')}\n\n`;
+    }
+    noResultsResponse += `💡 **Suggestions:**\n`;
+    noResultsResponse += `• Check spelling and try different keywords\n`;
+    noResultsResponse += `• Use broader search terms (e.g., "user" instead of "user_profile")\n`;
+    noResultsResponse += `• Try searching for table types: "show me all tables"\n`;
+    noResultsResponse += `• Browse catalogs: "list catalogs"\n`;
+    return noResultsResponse;
+  }
+
+  // Header with search summary
+  let response = `🔍 **Search Results for "${query}"**\n`;
+  response += `${createSeparator('═', 50)}\n`;
+  if (correction) {
+    response += `🔤 No results for "${correction.originalQuery}" — showing results for **"${correction.correctedQuery}"** instead\n`;
+  }
+  response += `📊 Found **${pagination.total}** result(s) • Showing **${Math.min(pagination.limit, pagination.total)}**\n`;
+
+  // Results cards, with matching columns or files listed under their parent when grouped
+  if (result.groups) {
+    result.groups.forEach(({ parent, matches, matchCount }) => {
+      response += createResultCard(parent);
+      if (matches.length > 0) {
+        response += `↳ **${matchCount} matching ${matches[0].type === 'column' ? 'column' : 'file'}(s):**\n`;
+        matches.forEach(match => {
+          response += `  ${getTypeIcon(match.type)} ${match.name}${match.dataType ? ` (${match.dataType})` : ''}\n`;
+        });
+        if (matchCount > matches.length) {
+          response += `  …and ${matchCount - matches.length} more\n`;
+        }
+      }
+    });
+  } else {
+    entities.forEach((item) => {
       response += createResultCard(item);
     });
+  }
 
-    // Summary section
-    response += `\n${createSeparator('═', 50)}\n`;
-    response += `📈 **Summary**\n`;
-    response += `${createSeparator('─', 30)}\n`;
-
-    // Add facet information if available
-    if (results.facets && Object.keys(results.facets.types).length > 0) {
-      response += `📋 **By Type:**\n`;
-      Object.entries(results.facets.types)
-        .sort(([,a], [,b]) => b - a) // Sort by count descending
-        .forEach(([type, count]) => {
-          const icon = getTypeIcon(type);
-          response += `  ${icon} ${type}: **${count}**\n`;
-        });
-      response += '\n';
-    }
+  // Summary section
+  response += `\n${createSeparator('═', 50)}\n`;
+  response += `📈 **Summary**\n`;
+  response += `${createSeparator('─', 30)}\n`;
+
+  // Add facet information if available
+  if (facets.types && Object.keys(facets.types).length > 0) {
+    response += `📋 **By Type:**\n`;
+    Object.entries(facets.types)
+      .sort(([,a], [,b]) => b - a) // Sort by count descending
+      .forEach(([type, count]) => {
+        const icon = getTypeIcon(type);
+        response += `  ${icon} ${type}: **${count}**\n`;
+      });
+    response += '\n';
+  }
 
-    // Pagination info
-    if (results.total > input.limit) {
-      response += `📄 **Pagination:** Showing ${input.limit} of ${results.total} results\n`;
-      response += `💡 *Use more specific search terms to narrow results or increase limit*\n`;
-    }
+  // Pagination info
+  if (pagination.total > pagination.limit) {
+    response += `📄 **Pagination:** Showing ${pagination.limit} of ${pagination.total} results\n`;
+    response += `💡 *Use more specific search terms to narrow results or increase limit*\n`;
+  }
 
-    // Quick actions
-    response += `\n🚀 **Quick Actions:**\n`;
-    if (results.results.some(r => r.type === 'table')) {
-      const tableName = results.results.find(r => r.type === 'table')?.name;
-      response += `• Get table details: "show me details for ${tableName}"\n`;
-    }
-    response += `• Refine search: "show me only tables matching ${input.query}"\n`;
-    response += `• Browse by catalog: "list catalogs"\n`;
+  // Quick actions
+  response += `\n🚀 **Quick Actions:**\n`;
+  const firstTable = entities.find(r => r.type === 'table');
+  if (firstTable) {
+    response += `• Get table details: "show me details for ${firstTable.name}"\n`;
+  }
+  response += `• Refine search: "show me only tables matching ${query}"\n`;
+  response += `• Browse by catalog: "list catalogs"\n`;
 
-    return response;
+  return response;
+}
+
+export async function handleSearchCatalog(args: unknown): Promise<ToolResult<SearchCatalogResult>> {
+  const started = Date.now();
+  try {
+    const input = SearchCatalogInputSchema.parse(args);
+    const result = await searchCatalog(input);
+    // Logging is best effort and catches its own errors, so it isn't awaited. Tool calls aren't tied to a user yet.
+    void logSearch({
+      userId: null,
+      source: 'mcp',
+      query: input.query,
+      filters: compactFilters({ ...result.filters, group: input.group, limit: input.limit }),
+      hitCount: result.pagination.total,
+      latencyMs: Date.now() - started
+    });
+    return {
+      content: renderSearchCatalog(result),
+      structured: result,
+      entities: [
+        ...result.entities,
+        ...(result.groups || []).flatMap(group => group.matches)
+      ].map(toEntityReference)
+    };
   } catch (error) {
     console.error('Search catalog error:', error);
-    if (error instanceof z.ZodError) {
-      return `❌ **Invalid search parameters:**\n${error.errors.map(e => `• ${e.message}`).join('\n')}`;
-    }
-    return `❌ **Search Error:** ${error instanceof Error ? error.message : 'Unknown error occurred'}`;
+    void logSearch({
+      userId: null,
+      source: 'mcp',
+      query: stringArg(args, 'query'),
+      filters: {},
+      hitCount: null,
+      latencyMs: Date.now() - started,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    const result: SearchCatalogResult = {
+      query: stringArg(args, 'query'),
+      filters: {},
+      entities: [],
+      facets: {},
+      pagination: emptyPagination(0),
+      error: toToolError(error)
+    };
+    return { content: renderSearchCatalog(result), structured: result, isError: true };
   }
 }
 
-export async function handleGetTableDetails(args: unknown): Promise<string> {
-  try {
-    const input = GetTableDetailsInputSchema.parse(args);
-    
-    // Search for the specific table
-    const searchParams = {
-      q: input.tableName,
-      type: 'table',
-      catalog: input.catalog,
-      schema: input.schema,
-      size: '1'
-    };
+async function getTableDetails(input: z.infer<typeof GetTableDetailsInputSchema>): Promise<TableDetailsResult> {
+  // Search for the specific table
+  const results = await solrClient.search({
+    q: input.tableName,
+    type: 'table',
+    catalog: input.catalog,
+    schema: input.schema,
+    size: '1'
+  });
+
+  if (results.total === 0) {
+    return { tableName: input.tableName, columns: [] };
+  }
 
-    const results = await solrClient.search(searchParams);
-    
-    if (results.total === 0) {
-      let notFoundResponse = `❌ **Table Not Found: "${input.tableName}"**\n\n`;
-      notFoundResponse += `${createSeparator('─', 40)}\n`;
-      notFoundResponse += `💡 **Suggestions:**\n`;
-      notFoundResponse += `• Check the table name spelling\n`;
-      notFoundResponse += `• Try searching: "search for ${input.tableName}"\n`;
-      notFoundResponse += `• Browse available tables: "show me all tables"\n`;
-      if (input.catalog) {
-        notFoundResponse += `• Search in catalog: "tables in ${input.catalog}"\n`;
-      }
-      return notFoundResponse;
+  const table = results.results[0];
+
+  // Columns are indexed as their own documents, keyed by catalog/schema/table
+  const columnSearch = await solrClient.search({
+    q: '*',
+    type: 'column',
+    catalog: table.catalog_name,
+    schema: table.schema_name,
+    table: table.table_name || table.name,
+    size: '50'
+  });
+
+  return {
+    tableName: input.tableName,
+    table: toCatalogEntity(table),
+    columns: columnSearch.results.map(column => ({
+      name: column.name,
+      dataType: column.data_type || undefined,
+      description: column.description || undefined,
+      nullable: column.is_nullable
+    }))
+  };
+}
+
+export function renderTableDetails(result: TableDetailsResult, catalog?: string): string {
+  if (result.error) {
+    return renderToolError(result.error, 'Error getting table details');
+  }
+
+  const { table, columns } = result;
+
+  if (!table) {
+    let notFoundResponse = `❌ **Table Not Found: "${result.tableName}"**\n\n`;
+    notFoundResponse += `${createSeparator('─', 40)}\n`;
+    notFoundResponse += `💡 **Suggestions:**\n`;
+    notFoundResponse += `• Check the table name spelling\n`;
+    notFoundResponse += `• Try searching: "search for ${result.tableName}"\n`;
+    notFoundResponse += `• Browse available tables: "show me all tables"\n`;
+    if (catalog) {
+      notFoundResponse += `• Search in catalog: "tables in ${catalog}"\n`;
     }
+    return notFoundResponse;
+  }
+
+  const tableIcon = getTypeIcon(table.type);
+
+  // Header
+  let response = `${tableIcon} **Table Details: ${table.name}**\n`;
+  response += `${createSeparator('═', 60)}\n\n`;
 
-    const table = results.results[0];
-    const tableIcon = getTypeIcon(table.type);
-    
-    // Header
-    let response = `${tableIcon} **Table Details: ${table.name}**\n`;
-    response += `${createSeparator('═', 60)}\n\n`;
-    
-    // Core Information Section
-    response += `📋 **Basic Information**\n`;
+  // Core Information Section
+  response += `📋 **Basic Information**\n`;
+  response += `${createSeparator('─', 40)}\n`;
+  response += formatMetadataField('Full Path', table.fullName, '🔗') + '\n';
+  response += formatMetadataField('Type', table.type.toUpperCase(), '📊') + '\n';
+
+  if (table.catalog) response += formatMetadataField('Catalog', table.catalog, '🗃️') + '\n';
+  if (table.schema) response += formatMetadataField('Schema', table.schema, '📁') + '\n';
+  if (table.owner) response += formatMetadataField('Owner', table.owner, '👤') + '\n';
+
+  // Temporal Information
+  if (table.createdAt || table.updatedAt) {
+    response += `\n⏰ **Timeline**\n`;
     response += `${createSeparator('─', 40)}\n`;
-    response += formatMetadataField('Full Path', table.full_name, '🔗') + '\n';
-    response += formatMetadataField('Type', table.type.toUpperCase(), '📊') + '\n';
-    
-    if (table.catalog_name) response += formatMetadataField('Catalog', table.catalog_name, '🗃️') + '\n';
-    if (table.schema_name) response += formatMetadataField('Schema', table.schema_name, '📁') + '\n';
-    if (table.owner) response += formatMetadataField('Owner', table.owner, '👤') + '\n';
-    
-    // Temporal Information
-    if (table.created_at || table.updated_at) {
-      response += `\n⏰ **Timeline**\n`;
-      response += `${createSeparator('─', 40)}\n`;
-      if (table.created_at) {
-        response += formatMetadataField('Created', formatRelativeDate(table.created_at), '📅') + '\n';
-      }
-      if (table.updated_at) {
-        response += formatMetadataField('Last Updated', formatRelativeDate(table.updated_at), '🔄') + '\n';
-      }
-    }
-    
-    // Description Section
-    if (table.description) {
-      response += `\n📄 **Description**\n`;
-      response += `${createSeparator('─', 40)}\n`;
-      response += `${table.description}\n`;
+    if (table.createdAt) {
+      response += formatMetadataField('Created', formatRelativeDate(table.createdAt), '📅') + '\n';
     }
-    
-    // Tags Section
-    if (table.tags && table.tags.length > 0) {
-      response += `\n🏷️ **Tags**\n`;
-      response += `${createSeparator('─', 40)}\n`;
-      response += table.tags.map(tag => `\`${tag}\``).join(' • ') + '\n';
+    if (table.updatedAt) {
+      response += formatMetadataField('Last Updated', formatRelativeDate(table.updatedAt), '🔄') + '\n';
     }
+  }
+
+  // Description Section
+  if (table.description) {
+    response += `\n📄 **Description**\n`;
+    response += `${createSeparator('─', 40)}\n`;
+    response += `${table.description}\n`;
+  }
+
+  // Tags Section
+  if (table.tags.length > 0) {
+    response += `\n🏷️ **Tags**\n`;
+    response += `${createSeparator('─', 40)}\n`;
+    response += table.tags.map(tag => `\`${tag}\``).join(' • ') + '\n';
+  }
+
+  if (columns.length > 0) {
+    response += `\n📝 **Schema (${columns.length} columns)**\n`;
+    response += `${createSeparator('─', 40)}\n`;
 
-    // Search for columns in this table
-    const columnSearch = await solrClient.search({
-      q: `table_name:"${table.table_name || table.name}"`,
-      type: 'column',
-      size: '50'
+    // Group columns by data type for better organization
+    const columnsByType: Record<string, ColumnInfo[]> = {};
+    columns.forEach(column => {
+      const type = column.dataType || 'unknown';
+      if (!columnsByType[type]) columnsByType[type] = [];
+      columnsByType[type].push(column);
     });
 
-    if (columnSearch.total > 0) {
-      response += `\n📝 **Schema (${columnSearch.total} columns)**\n`;
-      response += `${createSeparator('─', 40)}\n`;
-      
-      // Group columns by data type for better organization
-      const columnsByType: Record<string, SolrDocument[]> = {};
-      columnSearch.results.forEach(column => {
-        const type = column.data_type || 'unknown';
-        if (!columnsByType[type]) columnsByType[type] = [];
-        columnsByType[type].push(column);
-      });
+    // Show columns grouped by type
+    Object.entries(columnsByType).forEach(([dataType, typeColumns]) => {
+      if (Object.keys(columnsByType).length > 1) {
+        response += `\n**${dataType.toUpperCase()} Columns (${typeColumns.length}):**\n`;
+      }
 
-      // Show columns grouped by type
-      Object.entries(columnsByType).forEach(([dataType, columns]) => {
-        if (Object.keys(columnsByType).length > 1) {
-          response += `\n**${dataType.toUpperCase()} Columns (${columns.length}):**\n`;
+      typeColumns.forEach(column => {
+        response += `  📝 **${column.name}**`;
+        if (column.dataType && Object.keys(columnsByType).length === 1) {
+          response += ` \`${column.dataType}\``;
         }
-        
-        columns.forEach(column => {
-          response += `  📝 **${column.name}**`;
-          if (column.data_type && Object.keys(columnsByType).length === 1) {
-            response += ` \`${column.data_type}\``;
-          }
-          if (column.description) {
-            response += `\n     ${column.description}`;
-          }
-          response += '\n';
-        });
+        if (column.description) {
+          response += `\n     ${column.description}`;
+        }
+        response += '\n';
       });
-    } else {
-      response += `\n📝 **Schema**\n`;
-      response += `${createSeparator('─', 40)}\n`;
-      response += `⚠️ No column information available\n`;
-    }
-
-    // Quick Actions
-    response += `\n🚀 **Quick Actions**\n`;
+    });
+  } else {
+    response += `\n📝 **Schema**\n`;
     response += `${createSeparator('─', 40)}\n`;
-    response += `• Search related tables: "tables in ${table.schema_name || table.catalog_name}"\n`;
-    response += `• Find similar tables: "tables like ${table.name}"\n`;
-    if (table.owner) {
-      response += `• Tables by owner: "tables owned by ${table.owner}"\n`;
-    }
+    response += `⚠️ No column information available\n`;
+  }
+
+  // Quick Actions
+  response += `\n🚀 **Quick Actions**\n`;
+  response += `${createSeparator('─', 40)}\n`;
+  response += `• Search related tables: "tables in ${table.schema || table.catalog}"\n`;
+  response += `• Find similar tables: "tables like ${table.name}"\n`;
+  if (table.owner) {
+    response += `• Tables by owner: "tables owned by ${table.owner}"\n`;
+  }
 
-    return response;
+  return response;
+}
+
+export async function handleGetTableDetails(args: unknown): Promise<ToolResult<TableDetailsResult>> {
+  try {
+    const input = GetTableDetailsInputSchema.parse(args);
+    const result = await getTableDetails(input);
+    return {
+      content: renderTableDetails(result, input.catalog),
+      structured: result,
+      entities: result.table ? [toEntityReference(result.table)] : []
+    };
   } catch (error) {
     console.error('Get table details error:', error);
-    if (error instanceof z.ZodError) {
-      return `❌ **Invalid parameters:**\n${error.errors.map(e => `• ${e.message}`).join('\n')}`;
-    }
-    return `❌ **Error getting table details:** ${error instanceof Error ? error.message : 'Unknown error occurred'}`;
+    const result: TableDetailsResult = {
+      tableName: stringArg(args, 'tableName'),
+      columns: [],
+      error: toToolError(error)
+    };
+    return { content: renderTableDetails(result), structured: result, isError: true };
   }
 }
 
-export async function handleListCatalogs(args: unknown): Promise<string> {
-  try {
-    const input = ListCatalogsInputSchema.parse(args);
-    
-    const results = await solrClient.search({
-      q: '*',
-      type: 'catalog',
-      size: input.limit.toString()
-    });
-    
-    if (results.total === 0) {
-      let noCatalogsResponse = `🗃️ **No Catalogs Found**\n\n`;
-      noCatalogsResponse += `${createSeparator('─', 40)}\n`;
-      noCatalogsResponse += `💡 **This might mean:**\n`;
-      noCatalogsResponse += `• No catalogs are indexed yet\n`;
-      noCatalogsResponse += `• The search index is empty\n`;
-      noCatalogsResponse += `• Access permissions may be limited\n`;
-      noCatalogsResponse += `\n🚀 **Try:**\n`;
-      noCatalogsResponse += `• Check with your data admin\n`;
-      noCatalogsResponse += `• Search for specific data: "show me tables"\n`;
-      return noCatalogsResponse;
+async function listCatalogs(input: z.infer<typeof ListCatalogsInputSchema>): Promise<ListCatalogsResult> {
+  const results = await solrClient.search({
+    q: '*',
+    type: 'catalog',
+    size: input.limit.toString()
+  });
+  const catalogs = results.results.map(doc => toCatalogEntity(doc));
+
+  return {
+    catalogs,
+    schemaCounts: results.facets?.schemas || {},
+    pagination: {
+      limit: input.limit,
+      returned: catalogs.length,
+      total: results.total,
+      hasMore: results.total > catalogs.length
     }
+  };
+}
 
-    // Header
-    let response = `🗃️ **Available Catalogs**\n`;
-    response += `${createSeparator('═', 50)}\n`;
-    response += `📊 Found **${results.total}** catalog(s) • Showing **${Math.min(input.limit, results.total)}**\n\n`;
-    
-    // Catalog cards
-    results.results.forEach((catalog) => {
-      const catalogIcon = getTypeIcon('catalog');
-      response += `${createSeparator('─', 45)}\n`;
-      response += `${catalogIcon} **${catalog.name}**\n`;
-      response += `${createSeparator('·', 30)}\n`;
-      
-      if (catalog.description) {
-        const truncatedDesc = catalog.description.length > 120 
-          ? catalog.description.substring(0, 120) + '...' 
-          : catalog.description;
-        response += `📄 ${truncatedDesc}\n`;
-      }
-      
-      if (catalog.owner) {
-        response += `👤 **Owner:** ${catalog.owner}\n`;
-      }
-      
-      if (catalog.created_at) {
-        response += `📅 **Created:** ${formatRelativeDate(catalog.created_at)}\n`;
-      }
-      
-      if (catalog.updated_at) {
-        response += `⏰ **Updated:** ${formatRelativeDate(catalog.updated_at)}\n`;
-      }
-      
-      response += '\n';
-    });
+export function renderListCatalogs(result: ListCatalogsResult): string {
+  if (result.error) {
+    return renderToolError(result.error, 'Error listing catalogs');
+  }
 
-    // Summary section with facet information
-    response += `${createSeparator('═', 50)}\n`;
-    response += `📈 **Summary**\n`;
-    response += `${createSeparator('─', 30)}\n`;
-
-    if (results.facets?.schemas && Object.keys(results.facets.schemas).length > 0) {
-      response += `📁 **Objects by Schema:**\n`;
-      Object.entries(results.facets.schemas)
-        .sort(([,a], [,b]) => b - a) // Sort by count descending  
-        .slice(0, 10) // Show top 10
-        .forEach(([schema, count]) => {
-          response += `  📁 ${schema}: **${count}** objects\n`;
-        });
-      
-      if (Object.keys(results.facets.schemas).length > 10) {
-        response += `  *... and ${Object.keys(results.facets.schemas).length - 10} more schemas*\n`;
-      }
-      response += '\n';
+  const { catalogs, schemaCounts, pagination } = result;
+
+  if (pagination.total === 0) {
+    let noCatalogsResponse = `🗃️ **No Catalogs Found**\n\n`;
+    noCatalogsResponse += `${createSeparator('─', 40)}\n`;
+    noCatalogsResponse += `💡 **This might mean:**\n`;
+    noCatalogsResponse += `• No catalogs are indexed yet\n`;
+    noCatalogsResponse += `• The search index is empty\n`;
+    noCatalogsResponse += `• Access permissions may be limited\n`;
+    noCatalogsResponse += `\n🚀 **Try:**\n`;
+    noCatalogsResponse += `• Check with your data admin\n`;
+    noCatalogsResponse += `• Search for specific data: "show me tables"\n`;
+    return noCatalogsResponse;
+  }
+
+  // Header
+  let response = `🗃️ **Available Catalogs**\n`;
+  response += `${createSeparator('═', 50)}\n`;
+  response += `📊 Found **${pagination.total}** catalog(s) • Showing **${Math.min(pagination.limit, pagination.total)}**\n\n`;
+
+  // Catalog cards
+  catalogs.forEach((catalog) => {
+    const catalogIcon = getTypeIcon('catalog');
+    response += `${createSeparator('─', 45)}\n`;
+    response += `${catalogIcon} **${catalog.name}**\n`;
+    response += `${createSeparator('·', 30)}\n`;
+
+    if (catalog.description) {
+      const truncatedDesc = catalog.description.length > 120
+        ? catalog.description.substring(0, 120) + '...'
+        : catalog.description;
+      response += `📄 ${truncatedDesc}\n`;
     }
 
-    // Pagination info
-    if (results.total > input.limit) {
-      response += `📄 **Pagination:** Showing ${input.limit} of ${results.total} catalogs\n`;
-      response += `💡 *Use a higher limit to see more catalogs*\n\n`;
+    if (catalog.owner) {
+      response += `👤 **Owner:** ${catalog.owner}\n`;
     }
 
-    // Quick Actions
-    response += `🚀 **Quick Actions:**\n`;
-    response += `${createSeparator('─', 30)}\n`;
-    if (results.results.length > 0) {
-      const firstCatalog = results.results[0].name;
-      response += `• Explore catalog: "show me tables in ${firstCatalog}"\n`;
-      response += `• Search across catalogs: "find customer tables"\n`;
+    if (catalog.createdAt) {
+      response += `📅 **Created:** ${formatRelativeDate(catalog.createdAt)}\n`;
     }
-    response += `• Get detailed info: "show me details for [catalog_name]"\n`;
-    response += `• Search everything: "show me all tables"\n`;
 
-    return response;
+    if (catalog.updatedAt) {
+      response += `⏰ **Updated:** ${formatRelativeDate(catalog.updatedAt)}\n`;
+    }
+
+    response += '\n';
+  });
+
+  // Summary section with facet information
+  response += `${createSeparator('═', 50)}\n`;
+  response += `📈 **Summary**\n`;
+  response += `${createSeparator('─', 30)}\n`;
+
+  if (Object.keys(schemaCounts).length > 0) {
+    response += `📁 **Objects by Schema:**\n`;
+    Object.entries(schemaCounts)
+      .sort(([,a], [,b]) => b - a) // Sort by count descending
+      .slice(0, 10) // Show top 10
+      .forEach(([schema, count]) => {
+        response += `  📁 ${schema}: **${count}** objects\n`;
+      });
+
+    if (Object.keys(schemaCounts).length > 10) {
+      response += `  *... and ${Object.keys(schemaCounts).length - 10} more schemas*\n`;
+    }
+    response += '\n';
+  }
+
+  // Pagination info
+  if (pagination.total > pagination.limit) {
+    response += `📄 **Pagination:** Showing ${pagination.limit} of ${pagination.total} catalogs\n`;
+    response += `💡 *Use a higher limit to see more catalogs*\n\n`;
+  }
+
+  // Quick Actions
+  response += `🚀 **Quick Actions:**\n`;
+  response += `${createSeparator('─', 30)}\n`;
+  if (catalogs.length > 0) {
+    const firstCatalog = catalogs[0].name;
+    response += `• Explore catalog: "show me tables in ${firstCatalog}"\n`;
+    response += `• Search across catalogs: "find customer tables"\n`;
+  }
+  response += `• Get detailed info: "show me details for [catalog_name]"\n`;
+  response += `• Search everything: "show me all tables"\n`;
+
+  return response;
+}
+
+export async function handleListCatalogs(args: unknown): Promise<ToolResult<ListCatalogsResult>> {
+  try {
+    const input = ListCatalogsInputSchema.parse(args);
+    const result = await listCatalogs(input);
+    return {
+      content: renderListCatalogs(result),
+      structured: result,
+      entities: result.catalogs.map(toEntityReference)
+    };
   } catch (error) {
     console.error('List catalogs error:', error);
-    if (error instanceof z.ZodError) {
-      return `❌ **Invalid parameters:**\n${error.errors.map(e => `• ${e.message}`).join('\n')}`;
-    }
-    return `❌ **Error listing catalogs:** ${error instanceof Error ? error.message : 'Unknown error occurred'}`;
+    const result: ListCatalogsResult = {
+      catalogs: [],
+      schemaCounts: {},
+      pagination: emptyPagination(0),
+      error: toToolError(error)
+    };
+    return { content: renderListCatalogs(result), structured: result, isError: true };
   }
-}
\ No newline at end of file
+}
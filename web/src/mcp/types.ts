@@ -0,0 +1,49 @@
+// A catalog entity referenced by a tool result, used for citations in chat
+export interface EntityReference {
+  id: string;
+  name: string;
+  fullName: string;
+  type: string;
+}
+
+// Unity Catalog entity as returned in structured tool results
+export interface CatalogEntity extends EntityReference {
+  catalog?: string;
+  schema?: string;
+  table?: string;
+  volume?: string;
+  description?: string;
+  owner?: string;
+  tags: string[];
+  dataType?: string;
+  fileSize?: number;
+  createdAt?: string;
+  updatedAt?: string;
+  // Highlighted fragment explaining the match, with matched terms in **bold**
+  snippet?: {
+    field: string;
+    text: string;
+  };
+}
+
+export interface Pagination {
+  limit: number;
+  returned: number;
+  total: number;
+  hasMore: boolean;
+}
+
+export interface ToolError {
+  code: 'invalid_arguments' | 'not_configured' | 'unsupported' | 'upstream_error';
+  message: string;
+  details?: string[];
+}
+
+export interface ToolResult<T extends object = object> {
+  // Markdown rendering passed to the model and shown in tool panels
+  content: string;
+  // Typed result object, surfaced to MCP clients as structuredContent
+  structured?: T;
+  entities?: EntityReference[];
+  isError?: boolean;
+}